@@ -2,99 +2,42 @@ import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, Text, TouchableOpacity, Alert, FlatList, ScrollView, Modal } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import { router, useFocusEffect } from 'expo-router';
-import { useCallback } from 'react';
+import { router } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
-
-interface DataRecord {
-  id: string;
-  templateId: string;
-  templateName: string;
-  data: { [fieldId: string]: string };
-  timestamp: Date;
-  dataFileName?: string;
-}
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  fields: TemplateField[];
-  createdAt: Date;
-  csvExportSettings?: CSVExportSettings;
-}
-
-interface TemplateField {
-  id: string;
-  name: string;
-  type: string;
-  required: boolean;
-  defaultValue?: string;
-  options?: string[];
-  dateFormat?: string;
-  customDateFormat?: string;
-}
-
-interface FileGroup {
-  fileName: string;
-  records: DataRecord[];
-  totalRecords: number;
-}
-
-interface CSVExportSettings {
-  includeHeader: boolean;
-  delimiter: 'comma' | 'semicolon' | 'pipe' | 'custom';
-  customDelimiter?: string;
-  fieldPositions: { [fieldId: string]: number };
-  fileExtension: string;
-  includeQuotes: boolean;
-}
+import { useAdminGuard } from '@/hooks/useAdminGuard';
+import { DEFAULT_CSV_EXPORT_SETTINGS, loadTemplates as loadStoredTemplates, resolveRecordTemplateVersion } from '@/storage/templates';
+import { deleteDataFile, loadDataFileSummaries, loadFileRecords } from '@/storage/records';
+import { subscribe } from '@/storage/events';
+import { getVisibleFieldIds } from '@/storage/conditions';
+import { formatStoredValue, isDateTimeField } from '@/storage/datetime';
+import { normalizeNumberValue } from '@/storage/numbers';
+import { writeExportWithPhotos } from '@/storage/photos';
+import { CHECKBOX_CHECKED, DataFileSummary, Template, TemplateField } from '@/storage/types';
 
 export default function DataFilesScreen() {
-  const [records, setRecords] = useState<DataRecord[]>([]);
   const [templates, setTemplates] = useState<Template[]>([]);
-  const [fileGroups, setFileGroups] = useState<FileGroup[]>([]);
+  const [fileGroups, setFileGroups] = useState<DataFileSummary[]>([]);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<string | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
+  const { requireAdmin, adminPinModal } = useAdminGuard();
   
 
-  const DATA_RECORDS_FILE = FileSystem.documentDirectory + 'dataRecords.json';
-  const TEMPLATES_FILE = FileSystem.documentDirectory + 'templates.json';
-
+  // Reload data whenever templates or records are written elsewhere in the app
   useEffect(() => {
     loadData();
+    return subscribe(() => loadData());
   }, []);
 
-  useEffect(() => {
-    groupRecordsByFile();
-  }, [records]);
-
-  // Reload data whenever the screen comes into focus
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [])
-  );
-
   const loadData = async () => {
-    await Promise.all([loadRecords(), loadTemplates()]);
+    await Promise.all([loadFileGroups(), loadTemplates()]);
   };
 
-  const loadRecords = async () => {
+  // File names, counts and latest-record order come straight from the record database indexes
+  const loadFileGroups = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(DATA_RECORDS_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(DATA_RECORDS_FILE);
-        const loadedRecords = JSON.parse(content).map((record: any) => ({
-          ...record,
-          timestamp: new Date(record.timestamp)
-        }));
-        setRecords(loadedRecords.sort((a: DataRecord, b: DataRecord) => 
-          b.timestamp.getTime() - a.timestamp.getTime()
-        ));
-      }
+      setFileGroups(await loadDataFileSummaries());
     } catch (error) {
       console.error('Error loading records:', error);
     }
@@ -102,119 +45,50 @@ export default function DataFilesScreen() {
 
   const loadTemplates = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(TEMPLATES_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(TEMPLATES_FILE);
-        const loadedTemplates = JSON.parse(content);
-        setTemplates(loadedTemplates);
-      }
+      setTemplates(await loadStoredTemplates());
     } catch (error) {
       console.error('Error loading templates:', error);
     }
   };
 
-  const groupRecordsByFile = () => {
-    const groups: { [fileName: string]: DataRecord[] } = {};
-
-    records.forEach(record => {
-      const fileName = record.dataFileName || 'Unnamed File';
-      if (!groups[fileName]) {
-        groups[fileName] = [];
-      }
-      groups[fileName].push(record);
-    });
-
-    const fileGroupsArray = Object.entries(groups).map(([fileName, groupRecords]) => ({
-      fileName,
-      records: groupRecords.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
-      totalRecords: groupRecords.length
-    }));
-
-    // Sort file groups by most recent record in each group
-    fileGroupsArray.sort((a, b) => {
-      const aLatest = a.records[0]?.timestamp.getTime() || 0;
-      const bLatest = b.records[0]?.timestamp.getTime() || 0;
-      return bLatest - aLatest;
-    });
-
-    setFileGroups(fileGroupsArray);
-  };
-
-  // Format date according to template field settings
+  // Format date and time values according to template field settings
   const formatDateForExport = (dateValue: string, field: TemplateField): string => {
-    if (!dateValue || (field.type !== 'date' && field.type !== 'fixed_date')) {
+    if (!dateValue || !isDateTimeField(field)) {
       return dateValue;
     }
+    return formatStoredValue(dateValue, field);
+  };
 
-    try {
-      // Parse the stored date (always in YYYY-MM-DD format)
-      const dateParts = dateValue.split('-');
-      if (dateParts.length !== 3) return dateValue;
-
-      const year = parseInt(dateParts[0]);
-      const month = parseInt(dateParts[1]);
-      const day = parseInt(dateParts[2]);
-
-      if (isNaN(year) || isNaN(month) || isNaN(day)) return dateValue;
-
-      // Format according to field's date format
-      const dateFormat = field.dateFormat || 'yyyy-MM-dd';
-      const monthStr = String(month).padStart(2, '0');
-      const dayStr = String(day).padStart(2, '0');
-      const yearStr = String(year);
-
-      switch (dateFormat) {
-        case 'dd/MM/yyyy':
-          return `${dayStr}/${monthStr}/${yearStr}`;
-        case 'MM/dd/yyyy':
-          return `${monthStr}/${dayStr}/${yearStr}`;
-        case 'yyyyMMdd':
-          return `${yearStr}${monthStr}${dayStr}`;
-        case 'dd-MM-yyyy':
-          return `${dayStr}-${monthStr}-${yearStr}`;
-        case 'yyyy.MM.dd':
-          return `${yearStr}.${monthStr}.${dayStr}`;
-        case 'custom':
-          // Handle custom date format
-          if (field.customDateFormat) {
-            let customFormat = field.customDateFormat;
-            customFormat = customFormat.replace(/yyyy/g, yearStr);
-            customFormat = customFormat.replace(/MM/g, monthStr);
-            customFormat = customFormat.replace(/dd/g, dayStr);
-            return customFormat;
-          }
-          return dateValue;
-        default:
-          // Default YYYY-MM-DD format
-          return dateValue;
-      }
-    } catch (error) {
-      console.error('Error formatting date for export:', error);
-      return dateValue;
+  // Checkbox and choice fields store what is shown on screen and export the values configured in the template
+  const formatChoiceForExport = (value: string, field: TemplateField): string => {
+    if (field.type === 'checkbox') {
+      return value === CHECKBOX_CHECKED ? field.checkedExportValue ?? 'Yes' : field.uncheckedExportValue ?? 'No';
     }
+    if (field.type === 'choice' && value) {
+      const optionIndex = (field.options || []).indexOf(value);
+      return field.optionExportValues?.[optionIndex] || value;
+    }
+    return value;
   };
 
-  const exportFileGroupToCSV = async (fileGroup: FileGroup) => {
+  const exportFileGroupToCSV = async (fileGroup: DataFileSummary) => {
     try {
-      if (fileGroup.records.length === 0) {
+      const fileRecords = await loadFileRecords(fileGroup.fileName);
+      if (fileRecords.length === 0) {
         Alert.alert('No Data', 'No records to export for this file');
         return;
       }
 
-      // Get the template from the first record (all records in a file use the same template)
-      const firstRecord = fileGroup.records[0];
-      let template = templates.find(t => t.id === firstRecord.templateId);
-
-      // If template not found, check if record has preserved template info
-      if (!template && firstRecord.preservedTemplateFields) {
-        template = {
-          id: firstRecord.templateId,
-          name: firstRecord.templateName,
-          description: '',
-          fields: firstRecord.preservedTemplateFields,
-          csvExportSettings: firstRecord.preservedCsvSettings,
-          createdAt: new Date()
-        };
+      // Columns and settings come from the template version of the latest record (all records in a file use
+      // the same template); each value is formatted with the fields of its own record's version
+      const firstRecord = fileRecords[0];
+      const template = await resolveRecordTemplateVersion(templates, firstRecord);
+      const recordFields = new Map<number | undefined, TemplateField[]>();
+      for (const record of fileRecords) {
+        if (!recordFields.has(record.templateVersion)) {
+          const recordTemplate = await resolveRecordTemplateVersion(templates, record);
+          recordFields.set(record.templateVersion, recordTemplate?.fields || template?.fields || []);
+        }
       }
 
       if (!template) {
@@ -223,14 +97,7 @@ export default function DataFilesScreen() {
       }
 
       // Get CSV export settings from template
-      const csvSettings = template.csvExportSettings || {
-        includeHeader: false,
-        delimiter: 'comma',
-        customDelimiter: '',
-        fieldPositions: {},
-        fileExtension: 'csv',
-        includeQuotes: true
-      };
+      const csvSettings = template.csvExportSettings || DEFAULT_CSV_EXPORT_SETTINGS;
 
       // Get delimiter symbol
       const getDelimiterSymbol = (delimiter: string, customDelimiter?: string) => {
@@ -271,13 +138,25 @@ export default function DataFilesScreen() {
       }
 
       // Create data rows
-      fileGroup.records.forEach(record => {
-        const row = fieldsWithPosition.map(field => {
+      fileRecords.forEach(record => {
+        // Hidden fields export empty, also in records saved before their conditions were added
+        const fields = recordFields.get(record.templateVersion)!;
+        const visibleFieldIds = getVisibleFieldIds(fields, record.data);
+        const row = fieldsWithPosition.map(column => {
+          const field = fields.find(f => f.id === column.id) || column;
           let value = record.data[field.id] || '';
 
-          // Apply date formatting for date and fixed_date fields
-          if ((field.type === 'date' || field.type === 'fixed_date') && value) {
-            value = formatDateForExport(value, field);
+          if (!visibleFieldIds.has(field.id)) {
+            value = '';
+          } else {
+            // Apply date and time formatting
+            if (isDateTimeField(field) && value) {
+              value = formatDateForExport(value, field);
+            }
+            value = formatChoiceForExport(value, field);
+            if (field.type === 'number' && value) {
+              value = normalizeNumberValue(field, value);
+            }
           }
 
           if (csvSettings.includeQuotes) {
@@ -293,15 +172,28 @@ export default function DataFilesScreen() {
 
       // Use template's file extension
       const fileExtension = csvSettings.fileExtension || 'csv';
-      const fileName = `${fileGroup.fileName}_export.${fileExtension}`;
-      const filePath = FileSystem.documentDirectory + fileName;
-      await FileSystem.writeAsStringAsync(filePath, csvContent);
+      let fileName = `${fileGroup.fileName}_export.${fileExtension}`;
+      let filePath = FileSystem.documentDirectory + fileName;
+      let mimeType = fileExtension === 'csv' ? 'text/csv' : 'text/plain';
+
+      // The export holds photo file names; the photos themselves are zipped together with it. Photo fields come
+      // from each record's own version, so photos of fields removed since are included too.
+      const photoFileNames = fileRecords.flatMap(record => recordFields.get(record.templateVersion)!
+        .filter(field => field.type === 'photo' && record.data[field.id])
+        .map(field => record.data[field.id]));
+      if (photoFileNames.length > 0) {
+        filePath = await writeExportWithPhotos(fileName, csvContent, fileGroup.fileName, photoFileNames);
+        fileName = filePath.slice(filePath.lastIndexOf('/') + 1);
+        mimeType = 'application/zip';
+      } else {
+        await FileSystem.writeAsStringAsync(filePath, csvContent);
+      }
 
       // Share the file
       const isAvailable = await Sharing.isAvailableAsync();
       if (isAvailable) {
         await Sharing.shareAsync(filePath, {
-          mimeType: fileExtension === 'csv' ? 'text/csv' : 'text/plain',
+          mimeType,
           dialogTitle: 'Export File Group Data',
         });
       } else {
@@ -314,32 +206,6 @@ export default function DataFilesScreen() {
     }
   };
 
-  const deleteRecord = (recordId: string) => {
-    Alert.alert(
-      'Delete Record',
-      'Are you sure you want to delete this record?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              const updatedRecords = records.filter(r => r.id !== recordId);
-              await FileSystem.writeAsStringAsync(DATA_RECORDS_FILE, JSON.stringify(updatedRecords));
-              setRecords(updatedRecords);
-            } catch (error) {
-              console.error('Error deleting record:', error);
-              Alert.alert('Error', 'Failed to delete record');
-            }
-          }
-        }
-      ]
-    );
-  };
-
-
-
   const deleteFileGroup = (fileName: string) => {
     setFileToDelete(fileName);
     setShowDeleteModal(true);
@@ -348,9 +214,7 @@ export default function DataFilesScreen() {
   const confirmDeleteFile = async () => {
     if (fileToDelete) {
       try {
-        const updatedRecords = records.filter(r => (r.dataFileName || 'Unnamed File') !== fileToDelete);
-        await FileSystem.writeAsStringAsync(DATA_RECORDS_FILE, JSON.stringify(updatedRecords));
-        setRecords(updatedRecords);
+        await deleteDataFile(fileToDelete);
         setShowDeleteModal(false);
         setFileToDelete(null);
 
@@ -371,23 +235,20 @@ export default function DataFilesScreen() {
     setFileToDelete(null);
   };
 
-  const viewFileDetails = (fileGroup: FileGroup) => {
+  const viewFileDetails = (fileGroup: DataFileSummary) => {
     router.push({
       pathname: '/file-details',
       params: { fileName: fileGroup.fileName }
     });
   };
 
-  const renderFileGroup = ({ item }: { item: FileGroup }) => {
-    // Check if any records in this file have deleted templates
-    const hasDeletedTemplate = item.records.some(record => record.templateDeleted);
-
+  const renderFileGroup = ({ item }: { item: DataFileSummary }) => {
     return (
       <View style={styles.fileGroupContainer}>
         <View style={styles.fileGroupHeader}>
           <View style={styles.fileGroupNameContainer}>
             <Text style={styles.fileGroupName}>📁 {item.fileName}</Text>
-            {hasDeletedTemplate && (
+            {item.hasDeletedTemplate && (
               <Text style={styles.deletedTemplateIndicator}>⚠️ Template deleted</Text>
             )}
           </View>
@@ -404,7 +265,7 @@ export default function DataFilesScreen() {
 
           <TouchableOpacity
             style={styles.deleteFileButton}
-            onPress={() => deleteFileGroup(item.fileName)}
+            onPress={() => requireAdmin(() => deleteFileGroup(item.fileName))}
           >
             <Text style={styles.deleteFileButtonText}>🗑️ Delete</Text>
           </TouchableOpacity>
@@ -456,7 +317,7 @@ export default function DataFilesScreen() {
                 "{fileToDelete}"
               </Text>
               <Text style={styles.deleteModalWarning}>
-                This action cannot be undone. All data records in this file will be permanently deleted.
+                All data records in this file will be moved to the Recycle Bin in Settings.
               </Text>
             </View>
 
@@ -488,6 +349,7 @@ export default function DataFilesScreen() {
           </View>
         </View>
       )}
+      {adminPinModal}
     </ThemedView>
   );
 }
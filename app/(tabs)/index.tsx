@@ -2,41 +2,29 @@ import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, Text, TouchableOpacity, Alert, FlatList, Modal, TextInput, ScrollView } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import * as FileSystem from 'expo-file-system';
 import { router, useFocusEffect } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
-
-interface TemplateField {
-  id: string;
-  name: string;
-  type: 'free_text' | 'date' | 'number' | 'fixed_data' | 'fixed_date' | 'barcode';
-  required: boolean;
-  defaultValue?: string;
-  options?: string[];
-  inputMode?: 'select_only' | 'editable';
-  dateFormat?: string;
-  customDateFormat?: string;
-}
-
-interface CSVExportSettings {
-  includeHeader: boolean;
-  delimiter: 'comma' | 'semicolon' | 'pipe' | 'custom';
-  customDelimiter?: string;
-  fieldPositions: { [fieldId: string]: number };
-  fileExtension: string;
-  includeQuotes: boolean;
-}
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  fields: TemplateField[];
-  csvExportSettings: CSVExportSettings;
-  createdAt: Date;
-  isProtected?: boolean; // Added for protection status
-}
+import { useAdminGuard } from '@/hooks/useAdminGuard';
+import {
+  DEFAULT_CSV_EXPORT_SETTINGS,
+  ensureDefaultTemplate,
+  loadTemplates as loadStoredTemplates,
+  saveTemplates as saveStoredTemplates,
+  trashTemplate,
+} from '@/storage/templates';
+import { CONDITION_OPERATORS, describeConditions, getConditionSourceFields, operatorNeedsValue } from '@/storage/conditions';
+import { TIME_FORMAT_OPTIONS, getFieldPattern, hasDatePart, hasTimePart } from '@/storage/datetime';
+import { DEFAULT_VALUE_TOKENS, canCarryForward, hasDefaultValueTokens } from '@/storage/defaults';
+import { FORMULA_FUNCTIONS, renameFormulaReferences, validateFormula } from '@/storage/formulas';
+import { canBeFilledFromLookup, loadLookupTables } from '@/storage/lookups';
+import { DEFAULT_NUMBER_SETTINGS, MAX_DECIMAL_PLACES, describeNumberSettings, parseNumberInput, resolveNumberSettings } from '@/storage/numbers';
+import { CHARACTER_SETS, CHECKSUM_TYPES, DEFAULT_FREE_TEXT_MAX_LENGTH, describeValidationRules, supportsValidationRules, validateFieldValue, validateRules } from '@/storage/validation';
+import { DEFAULT_SEQUENCE_SETTINGS, formatSequenceValue, resolveSequenceSettings } from '@/storage/sequences';
+import {
+  CHECKBOX_CHECKED, CHECKBOX_UNCHECKED, CSVExportSettings, CharacterSet, ChecksumType, ConditionOperator, FieldCondition,
+  LookupTable, NumberSettings, SequenceSettings, Template, TemplateField, TemplateLookup, ValidationRules
+} from '@/storage/types';
 
 export default function TemplatesScreen() {
   const [templates, setTemplates] = useState<Template[]>([]);
@@ -47,9 +35,11 @@ export default function TemplatesScreen() {
   const [showFieldModal, setShowFieldModal] = useState(false);
   const [currentField, setCurrentField] = useState<Partial<TemplateField>>({});
   const [editingFieldIndex, setEditingFieldIndex] = useState<number | null>(null);
+  // Min/max of number fields as typed, so partial input such as "-" or "2." can be edited
+  const [numberRangeText, setNumberRangeText] = useState({ min: '', max: '' });
   const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
-
-  const TEMPLATES_FILE = FileSystem.documentDirectory + 'templates.json';
+  // Creating, editing, cloning and deleting templates need the admin PIN when one is set
+  const { requireAdmin, adminPinModal } = useAdminGuard();
 
   const fieldTypes = [
     { label: 'Free Text', value: 'free_text' },
@@ -57,7 +47,15 @@ export default function TemplatesScreen() {
     { label: 'Number', value: 'number' },
     { label: 'Fixed Data', value: 'fixed_data' },
     { label: 'Fixed Date', value: 'fixed_date' },
+    { label: 'Time', value: 'time' },
+    { label: 'Date & Time', value: 'datetime' },
+    { label: 'Fixed Date & Time', value: 'fixed_datetime' },
     { label: 'Barcode Scanning', value: 'barcode' },
+    { label: 'Sequence Number', value: 'sequence' },
+    { label: 'Computed (Formula)', value: 'computed' },
+    { label: 'Photo', value: 'photo' },
+    { label: 'Checkbox (Yes/No)', value: 'checkbox' },
+    { label: 'Choice (Single Select)', value: 'choice' },
   ];
 
 
@@ -66,6 +64,15 @@ export default function TemplatesScreen() {
     loadTemplates();
   }, []);
 
+  // Lookup tables are imported under Settings; refresh the list whenever the template editor opens
+  useEffect(() => {
+    if (showTemplateModal) {
+      loadLookupTables()
+        .then(setLookupTables)
+        .catch(error => console.error('Error loading lookup tables:', error));
+    }
+  }, [showTemplateModal]);
+
   // Reload templates when the screen comes into focus
   useFocusEffect(
     React.useCallback(() => {
@@ -75,131 +82,14 @@ export default function TemplatesScreen() {
 
   const loadTemplates = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(TEMPLATES_FILE);
-      let loadedTemplates: Template[] = [];
-
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(TEMPLATES_FILE);
-        try {
-          const parsedData = JSON.parse(content);
-
-          // Ensure we have an array and handle legacy format
-          if (Array.isArray(parsedData)) {
-            loadedTemplates = parsedData.map((template: any) => ({
-              id: template.id,
-              name: template.name,
-              description: template.description || '',
-              fields: template.fields || [],
-              csvExportSettings: template.csvExportSettings || {
-                includeHeader: false,
-                delimiter: 'comma',
-                customDelimiter: '',
-                fieldPositions: {},
-                fileExtension: 'csv',
-                includeQuotes: true
-              },
-              createdAt: new Date(template.createdAt),
-              isProtected: template.isProtected || false // Load protection status
-            }));
-          }
-        } catch (parseError) {
-          console.log('Error parsing templates file:', parseError);
-          loadedTemplates = [];
-        }
-      }
-
-      // Check if the default Stock Count template exists
-      const hasDefaultTemplate = loadedTemplates.some(template => 
-        template.id === "1753791586091" && template.name === "Stock Count"
-      );
-
-      // If default template doesn't exist, add it
-      if (!hasDefaultTemplate) {
-        const defaultStockCountTemplate: Template = {
-          id: "1753791586091", // Provided ID
-          name: "Stock Count",
-          description: "",
-          fields: [
-            {
-              id: "1753791519541",
-              name: "Location",
-              type: "fixed_data",
-              required: true,
-              defaultValue: "",
-              options: [],
-              inputMode: "editable",
-              dateFormat: "YYYY-MM-DD",
-              customDateFormat: ""
-            },
-            {
-              id: "1753791530032",
-              name: "Barcode",
-              type: "barcode",
-              required: true,
-              defaultValue: "",
-              options: [],
-              inputMode: "select_only",
-              dateFormat: "YYYY-MM-DD",
-              customDateFormat: ""
-            },
-            {
-              id: "1753791545448",
-              name: "Date",
-              type: "fixed_date",
-              required: true,
-              defaultValue: "",
-              options: [],
-              inputMode: "select_only",
-              dateFormat: "yyyyMMdd",
-              customDateFormat: ""
-            },
-            {
-              id: "1753791555840",
-              name: "Quantity",
-              type: "number",
-              required: true,
-              defaultValue: "",
-              options: [],
-              inputMode: "select_only",
-              dateFormat: "YYYY-MM-DD",
-              customDateFormat: ""
-            }
-          ],
-          csvExportSettings: {
-            includeHeader: false,
-            delimiter: "comma",
-            customDelimiter: "",
-            fieldPositions: {
-              "1753791519541": 1,
-              "1753791530032": 2,
-              "1753791545448": 4,
-              "1753791555840": 3
-            },
-            fileExtension: "csv",
-            includeQuotes: false
-          },
-          createdAt: new Date("2025-07-29T12:19:46.091Z"),
-          isProtected: true // Mark as protected
-        };
-
-        loadedTemplates.unshift(defaultStockCountTemplate); // Add at beginning
-        await saveTemplates(loadedTemplates);
-        console.log('Default template added.');
-      }
-
+      const loadedTemplates = await ensureDefaultTemplate(await loadStoredTemplates());
       setTemplates(loadedTemplates);
       console.log('Templates loaded successfully:', loadedTemplates.length);
     } catch (error) {
       console.log('Error loading templates:', error);
       setTemplates([]);
-    }
-  };
-
-  const saveTemplates = async (newTemplates: Template[]) => {
-    try {
-      await FileSystem.writeAsStringAsync(TEMPLATES_FILE, JSON.stringify(newTemplates));
-    } catch (error) {
-      console.log('Error saving templates:', error);
+      // Saves are refused while the file is damaged; the last good copy is restored on the next launch
+      Alert.alert('Templates Unavailable', 'Templates could not be read. Restart the app to recover the last good copy before making changes.');
     }
   };
 
@@ -208,14 +98,8 @@ export default function TemplatesScreen() {
     setTemplateFields([]);
     setEditingTemplateId(null);
     setActiveTab('fields');
-    setCsvExportSettings({
-      includeHeader: false,
-      delimiter: 'comma',
-      customDelimiter: '',
-      fieldPositions: {},
-      fileExtension: 'csv',
-      includeQuotes: true
-    });
+    setCsvExportSettings({ ...DEFAULT_CSV_EXPORT_SETTINGS });
+    setTemplateLookup(undefined);
     setShowTemplateModal(true);
   };
 
@@ -228,8 +112,10 @@ export default function TemplatesScreen() {
       options: [],
       inputMode: 'editable',
       dateFormat: 'YYYY-MM-DD',
+      timeFormat: 'HH:mm',
       customDateFormat: ''
     });
+    setNumberRangeText({ min: '', max: '' });
     setEditingFieldIndex(null);
     setShowFieldModal(true);
   };
@@ -242,6 +128,7 @@ export default function TemplatesScreen() {
       inputMode: field.type === 'fixed_data' && !field.inputMode ? 'editable' : field.inputMode
     };
     setCurrentField(fieldToEdit);
+    setNumberRangeText({ min: field.number?.min?.toString() ?? '', max: field.number?.max?.toString() ?? '' });
     setEditingFieldIndex(index);
     setShowFieldModal(true);
   };
@@ -253,20 +140,84 @@ export default function TemplatesScreen() {
       return;
     }
 
+    if (currentField.type === 'computed') {
+      const formulaError = validateFormula(currentField.formula || '', getFormulaFields(editingFieldIndex));
+      if (formulaError) {
+        setValidationError(formulaError);
+        setShowValidationModal(true);
+        return;
+      }
+    }
+
+    if (currentField.type === 'choice' && !(currentField.options || []).some(option => option.trim())) {
+      setValidationError('Please add at least one option.');
+      setShowValidationModal(true);
+      return;
+    }
+
     const newField: TemplateField = {
       id: currentField.id || Date.now().toString(),
       name: currentField.name.trim(),
       type: currentField.type || 'free_text',
       required: true,
       defaultValue: currentField.defaultValue || '',
+      carryForward: currentField.carryForward || undefined,
       options: currentField.options || [],
       inputMode: currentField.type === 'fixed_data' ? (currentField.inputMode || 'editable') : (currentField.inputMode || 'select_only'),
       dateFormat: currentField.dateFormat || 'YYYY-MM-DD',
-      customDateFormat: currentField.customDateFormat || ''
+      timeFormat: currentField.timeFormat || 'HH:mm',
+      customTimeFormat: currentField.customTimeFormat || '',
+      autoStamp: (currentField.type === 'time' || currentField.type === 'datetime') && currentField.autoStamp === true,
+      customDateFormat: currentField.customDateFormat || '',
+      sequence: currentField.type === 'sequence' ? resolveSequenceSettings(currentField.sequence) : undefined,
+      number: currentField.type === 'number' ? resolveNumberSettings(currentField.number) : undefined,
+      visibleWhen: currentField.type !== 'sequence' && currentField.visibleWhen?.length ? currentField.visibleWhen : undefined,
+      requiredWhen: canBeConditionallyRequired(currentField) && currentField.requiredWhen?.length
+        ? currentField.requiredWhen
+        : undefined,
+      lookupColumn: templateLookup && canBeFilledFromLookup({ type: currentField.type || 'free_text' })
+        ? currentField.lookupColumn || undefined
+        : undefined,
+      lookupReadOnly: currentField.lookupColumn ? currentField.lookupReadOnly === true : undefined,
+      validation: currentField.type && supportsValidationRules(currentField.type)
+        ? { ...currentField.validation, pattern: currentField.validation?.pattern?.trim() || undefined }
+        : undefined,
+      formula: currentField.type === 'computed' ? currentField.formula?.trim() : undefined,
+      checkedExportValue: currentField.type === 'checkbox' ? currentField.checkedExportValue || 'Yes' : undefined,
+      uncheckedExportValue: currentField.type === 'checkbox' ? currentField.uncheckedExportValue || 'No' : undefined,
+      optionExportValues: currentField.type === 'choice'
+        ? (currentField.options || []).map((_, index) => currentField.optionExportValues?.[index] || '')
+        : undefined
     };
+    if (newField.type === 'checkbox' && newField.defaultValue !== CHECKBOX_CHECKED) {
+      newField.defaultValue = CHECKBOX_UNCHECKED;
+    }
+    if (!canCarryForward(newField)) {
+      newField.carryForward = undefined;
+    }
+
+    const { min, max } = newField.number || {};
+    const settingsError = min !== undefined && max !== undefined && min > max
+      ? 'The minimum cannot be larger than the maximum.'
+      : (newField.validation && validateRules(newField.validation)) ||
+        // Defaults with tokens only get their value during data entry, where the value is checked on save
+        (!hasDefaultValueTokens(newField.defaultValue || '') &&
+          validateFieldValue({ ...newField, name: 'The default value' }, newField.defaultValue || ''));
+    if (settingsError) {
+      setValidationError(settingsError);
+      setShowValidationModal(true);
+      return;
+    }
 
     let updatedFields = [...templateFields];
     if (editingFieldIndex !== null) {
+      // Keep formulas of other fields pointing at this field when it is renamed
+      const oldName = templateFields[editingFieldIndex].name;
+      if (oldName !== newField.name) {
+        updatedFields = updatedFields.map(field => field.formula
+          ? { ...field, formula: renameFormulaReferences(field.formula, oldName, newField.name) }
+          : field);
+      }
       updatedFields[editingFieldIndex] = newField;
     } else {
       updatedFields.push(newField);
@@ -291,6 +242,172 @@ export default function TemplatesScreen() {
     setEditingFieldIndex(null);
   };
 
+  // Numeric sequence settings are kept undefined while their input is empty and fall back to defaults on save
+  const updateSequenceSetting = (changes: Partial<SequenceSettings>) => {
+    setCurrentField(prev => ({
+      ...prev,
+      sequence: { ...DEFAULT_SEQUENCE_SETTINGS, ...prev.sequence, ...changes }
+    }));
+  };
+
+  const updateNumberSetting = (changes: Partial<NumberSettings>) => {
+    setCurrentField(prev => ({
+      ...prev,
+      number: { ...DEFAULT_NUMBER_SETTINGS, ...prev.number, ...changes }
+    }));
+  };
+
+  // Length limits are kept undefined while their input is empty
+  const updateValidationRule = (changes: Partial<ValidationRules>) => {
+    setCurrentField(prev => ({ ...prev, validation: { ...prev.validation, ...changes } }));
+  };
+
+  const updateNumberRange = (bound: 'min' | 'max', text: string) => {
+    setNumberRangeText(prev => ({ ...prev, [bound]: text }));
+    updateNumberSetting({ [bound]: parseNumberInput(text) ?? undefined });
+  };
+
+  const parseWholeNumber = (text: string): number | undefined => {
+    const value = parseInt(text, 10);
+    return isNaN(value) ? undefined : value;
+  };
+
+  const renderDefaultValueTokens = () => (
+    <Text style={styles.formatHint}>
+      Tokens: {DEFAULT_VALUE_TOKENS.map(({ token, description }) => `${token} ${description}`).join(', ')}
+    </Text>
+  );
+
+  // A formula may use the fields before it; sequence numbers are only assigned when the record is saved
+  const getFormulaFields = (fieldIndex: number | null) =>
+    (fieldIndex !== null ? templateFields.slice(0, fieldIndex) : templateFields)
+      .filter(field => field.type !== 'sequence');
+
+  // Conditions compare the value of an earlier field; see storage/conditions.ts
+  const getConditionSources = () =>
+    getConditionSourceFields(templateFields, editingFieldIndex, { type: currentField.type || 'free_text' });
+
+  // Automatic fields and checkboxes always have a value, so only the other fields can be required conditionally
+  const canBeConditionallyRequired = (field: Partial<TemplateField>) =>
+    field.type !== 'checkbox' && field.type !== 'sequence' && field.type !== 'computed' && !field.autoStamp;
+
+  const addCondition = (key: 'visibleWhen' | 'requiredWhen') => {
+    const sources = getConditionSources();
+    if (sources.length === 0) return;
+    const condition: FieldCondition = { fieldId: sources[sources.length - 1].id, operator: 'equals', value: '' };
+    setCurrentField(prev => ({ ...prev, [key]: [...(prev[key] || []), condition] }));
+  };
+
+  const updateCondition = (key: 'visibleWhen' | 'requiredWhen', index: number, changes: Partial<FieldCondition>) => {
+    setCurrentField(prev => ({
+      ...prev,
+      [key]: (prev[key] || []).map((condition, i) => i === index ? { ...condition, ...changes } : condition)
+    }));
+  };
+
+  const removeCondition = (key: 'visibleWhen' | 'requiredWhen', index: number) => {
+    setCurrentField(prev => ({ ...prev, [key]: (prev[key] || []).filter((_, i) => i !== index) }));
+  };
+
+  const renderConditionValueInput = (key: 'visibleWhen' | 'requiredWhen', index: number, condition: FieldCondition) => {
+    const sourceField = templateFields.find(field => field.id === condition.fieldId);
+    const options = sourceField?.type === 'checkbox'
+      ? [{ label: 'Checked', value: CHECKBOX_CHECKED }, { label: 'Unchecked', value: CHECKBOX_UNCHECKED }]
+      : (sourceField?.options || []).filter(option => option.trim()).map(option => ({ label: option, value: option }));
+
+    // Fields answered from a list offer their options; editable fixed data may also hold typed values
+    if (options.length > 0 && sourceField?.inputMode !== 'editable') {
+      return (
+        <View style={styles.dateFormatPickerContainer}>
+          <Picker
+            selectedValue={condition.value}
+            onValueChange={(value) => updateCondition(key, index, { value })}
+            style={styles.dateFormatPicker}
+          >
+            <Picker.Item label="Select a value" value="" />
+            {options.map(option => (
+              <Picker.Item key={option.value} label={option.label} value={option.value} />
+            ))}
+          </Picker>
+        </View>
+      );
+    }
+    return (
+      <TextInput
+        style={[styles.input, styles.customFormatInput]}
+        placeholder="Value"
+        value={condition.value}
+        onChangeText={(text) => updateCondition(key, index, { value: text })}
+      />
+    );
+  };
+
+  const renderConditionSection = (key: 'visibleWhen' | 'requiredWhen', title: string, hint: string) => {
+    const sources = getConditionSources();
+    return (
+      <View style={styles.dateFormatSection}>
+        <Text style={styles.defaultValueLabel}>{title}</Text>
+        {(currentField[key] || []).map((condition, index) => (
+          <View key={index} style={styles.conditionRow}>
+            <View style={styles.dateFormatPickerContainer}>
+              <Picker
+                selectedValue={condition.fieldId}
+                onValueChange={(value) => updateCondition(key, index, { fieldId: value, value: '' })}
+                style={styles.dateFormatPicker}
+              >
+                {sources.map(source => (
+                  <Picker.Item key={source.id} label={source.name} value={source.id} />
+                ))}
+              </Picker>
+            </View>
+            <View style={styles.dateFormatPickerContainer}>
+              <Picker
+                selectedValue={condition.operator}
+                onValueChange={(value) => updateCondition(key, index, { operator: value as ConditionOperator })}
+                style={styles.dateFormatPicker}
+              >
+                {CONDITION_OPERATORS.map(operator => (
+                  <Picker.Item key={operator.value} label={operator.label} value={operator.value} />
+                ))}
+              </Picker>
+            </View>
+            {operatorNeedsValue(condition.operator) && renderConditionValueInput(key, index, condition)}
+            <TouchableOpacity onPress={() => removeCondition(key, index)}>
+              <Text style={styles.removeConditionText}>Remove condition</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        {sources.length > 0 ? (
+          <TouchableOpacity style={styles.addOptionButton} onPress={() => addCondition(key)}>
+            <Text style={styles.addOptionButtonText}>+ Add Condition</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.formatHint}>Conditions can use the fields added before this one.</Text>
+        )}
+        <Text style={styles.formatHint}>{hint}</Text>
+      </View>
+    );
+  };
+
+  const getLookupTable = () => lookupTables.find(table => table.id === templateLookup?.tableId);
+
+  const selectLookupTable = (tableId: string) => {
+    if (!tableId) {
+      setTemplateLookup(undefined);
+      return;
+    }
+    setTemplateLookup(prev => ({
+      tableId,
+      keyFieldId: prev?.keyFieldId || templateFields.find(field => field.type === 'barcode')?.id || '',
+      descriptionColumn: prev?.tableId === tableId ? prev.descriptionColumn : undefined,
+      rejectUnknownCodes: prev?.rejectUnknownCodes ?? false
+    }));
+  };
+
+  const insertFormulaReference = (fieldName: string) => {
+    setCurrentField(prev => ({ ...prev, formula: `${prev.formula || ''}{${fieldName}}` }));
+  };
+
   const removeField = (index: number) => {
     const fieldToRemove = templateFields[index];
     setSelectedFieldForDelete({ field: fieldToRemove, index });
@@ -322,7 +439,7 @@ export default function TemplatesScreen() {
     setSelectedFieldForDelete(null);
   };
 
-  const saveTemplate = () => {
+  const saveTemplate = async () => {
     if (!newTemplateName.trim()) {
       setValidationError('Please enter a template name.');
       setShowValidationModal(true);
@@ -335,7 +452,37 @@ export default function TemplatesScreen() {
       return;
     }
 
+    // Deleting or reordering fields can leave a formula pointing at a field that is no longer before it
+    for (const [index, field] of templateFields.entries()) {
+      const formulaError = field.type === 'computed' ? validateFormula(field.formula || '', getFormulaFields(index)) : null;
+      if (formulaError) {
+        setValidationError(`Formula of "${field.name}": ${formulaError}`);
+        setShowValidationModal(true);
+        return;
+      }
 
+      // The same goes for conditions
+      const sourceFieldIds = getConditionSourceFields(templateFields, index, field).map(source => source.id);
+      const conditions = [...(field.visibleWhen || []), ...(field.requiredWhen || [])];
+      if (conditions.some(condition => !sourceFieldIds.includes(condition.fieldId))) {
+        setValidationError(`The conditions of "${field.name}" refer to a field that was deleted or is no longer before it.`);
+        setShowValidationModal(true);
+        return;
+      }
+    }
+
+
+
+    if (templateLookup && !templateFields.some(field => field.id === templateLookup.keyFieldId && field.type === 'barcode')) {
+      setValidationError('Please choose the barcode field whose codes are looked up, in the Lookup tab.');
+      setShowValidationModal(true);
+      return;
+    }
+
+    // Without a lookup table there is nothing to fill fields from
+    const savedFields = templateLookup
+      ? templateFields
+      : templateFields.map(field => ({ ...field, lookupColumn: undefined, lookupReadOnly: undefined }));
 
     // Check for duplicate template names (excluding the current template if editing)
     const trimmedName = newTemplateName.trim();
@@ -358,8 +505,9 @@ export default function TemplatesScreen() {
           ? {
               ...template,
               name: newTemplateName.trim(),
-              fields: templateFields,
+              fields: savedFields,
               csvExportSettings: csvExportSettings,
+              lookup: templateLookup,
             }
           : template
       );
@@ -369,15 +517,23 @@ export default function TemplatesScreen() {
         id: Date.now().toString(),
         name: trimmedName,
         description: '',
-        fields: templateFields,
+        fields: savedFields,
         csvExportSettings: csvExportSettings,
-        createdAt: new Date()
+        createdAt: new Date(),
+        lookup: templateLookup
       };
       updatedTemplates = [...templates, newTemplate];
     }
 
+    try {
+      await saveStoredTemplates(updatedTemplates);
+    } catch (error) {
+      // The template modal stays open so nothing that was entered is lost
+      console.error('Error saving templates:', error);
+      Alert.alert('Error', 'Failed to save template');
+      return;
+    }
     setTemplates(updatedTemplates);
-    saveTemplates(updatedTemplates);
 
     // Close the modal first
     setShowTemplateModal(false);
@@ -411,14 +567,8 @@ export default function TemplatesScreen() {
     setTemplateFields([...template.fields]);
     setEditingTemplateId(template.id);
     setActiveTab('fields');
-    setCsvExportSettings(template.csvExportSettings || {
-      includeHeader: false,
-      delimiter: 'comma',
-      customDelimiter: '',
-      fieldPositions: {},
-      fileExtension: 'csv',
-      includeQuotes: true
-    });
+    setCsvExportSettings(template.csvExportSettings || { ...DEFAULT_CSV_EXPORT_SETTINGS });
+    setTemplateLookup(template.lookup);
     setShowTemplateModal(true);
   };
 
@@ -429,13 +579,10 @@ export default function TemplatesScreen() {
   const [selectedTemplateForDelete, setSelectedTemplateForDelete] = useState<Template | null>(null);
   const [showDataFileModal, setShowDataFileModal] = useState(false);
   const [dataFileName, setDataFileName] = useState('');
-  const [activeTab, setActiveTab] = useState<'fields' | 'csv'>('fields');
-  const [csvExportSettings, setCsvExportSettings] = useState<CSVExportSettings>({
-    includeHeader: false,
-    delimiter: 'comma',
-    customDelimiter: '',
-    fieldPositions: {}
-  });
+  const [activeTab, setActiveTab] = useState<'fields' | 'csv' | 'lookup'>('fields');
+  const [templateLookup, setTemplateLookup] = useState<TemplateLookup | undefined>(undefined);
+  const [lookupTables, setLookupTables] = useState<LookupTable[]>([]);
+  const [csvExportSettings, setCsvExportSettings] = useState<CSVExportSettings>({ ...DEFAULT_CSV_EXPORT_SETTINGS });
   const [showValidationModal, setShowValidationModal] = useState(false);
   const [validationError, setValidationError] = useState('');
   const [showCloneModal, setShowCloneModal] = useState(false);
@@ -492,22 +639,40 @@ export default function TemplatesScreen() {
     }
 
     // Create cloned template
+    // Cloned fields get new ids; conditions and the lookup refer to fields by id and follow along
+    const clonedFieldIds: { [fieldId: string]: string } = {};
+    selectedTemplateForClone.fields.forEach(field => {
+      clonedFieldIds[field.id] = `${field.id}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    });
+    const cloneConditions = (conditions?: FieldCondition[]) =>
+      conditions?.map(condition => ({ ...condition, fieldId: clonedFieldIds[condition.fieldId] ?? condition.fieldId }));
+    const sourceLookup = selectedTemplateForClone.lookup;
+
     const clonedTemplate: Template = {
       id: Date.now().toString(),
       name: trimmedName,
       description: selectedTemplateForClone.description,
       fields: selectedTemplateForClone.fields.map(field => ({
         ...field,
-        id: `${field.id}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+        id: clonedFieldIds[field.id],
+        visibleWhen: cloneConditions(field.visibleWhen),
+        requiredWhen: cloneConditions(field.requiredWhen)
       })),
       csvExportSettings: { ...selectedTemplateForClone.csvExportSettings },
       createdAt: new Date(),
-      isProtected: false // Cloned templates are not protected by default
+      isProtected: false, // Cloned templates are not protected by default
+      lookup: sourceLookup && { ...sourceLookup, keyFieldId: clonedFieldIds[sourceLookup.keyFieldId] ?? sourceLookup.keyFieldId }
     };
 
     const updatedTemplates = [...templates, clonedTemplate];
+    try {
+      await saveStoredTemplates(updatedTemplates);
+    } catch (error) {
+      console.error('Error cloning template:', error);
+      Alert.alert('Error', 'Failed to clone template');
+      return;
+    }
     setTemplates(updatedTemplates);
-    await saveTemplates(updatedTemplates);
 
     setShowCloneModal(false);
     setSelectedTemplateForClone(null);
@@ -535,42 +700,8 @@ export default function TemplatesScreen() {
     setShowDeleteTemplateModal(false);
 
     try {
-      // Before deleting template, preserve its field definitions in existing data records
-      const dataRecordsFile = FileSystem.documentDirectory + 'dataRecords.json';
-      const fileExists = await FileSystem.getInfoAsync(dataRecordsFile);
-
-      if (fileExists.exists) {
-        try {
-          const content = await FileSystem.readAsStringAsync(dataRecordsFile);
-          const dataRecords = JSON.parse(content);
-
-          // Update records that use this template to preserve field definitions
-          const updatedRecords = dataRecords.map((record: any) => {
-            if (record.templateId === selectedTemplateForDelete.id) {
-              return {
-                ...record,
-                // Preserve template field definitions for future use
-                preservedTemplateFields: selectedTemplateForDelete.fields,
-                preservedCsvSettings: selectedTemplateForDelete.csvExportSettings,
-                // Mark as orphaned for reference
-                templateDeleted: true,
-                templateDeletedAt: new Date().toISOString()
-              };
-            }
-            return record;
-          });
-
-          // Save updated records with preserved template info
-          await FileSystem.writeAsStringAsync(dataRecordsFile, JSON.stringify(updatedRecords));
-        } catch (error) {
-          console.error('Error preserving template info in data records:', error);
-        }
-      }
-
-      // Remove the template
-      const updatedTemplates = templates.filter(t => t.id !== selectedTemplateForDelete.id);
-      setTemplates(updatedTemplates);
-      await saveTemplates(updatedTemplates);
+      // Moves the template to the recycle bin and preserves its field definitions in existing data records
+      await trashTemplate(selectedTemplateForDelete);
 
       // Reload templates from file system to ensure state consistency
       await loadTemplates();
@@ -629,7 +760,14 @@ export default function TemplatesScreen() {
 
   const removeFixedDataOption = (index: number) => {
     const options = (currentField.options || []).filter((_, i) => i !== index);
-    setCurrentField({ ...currentField, options });
+    const optionExportValues = currentField.optionExportValues?.filter((_, i) => i !== index);
+    setCurrentField({ ...currentField, options, optionExportValues });
+  };
+
+  const updateOptionExportValue = (index: number, value: string) => {
+    const optionExportValues = [...(currentField.optionExportValues || [])];
+    optionExportValues[index] = value;
+    setCurrentField({ ...currentField, optionExportValues });
   };
 
   const updateFieldPosition = (fieldId: string, position: number | null) => {
@@ -702,13 +840,13 @@ export default function TemplatesScreen() {
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.editButton}
-              onPress={() => editTemplate(item)}
+              onPress={() => requireAdmin(() => editTemplate(item))}
             >
               <Text style={styles.editButtonText}>✏️ Edit</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.deleteButton}
-              onPress={() => deleteTemplate(item)}
+              onPress={() => requireAdmin(() => deleteTemplate(item))}
             >
               <Text style={styles.deleteButtonText}>🗑️ Delete</Text>
             </TouchableOpacity>
@@ -716,10 +854,16 @@ export default function TemplatesScreen() {
           <View style={styles.cloneActionRow}>
             <TouchableOpacity
               style={styles.cloneButton}
-              onPress={() => cloneTemplate(item)}
+              onPress={() => requireAdmin(() => cloneTemplate(item))}
             >
               <Text style={styles.cloneButtonText}>📋 Clone</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={() => router.push(`/template-history?templateId=${item.id}`)}
+            >
+              <Text style={styles.historyButtonText}>🕒 History</Text>
+            </TouchableOpacity>
           </View>
         </View>
       </View>
@@ -738,6 +882,40 @@ export default function TemplatesScreen() {
             Format: {item.dateFormat === 'custom' ? item.customDateFormat || 'Custom' : item.dateFormat || 'YYYY-MM-DD'}
           </Text>
         )}
+        {hasTimePart(item.type) && (
+          <Text style={styles.fieldFormat}>
+            Format: {getFieldPattern(item)}{item.autoStamp ? ' (stamped on save)' : ''}
+          </Text>
+        )}
+        {item.type === 'number' && item.number && (
+          <Text style={styles.fieldFormat}>{describeNumberSettings(resolveNumberSettings(item.number))}</Text>
+        )}
+        {item.carryForward && (
+          <Text style={styles.fieldFormat}>Keeps the last value for the next record</Text>
+        )}
+        {item.lookupColumn && (
+          <Text style={styles.fieldFormat}>
+            Filled from lookup: {item.lookupColumn}{item.lookupReadOnly ? ' (read-only)' : ''}
+          </Text>
+        )}
+        {!!item.visibleWhen?.length && (
+          <Text style={styles.fieldFormat}>Shown when: {describeConditions(item.visibleWhen, templateFields)}</Text>
+        )}
+        {!!item.requiredWhen?.length && (
+          <Text style={styles.fieldFormat}>Required when: {describeConditions(item.requiredWhen, templateFields)}</Text>
+        )}
+        {item.validation && describeValidationRules(item.validation) !== '' && (
+          <Text style={styles.fieldFormat}>Rules: {describeValidationRules(item.validation)}</Text>
+        )}
+        {item.type === 'computed' && (
+          <Text style={styles.fieldFormat}>Formula: {item.formula}</Text>
+        )}
+        {item.type === 'sequence' && (
+          <Text style={styles.fieldFormat}>
+            Starts at: {formatSequenceValue(resolveSequenceSettings(item.sequence), resolveSequenceSettings(item.sequence).start)}
+            {resolveSequenceSettings(item.sequence).scope === 'global' ? ' (all data files)' : ' (per data file)'}
+          </Text>
+        )}
       </View>
       <View style={styles.fieldActions}>
         <TouchableOpacity
@@ -765,7 +943,7 @@ export default function TemplatesScreen() {
       <View style={styles.actionContainer}>
         <TouchableOpacity 
           style={styles.templateButton} 
-          onPress={createTemplate}
+          onPress={() => requireAdmin(createTemplate)}
         >
           <Text style={styles.buttonText}>Create Template</Text>
         </TouchableOpacity>
@@ -824,6 +1002,14 @@ export default function TemplatesScreen() {
                     🗂️ File Export Settings
                   </Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.tab, activeTab === 'lookup' && styles.activeTab]}
+                  onPress={() => setActiveTab('lookup')}
+                >
+                  <Text style={[styles.tabText, activeTab === 'lookup' && styles.activeTabText]}>
+                    🔎 Lookup
+                  </Text>
+                </TouchableOpacity>
               </View>
 
               {/* Fields Tab */}
@@ -1032,6 +1218,88 @@ export default function TemplatesScreen() {
                 </View>
               )}
 
+              {/* Lookup Tab */}
+              {activeTab === 'lookup' && (
+                <View style={styles.csvSettingsSection}>
+                  <View style={styles.csvSettingGroup}>
+                    <Text style={styles.csvSettingTitle}>Lookup Table</Text>
+                    <View style={styles.compactPickerContainer}>
+                      <Picker
+                        selectedValue={templateLookup?.tableId || ''}
+                        onValueChange={(value) => selectLookupTable(value)}
+                        style={styles.compactPicker}
+                        itemStyle={styles.pickerItem}
+                      >
+                        <Picker.Item label="No lookup" value="" />
+                        {lookupTables.map(table => (
+                          <Picker.Item key={table.id} label={`${table.name} (${table.rowCount} codes)`} value={table.id} />
+                        ))}
+                      </Picker>
+                    </View>
+                    {templateLookup && !getLookupTable() && (
+                      <Text style={styles.formatHint}>The attached lookup table was deleted; choose another one.</Text>
+                    )}
+                    <Text style={styles.formatHint}>Lookup tables are imported under Settings → Lookup Tables.</Text>
+                  </View>
+
+                  {templateLookup && (
+                    <>
+                      <View style={styles.csvSettingGroup}>
+                        <Text style={styles.csvSettingTitle}>Barcode Field To Look Up</Text>
+                        <View style={styles.compactPickerContainer}>
+                          <Picker
+                            selectedValue={templateLookup.keyFieldId}
+                            onValueChange={(value) => setTemplateLookup({ ...templateLookup, keyFieldId: value })}
+                            style={styles.compactPicker}
+                            itemStyle={styles.pickerItem}
+                          >
+                            <Picker.Item label="Select a barcode field" value="" />
+                            {templateFields.filter(field => field.type === 'barcode').map(field => (
+                              <Picker.Item key={field.id} label={field.name} value={field.id} />
+                            ))}
+                          </Picker>
+                        </View>
+                      </View>
+
+                      <View style={styles.csvSettingGroup}>
+                        <Text style={styles.csvSettingTitle}>Show After Scanning</Text>
+                        <View style={styles.compactPickerContainer}>
+                          <Picker
+                            selectedValue={templateLookup.descriptionColumn || ''}
+                            onValueChange={(value) => setTemplateLookup({ ...templateLookup, descriptionColumn: value || undefined })}
+                            style={styles.compactPicker}
+                            itemStyle={styles.pickerItem}
+                          >
+                            <Picker.Item label="Nothing" value="" />
+                            {(getLookupTable()?.columns || []).map(column => (
+                              <Picker.Item key={column} label={column} value={column} />
+                            ))}
+                          </Picker>
+                        </View>
+                      </View>
+
+                      <View style={styles.csvSettingGroup}>
+                        <Text style={styles.csvSettingTitle}>Unknown Codes</Text>
+                        <View style={styles.compactPickerContainer}>
+                          <Picker
+                            selectedValue={templateLookup.rejectUnknownCodes ? 'reject' : 'allow'}
+                            onValueChange={(value) => setTemplateLookup({ ...templateLookup, rejectUnknownCodes: value === 'reject' })}
+                            style={styles.compactPicker}
+                            itemStyle={styles.pickerItem}
+                          >
+                            <Picker.Item label="Allow, with a warning" value="allow" />
+                            <Picker.Item label="Reject" value="reject" />
+                          </Picker>
+                        </View>
+                        <Text style={styles.formatHint}>
+                          Choose which column fills each field in that field&apos;s settings.
+                        </Text>
+                      </View>
+                    </>
+                  )}
+                </View>
+              )}
+
               <View style={styles.modalButtons}>
                 <TouchableOpacity
                   style={styles.cancelButton}
@@ -1040,14 +1308,8 @@ export default function TemplatesScreen() {
                     setTemplateFields([]);
                     setEditingTemplateId(null);
                     setActiveTab('fields');
-                    setCsvExportSettings({
-                      includeHeader: false,
-                      delimiter: 'comma',
-                      customDelimiter: '',
-                      fieldPositions: {},
-                      fileExtension: 'csv',
-                      includeQuotes: true
-                    });
+                    setCsvExportSettings({ ...DEFAULT_CSV_EXPORT_SETTINGS });
+                    setTemplateLookup(undefined);
                     setShowTemplateModal(false);
                   }}
                 >
@@ -1116,10 +1378,88 @@ export default function TemplatesScreen() {
                     onChangeText={(text) => setCurrentField({ ...currentField, defaultValue: text })}
                     keyboardType={currentField.type === 'number' ? 'numeric' : 'default'}
                   />
+                  {renderDefaultValueTokens()}
                 </View>
               )}
 
-              {(currentField.type === 'date' || currentField.type === 'fixed_date') && (
+              {currentField.type === 'number' && (
+                <View style={styles.dateFormatSection}>
+                  <Text style={styles.defaultValueLabel}>Number Format:</Text>
+                  <View style={styles.dateFormatPickerContainer}>
+                    <Picker
+                      selectedValue={currentField.number?.kind || DEFAULT_NUMBER_SETTINGS.kind}
+                      onValueChange={(value) => updateNumberSetting({ kind: value as NumberSettings['kind'] })}
+                      style={styles.dateFormatPicker}
+                    >
+                      <Picker.Item label="Decimal number" value="decimal" />
+                      <Picker.Item label="Whole number" value="integer" />
+                    </Picker>
+                  </View>
+
+                  <View style={styles.sequenceInputRow}>
+                    {currentField.number?.kind !== 'integer' && (
+                      <View style={styles.sequenceInputColumn}>
+                        <Text style={styles.customFormatLabel}>Decimals:</Text>
+                        <TextInput
+                          style={[styles.input, styles.customFormatInput]}
+                          placeholder="Any"
+                          value={currentField.number?.decimalPlaces !== undefined ? String(currentField.number.decimalPlaces) : ''}
+                          onChangeText={(text) => {
+                            const decimalPlaces = parseWholeNumber(text);
+                            updateNumberSetting({
+                              decimalPlaces: decimalPlaces === undefined ? undefined : Math.min(MAX_DECIMAL_PLACES, decimalPlaces)
+                            });
+                          }}
+                          keyboardType="number-pad"
+                          maxLength={1}
+                        />
+                      </View>
+                    )}
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Minimum:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="None"
+                        value={numberRangeText.min}
+                        onChangeText={(text) => updateNumberRange('min', text)}
+                        keyboardType="numeric"
+                      />
+                    </View>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Maximum:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="None"
+                        value={numberRangeText.max}
+                        onChangeText={(text) => updateNumberRange('max', text)}
+                        keyboardType="numeric"
+                      />
+                    </View>
+                  </View>
+
+                  <Text style={styles.customFormatLabel}>Unit (shown next to the input):</Text>
+                  <TextInput
+                    style={[styles.input, styles.customFormatInput]}
+                    placeholder="e.g., kg, pcs, °C"
+                    value={currentField.number?.unit || ''}
+                    onChangeText={(text) => updateNumberSetting({ unit: text })}
+                    maxLength={10}
+                  />
+
+                  <TouchableOpacity
+                    style={styles.checkboxDefaultRow}
+                    onPress={() => updateNumberSetting({
+                      allowNegative: !(currentField.number?.allowNegative ?? DEFAULT_NUMBER_SETTINGS.allowNegative)
+                    })}
+                  >
+                    <Text style={styles.defaultValueLabel}>
+                      {(currentField.number?.allowNegative ?? DEFAULT_NUMBER_SETTINGS.allowNegative) ? '☑' : '☐'} Allow negative numbers
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {currentField.type && hasDatePart(currentField.type) && (
                 <View style={styles.dateFormatSection}>
                   <Text style={styles.defaultValueLabel}>Date Format:</Text>
                   <View style={styles.dateFormatPickerContainer}>
@@ -1155,22 +1495,343 @@ export default function TemplatesScreen() {
                 </View>
               )}
 
+              {currentField.type && hasTimePart(currentField.type) && (
+                <View style={styles.dateFormatSection}>
+                  <Text style={styles.defaultValueLabel}>Time Format:</Text>
+                  <View style={styles.dateFormatPickerContainer}>
+                    <Picker
+                      selectedValue={currentField.timeFormat || 'HH:mm'}
+                      onValueChange={(value) => setCurrentField({ ...currentField, timeFormat: value })}
+                      style={styles.dateFormatPicker}
+                    >
+                      {TIME_FORMAT_OPTIONS.map(option => (
+                        <Picker.Item key={option.value} label={option.label} value={option.value} />
+                      ))}
+                      <Picker.Item label="Custom Format" value="custom" />
+                    </Picker>
+                  </View>
+
+                  {currentField.timeFormat === 'custom' && (
+                    <View style={styles.customFormatSection}>
+                      <Text style={styles.customFormatLabel}>Custom Time Format:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="e.g., HH.mm, h:mm a"
+                        value={currentField.customTimeFormat || ''}
+                        onChangeText={(text) => setCurrentField({ ...currentField, customTimeFormat: text })}
+                      />
+                      <Text style={styles.formatHint}>
+                        Use: HH (hour 00-23), H (hour 0-23), hh (hour 01-12), h (hour 1-12), mm (minutes), ss (seconds), a (AM/PM)
+                      </Text>
+                    </View>
+                  )}
+
+                  {(currentField.type === 'time' || currentField.type === 'datetime') && (
+                    <TouchableOpacity
+                      style={styles.checkboxDefaultRow}
+                      onPress={() => setCurrentField({ ...currentField, autoStamp: !currentField.autoStamp })}
+                    >
+                      <Text style={styles.defaultValueLabel}>
+                        {currentField.autoStamp ? '☑' : '☐'} Stamp automatically when the record is saved
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              {currentField.type === 'computed' && (
+                <View style={styles.dateFormatSection}>
+                  <Text style={styles.customFormatLabel}>Formula:</Text>
+                  <TextInput
+                    style={[styles.input, styles.customFormatInput]}
+                    placeholder="e.g., {Quantity} * {Pack Size}"
+                    value={currentField.formula || ''}
+                    onChangeText={(text) => setCurrentField({ ...currentField, formula: text })}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    multiline
+                  />
+
+                  {getFormulaFields(editingFieldIndex).length > 0 && (
+                    <View style={styles.formulaFieldsRow}>
+                      {getFormulaFields(editingFieldIndex).map(field => (
+                        <TouchableOpacity
+                          key={field.id}
+                          style={styles.formulaFieldChip}
+                          onPress={() => insertFormulaReference(field.name)}
+                        >
+                          <Text style={styles.formulaFieldChipText}>+ {field.name}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+
+                  <Text style={styles.formatHint}>
+                    Use + - * / for numbers, & to join text and quotes around fixed text. Functions:{' '}
+                    {Object.values(FORMULA_FUNCTIONS).map(definition => definition.usage).join(', ')}.
+                    Dates are YYYY-MM-DD.
+                  </Text>
+                </View>
+              )}
+
+              {currentField.type === 'sequence' && (
+                <View style={styles.dateFormatSection}>
+                  <View style={styles.sequenceInputRow}>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Start:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder={String(DEFAULT_SEQUENCE_SETTINGS.start)}
+                        value={currentField.sequence?.start !== undefined ? String(currentField.sequence.start) : ''}
+                        onChangeText={(text) => updateSequenceSetting({ start: parseWholeNumber(text) })}
+                        keyboardType="numeric"
+                      />
+                    </View>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Step:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder={String(DEFAULT_SEQUENCE_SETTINGS.step)}
+                        value={currentField.sequence?.step !== undefined ? String(currentField.sequence.step) : ''}
+                        onChangeText={(text) => updateSequenceSetting({ step: parseWholeNumber(text) })}
+                        keyboardType="numeric"
+                      />
+                    </View>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Digits:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="0"
+                        value={currentField.sequence?.padLength ? String(currentField.sequence.padLength) : ''}
+                        onChangeText={(text) => updateSequenceSetting({ padLength: parseWholeNumber(text) })}
+                        keyboardType="numeric"
+                        maxLength={2}
+                      />
+                    </View>
+                  </View>
+
+                  <View style={styles.sequenceInputRow}>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Prefix:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="e.g., LN-"
+                        value={currentField.sequence?.prefix || ''}
+                        onChangeText={(text) => updateSequenceSetting({ prefix: text })}
+                      />
+                    </View>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Suffix:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="Optional"
+                        value={currentField.sequence?.suffix || ''}
+                        onChangeText={(text) => updateSequenceSetting({ suffix: text })}
+                      />
+                    </View>
+                  </View>
+
+                  <Text style={styles.customFormatLabel}>Numbering:</Text>
+                  <View style={styles.dateFormatPickerContainer}>
+                    <Picker
+                      selectedValue={currentField.sequence?.scope || DEFAULT_SEQUENCE_SETTINGS.scope}
+                      onValueChange={(value) => updateSequenceSetting({ scope: value as SequenceSettings['scope'] })}
+                      style={styles.dateFormatPicker}
+                    >
+                      <Picker.Item label="Restart in every data file" value="file" />
+                      <Picker.Item label="Continue across all data files" value="global" />
+                    </Picker>
+                  </View>
+
+                  <Text style={styles.formatHint}>
+                    First numbers: {[0, 1, 2].map(index => {
+                      const settings = resolveSequenceSettings(currentField.sequence);
+                      return formatSequenceValue(settings, settings.start + index * settings.step);
+                    }).join(', ')}
+                  </Text>
+                </View>
+              )}
+
               {currentField.type === 'fixed_data' && (
                 <View style={styles.defaultValueSection}>
                   <Text style={styles.defaultValueLabel}>Default Value (Optional):</Text>
                   <TextInput
                     style={[styles.input, styles.defaultValueInput]}
-                    placeholder="Enter default value (max 30 chars)"
+                    placeholder="Enter default value"
                     value={currentField.defaultValue || ''}
                     onChangeText={(text) => setCurrentField({ ...currentField, defaultValue: text })}
-                    maxLength={30}
                   />
+                  {renderDefaultValueTokens()}
                 </View>
               )}
 
-              {currentField.type === 'fixed_data' && (
+              {currentField.type && canCarryForward({ type: currentField.type, autoStamp: currentField.autoStamp }) && (
+                <View style={styles.defaultValueSection}>
+                  <TouchableOpacity
+                    style={styles.checkboxDefaultRow}
+                    onPress={() => setCurrentField({ ...currentField, carryForward: !currentField.carryForward })}
+                  >
+                    <Text style={styles.defaultValueLabel}>
+                      {currentField.carryForward ? '☑' : '☐'} Keep the last value for the next record
+                    </Text>
+                  </TouchableOpacity>
+                  <Text style={styles.formatHint}>
+                    After each save the field keeps what was entered instead of going back to its default.
+                  </Text>
+                </View>
+              )}
+
+              {templateLookup && canBeFilledFromLookup({ type: currentField.type || 'free_text' }) && (
+                <View style={styles.dateFormatSection}>
+                  <Text style={styles.defaultValueLabel}>Fill From Lookup Column (Optional):</Text>
+                  <View style={styles.dateFormatPickerContainer}>
+                    <Picker
+                      selectedValue={currentField.lookupColumn || ''}
+                      onValueChange={(value) => setCurrentField({ ...currentField, lookupColumn: value || undefined })}
+                      style={styles.dateFormatPicker}
+                    >
+                      <Picker.Item label="Not filled" value="" />
+                      {(getLookupTable()?.columns || []).map(column => (
+                        <Picker.Item key={column} label={column} value={column} />
+                      ))}
+                    </Picker>
+                  </View>
+                  {!!currentField.lookupColumn && (
+                    <TouchableOpacity
+                      style={styles.checkboxDefaultRow}
+                      onPress={() => setCurrentField({ ...currentField, lookupReadOnly: !currentField.lookupReadOnly })}
+                    >
+                      <Text style={styles.defaultValueLabel}>
+                        {currentField.lookupReadOnly ? '☑' : '☐'} Read-only (cannot be changed after scanning)
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              {currentField.type && supportsValidationRules(currentField.type) && (
+                <View style={styles.dateFormatSection}>
+                  <Text style={styles.defaultValueLabel}>Validation Rules (Optional):</Text>
+                  <View style={styles.sequenceInputRow}>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Min length:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="None"
+                        value={currentField.validation?.minLength !== undefined ? String(currentField.validation.minLength) : ''}
+                        onChangeText={(text) => updateValidationRule({ minLength: parseWholeNumber(text) })}
+                        keyboardType="number-pad"
+                        maxLength={4}
+                      />
+                    </View>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Max length:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder={currentField.type === 'free_text' ? String(DEFAULT_FREE_TEXT_MAX_LENGTH) : 'None'}
+                        value={currentField.validation?.maxLength !== undefined ? String(currentField.validation.maxLength) : ''}
+                        onChangeText={(text) => updateValidationRule({ maxLength: parseWholeNumber(text) })}
+                        keyboardType="number-pad"
+                        maxLength={4}
+                      />
+                    </View>
+                  </View>
+
+                  <Text style={styles.customFormatLabel}>Allowed characters:</Text>
+                  <View style={styles.dateFormatPickerContainer}>
+                    <Picker
+                      selectedValue={currentField.validation?.characterSet || 'any'}
+                      onValueChange={(value) => updateValidationRule({ characterSet: value as CharacterSet })}
+                      style={styles.dateFormatPicker}
+                    >
+                      {Object.entries(CHARACTER_SETS).map(([value, characterSet]) => (
+                        <Picker.Item key={value} label={characterSet.label} value={value} />
+                      ))}
+                    </Picker>
+                  </View>
+
+                  <Text style={styles.customFormatLabel}>Barcode check digit:</Text>
+                  <View style={styles.dateFormatPickerContainer}>
+                    <Picker
+                      selectedValue={currentField.validation?.checksum || ''}
+                      onValueChange={(value) => updateValidationRule({ checksum: (value || undefined) as ChecksumType | undefined })}
+                      style={styles.dateFormatPicker}
+                    >
+                      <Picker.Item label="Not checked" value="" />
+                      {Object.entries(CHECKSUM_TYPES).map(([value, checksumType]) => (
+                        <Picker.Item key={value} label={`${checksumType.label} (${checksumType.length} digits)`} value={value} />
+                      ))}
+                    </Picker>
+                  </View>
+
+                  <Text style={styles.customFormatLabel}>Pattern (regular expression):</Text>
+                  <TextInput
+                    style={[styles.input, styles.customFormatInput]}
+                    placeholder="e.g., [A-Z]{2}-\d{4}"
+                    value={currentField.validation?.pattern || ''}
+                    onChangeText={(text) => updateValidationRule({ pattern: text })}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  {!!currentField.validation?.pattern && (
+                    <TextInput
+                      style={[styles.input, styles.customFormatInput]}
+                      placeholder="Message when the pattern does not match"
+                      value={currentField.validation?.patternMessage || ''}
+                      onChangeText={(text) => updateValidationRule({ patternMessage: text })}
+                    />
+                  )}
+                  <Text style={styles.formatHint}>The whole value must match the pattern.</Text>
+                </View>
+              )}
+
+              {currentField.type === 'checkbox' && (
+                <View style={styles.defaultValueSection}>
+                  <TouchableOpacity
+                    style={styles.checkboxDefaultRow}
+                    onPress={() => setCurrentField({
+                      ...currentField,
+                      defaultValue: currentField.defaultValue === CHECKBOX_CHECKED ? CHECKBOX_UNCHECKED : CHECKBOX_CHECKED
+                    })}
+                  >
+                    <Text style={styles.defaultValueLabel}>
+                      {currentField.defaultValue === CHECKBOX_CHECKED ? '☑' : '☐'} Checked by default
+                    </Text>
+                  </TouchableOpacity>
+                  <View style={styles.sequenceInputRow}>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Export when checked:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="Yes"
+                        value={currentField.checkedExportValue || ''}
+                        onChangeText={(text) => setCurrentField({ ...currentField, checkedExportValue: text })}
+                        maxLength={30}
+                      />
+                    </View>
+                    <View style={styles.sequenceInputColumn}>
+                      <Text style={styles.customFormatLabel}>Export when unchecked:</Text>
+                      <TextInput
+                        style={[styles.input, styles.customFormatInput]}
+                        placeholder="No"
+                        value={currentField.uncheckedExportValue || ''}
+                        onChangeText={(text) => setCurrentField({ ...currentField, uncheckedExportValue: text })}
+                        maxLength={30}
+                      />
+                    </View>
+                  </View>
+                  <Text style={styles.formatHint}>For example Y/N or 1/0, as your import expects.</Text>
+                </View>
+              )}
+
+              {(currentField.type === 'fixed_data' || currentField.type === 'choice') && (
                 <View style={styles.fixedDataSection}>
                   <Text style={styles.label}>Options:</Text>
+                  {currentField.type === 'choice' && (
+                    <Text style={styles.formatHint}>
+                      Optionally give each option a different value to export, e.g. Good → G.
+                    </Text>
+                  )}
                   {(currentField.options || []).map((option, index) => (
                     <View key={index} style={styles.optionRow}>
                       <TextInput
@@ -1180,6 +1841,15 @@ export default function TemplatesScreen() {
                         onChangeText={(text) => updateFixedDataOption(index, text)}
                         maxLength={30}
                       />
+                      {currentField.type === 'choice' && (
+                        <TextInput
+                          style={[styles.input, styles.optionInput]}
+                          placeholder="Export as"
+                          value={currentField.optionExportValues?.[index] || ''}
+                          onChangeText={(text) => updateOptionExportValue(index, text)}
+                          maxLength={30}
+                        />
+                      )}
                       <TouchableOpacity
                         style={styles.removeOptionButton}
                         onPress={() => removeFixedDataOption(index)}
@@ -1222,6 +1892,18 @@ export default function TemplatesScreen() {
                 </View>
               )}
 
+              {currentField.type && currentField.type !== 'sequence' && renderConditionSection(
+                'visibleWhen',
+                'Show Only When (Optional):',
+                'All conditions must be met. Hidden fields are saved and exported empty.'
+              )}
+
+              {canBeConditionallyRequired(currentField) && renderConditionSection(
+                'requiredWhen',
+                'Required Only When (Optional):',
+                'Without conditions the field is always required.'
+              )}
+
               <View style={styles.modalButtons}>
                 <TouchableOpacity
                   style={styles.cancelButton}
@@ -1299,7 +1981,7 @@ export default function TemplatesScreen() {
               </Text>
 
               <Text style={styles.deleteTemplateWarningText}>
-                Are you sure you want to delete this template? This action cannot be undone.
+                Are you sure you want to delete this template? It can be restored from the Recycle Bin in Settings.
               </Text>
             </View>
 
@@ -1508,6 +2190,7 @@ export default function TemplatesScreen() {
         </View>
       </Modal>
 
+      {adminPinModal}
     </ThemedView>
   );
 }
@@ -1639,6 +2322,7 @@ const styles = StyleSheet.create({
   cloneActionRow: {
     flexDirection: 'row',
     justifyContent: 'center',
+    gap: 4,
   },
   emptyState: {
     flex: 1,
@@ -1719,6 +2403,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
+  historyButton: {
+    backgroundColor: '#718096',
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+    boxShadow: '0px 1px 2px rgba(113, 128, 150, 0.2)',
+    elevation: 2,
+    flex: 1,
+  },
+  historyButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   deleteButton: {
     flex: 1,
     backgroundColor: '#fc8181',
@@ -2653,6 +3352,48 @@ const styles = StyleSheet.create({
     height: 60,
     width: '100%',
   },
+  checkboxDefaultRow: {
+    marginBottom: 4,
+  },
+  conditionRow: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 6,
+    padding: 8,
+    marginBottom: 8,
+  },
+  removeConditionText: {
+    color: '#e53e3e',
+    fontSize: 13,
+    fontWeight: 'bold',
+    textAlign: 'right',
+  },
+  formulaFieldsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  formulaFieldChip: {
+    backgroundColor: '#ebf8ff',
+    borderWidth: 1,
+    borderColor: '#90cdf4',
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  formulaFieldChipText: {
+    fontSize: 12,
+    color: '#2b6cb0',
+    fontWeight: '600',
+  },
+  sequenceInputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  sequenceInputColumn: {
+    flex: 1,
+  },
   cloneTemplateModalContent: {
     backgroundColor: 'white',
     padding: 30,
@@ -1,47 +1,50 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Modal, Alert } from 'react-native';
-import { useFocusEffect } from 'expo-router';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Modal, Alert, TextInput } from 'react-native';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import { router, useFocusEffect } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
+import { useAdminGuard } from '@/hooks/useAdminGuard';
 import * as FileSystem from 'expo-file-system';
 import * as DocumentPicker from 'expo-document-picker';
 import * as Sharing from 'expo-sharing';
 import Constants from 'expo-constants';
+import { loadTemplates as loadStoredTemplates, saveTemplates as saveStoredTemplates } from '@/storage/templates';
+import {
+  ImportResolution,
+  PackManifest,
+  TemplateFile,
+  TemplateImportItem,
+  TemplatePackOptions,
+  applyTemplateImport,
+  createTemplateFile,
+  createTemplatePack,
+  getBundledLookupTables,
+  importBundledLookupTables,
+  describeImportChanges,
+  describeImportConflict,
+  getOverwriteProblem,
+  readTemplateFile
+} from '@/storage/templateFiles';
+import { Template } from '@/storage/types';
+import { loadTrashItems } from '@/storage/trash';
+import {
+  QrScanProgress,
+  addScannedQrCode,
+  decodeTemplateQrCodes,
+  getScannedQrCodeCount,
+  isQrScanComplete
+} from '@/storage/qrCodes';
+import { ADMIN_PIN_PATTERN, isAdminLocked, isAdminPinSet, lockAdmin, removeAdminPin, setAdminPin } from '@/storage/admin';
+import { subscribe } from '@/storage/events';
+import { loadSettings, updateSettings } from '@/storage/settings';
+import { BackupArchive, RestoreMode, readBackupArchive, restoreBackupArchive, writeBackupArchive } from '@/storage/backup';
 
-interface TemplateField {
-  id: string;
-  label: string;
-  type: 'free_text' | 'date' | 'number' | 'fixed_data' | 'fixed_date' | 'barcode';
-  required: boolean;
-  value?: string;
-  maxLength?: number;
-  placeholder?: string;
-  validation?: {
-    min?: number;
-    max?: number;
-    pattern?: string;
-  };
-}
-
-interface CSVExportSettings {
-  includeHeader: boolean;
-  delimiter: 'comma' | 'semicolon' | 'pipe' | 'custom';
-  customDelimiter?: string;
-  fieldPositions: { [fieldId: string]: number };
-  fileExtension: string;
-  includeQuotes: boolean;
-}
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  fields: TemplateField[];
-  csvExportSettings: CSVExportSettings;
-  createdAt: Date;
-  isDefault?: boolean;
-  isProtected?: boolean;
-}
+const DEFAULT_PACK_OPTIONS: TemplatePackOptions = {
+  manifest: { name: '', author: '', version: '1.0', description: '' },
+  includeLookupTables: true,
+  includeExportProfiles: true
+};
 
 export default function SettingsScreen() {
   const appVersion = Constants.expoConfig?.version || "1.0.16"; // This matches the version in app.json
@@ -49,55 +52,95 @@ export default function SettingsScreen() {
   const [showErrorModal, setShowErrorModal] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const [showExportSelectionModal, setShowExportSelectionModal] = useState(false);
-  const [selectedTemplateForExport, setSelectedTemplateForExport] = useState<string>('');
+  const [selectedTemplatesForExport, setSelectedTemplatesForExport] = useState<string[]>([]);
+  // Used when several templates are exported together as a pack
+  const [packOptions, setPackOptions] = useState<TemplatePackOptions>(DEFAULT_PACK_OPTIONS);
   const [showExportSuccessModal, setShowExportSuccessModal] = useState(false);
   const [exportedTemplateName, setExportedTemplateName] = useState('');
   const [showImportSuccessModal, setShowImportSuccessModal] = useState(false);
   const [importedTemplateCount, setImportedTemplateCount] = useState<number>(0);
-
-  const TEMPLATES_FILE = FileSystem.documentDirectory + 'templates.json';
+  // Templates read from a file, awaiting a decision per template
+  const [importFile, setImportFile] = useState<TemplateFile | null>(null);
+  const [showQrScanner, setShowQrScanner] = useState(false);
+  const [qrScanProgress, setQrScanProgress] = useState<QrScanProgress | null>(null);
+  // The scanner reports the code in view many times a second; only the first complete series is decoded
+  const isDecodingQrRef = useRef(false);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const [trashItemCount, setTrashItemCount] = useState<number>(0);
+  const [operatorName, setOperatorName] = useState('');
+  const [adminPinSet, setAdminPinSet] = useState(false);
+  const [adminLocked, setAdminLocked] = useState(false);
+  const [showAdminPinSetup, setShowAdminPinSetup] = useState(false);
+  const [newAdminPin, setNewAdminPin] = useState('');
+  const [confirmAdminPin, setConfirmAdminPin] = useState('');
+  // Importing templates and restoring backups replace templates, so they need the admin PIN when one is set
+  const { requireAdmin, adminPinModal } = useAdminGuard();
 
   useEffect(() => {
     loadTemplates();
+    loadTrashItemCount();
+    loadOperatorName();
+    loadAdminStatus();
+    return subscribe(change => {
+      if (change === 'settings') {
+        loadAdminStatus();
+      }
+    });
   }, []);
 
   // Reload templates when the screen comes into focus
   useFocusEffect(
     React.useCallback(() => {
       loadTemplates();
+      loadTrashItemCount();
+      loadOperatorName();
+      loadAdminStatus();
     }, [])
   );
 
-  const loadTemplates = async (forceReload = false) => {
+  const loadOperatorName = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(TEMPLATES_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(TEMPLATES_FILE);
-        const loadedTemplates = JSON.parse(content);
-        const templatesWithDates = loadedTemplates.map((template: any) => ({
-          ...template,
-          createdAt: new Date(template.createdAt),
-          isDefault: template.isDefault || false,
-          isProtected: template.isProtected || false
-        }));
-        setTemplates(templatesWithDates);
-        console.log('Settings - Loaded templates:', templatesWithDates.length);
-        console.log('Settings - Template names:', templatesWithDates.map(t => t.name));
-      } else {
-        console.log('Templates file does not exist');
-        setTemplates([]);
-      }
+      setOperatorName((await loadSettings()).operatorName);
     } catch (error) {
-      console.log('Error loading templates:', error);
-      setTemplates([]);
+      console.log('Error loading settings:', error);
+    }
+  };
+
+  const saveOperatorName = async () => {
+    try {
+      await updateSettings({ operatorName: operatorName.trim() });
+    } catch (error) {
+      console.log('Error saving operator name:', error);
+      showError('Failed to save the operator name');
+    }
+  };
+
+  const loadAdminStatus = async () => {
+    try {
+      setAdminPinSet(await isAdminPinSet());
+      setAdminLocked(await isAdminLocked());
+    } catch (error) {
+      console.log('Error loading admin status:', error);
+    }
+  };
+
+  const loadTrashItemCount = async () => {
+    try {
+      setTrashItemCount((await loadTrashItems()).length);
+    } catch (error) {
+      console.log('Error loading recycle bin:', error);
     }
   };
 
-  const saveTemplates = async (templates: Template[]) => {
+  const loadTemplates = async () => {
     try {
-      await FileSystem.writeAsStringAsync(TEMPLATES_FILE, JSON.stringify(templates));
+      const loadedTemplates = await loadStoredTemplates();
+      setTemplates(loadedTemplates);
+      console.log('Settings - Loaded templates:', loadedTemplates.length);
+      console.log('Settings - Template names:', loadedTemplates.map(t => t.name));
     } catch (error) {
-      console.log('Error saving templates:', error);
+      console.log('Error loading templates:', error);
+      setTemplates([]);
     }
   };
 
@@ -110,45 +153,60 @@ export default function SettingsScreen() {
       showError('No templates available to export');
       return;
     }
-    setSelectedTemplateForExport('');
+    setSelectedTemplatesForExport([]);
+    setPackOptions(DEFAULT_PACK_OPTIONS);
     setShowExportSelectionModal(true);
   };
 
-  const selectTemplate = (templateId: string) => {
-    setSelectedTemplateForExport(templateId);
+  const toggleTemplateForExport = (templateId: string) => {
+    setSelectedTemplatesForExport(prev => prev.includes(templateId)
+      ? prev.filter(id => id !== templateId)
+      : [...prev, templateId]);
   };
 
-  const exportSelectedTemplate = async () => {
+  const toggleAllTemplatesForExport = () => {
+    setSelectedTemplatesForExport(prev => prev.length === templates.length ? [] : templates.map(t => t.id));
+  };
+
+  const updatePackManifest = (key: keyof PackManifest, value: string) => {
+    setPackOptions(prev => ({ ...prev, manifest: { ...prev.manifest, [key]: value } }));
+  };
+
+  const isPackExport = selectedTemplatesForExport.length > 1;
+
+  const exportSelectedTemplates = async () => {
     try {
-      if (!selectedTemplateForExport) {
+      // Keep the order of the template list
+      const selectedTemplates = templates.filter(t => selectedTemplatesForExport.includes(t.id));
+      if (selectedTemplates.length === 0) {
         showError('Please select a template to export');
         return;
       }
-
-      const selectedTemplate = templates.find(t => t.id === selectedTemplateForExport);
-      if (!selectedTemplate) {
-        showError('Template not found');
+      if (isPackExport && !packOptions.manifest.name.trim()) {
+        showError('Please enter a name for the template pack');
         return;
       }
 
-      const exportData = {
-        templates: [selectedTemplate],
-        exportDate: new Date().toISOString(),
-        appVersion: appVersion
-      };
-
-      const fileName = `barcode2file_template_${selectedTemplate.name.replace(/[^a-zA-Z0-9_-]/g, '_')}_${new Date().toISOString().split('T')[0]}.json`;
+      const date = new Date().toISOString().split('T')[0];
+      const exportName = isPackExport ? packOptions.manifest.name.trim() : selectedTemplates[0].name;
+      const fileName = `barcode2file_${isPackExport ? 'pack' : 'template'}_${exportName.replace(/[^a-zA-Z0-9_-]/g, '_')}_${date}.json`;
       const fileUri = FileSystem.documentDirectory + fileName;
 
-      await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(exportData, null, 2));
+      const content = isPackExport
+        ? await createTemplatePack(selectedTemplates, appVersion, {
+            ...packOptions,
+            manifest: { ...packOptions.manifest, name: exportName }
+          })
+        : createTemplateFile(selectedTemplates, appVersion);
+      await FileSystem.writeAsStringAsync(fileUri, content);
 
       setShowExportSelectionModal(false);
-      setExportedTemplateName(selectedTemplate.name);
+      setExportedTemplateName(exportName);
       setShowExportSuccessModal(true);
 
       if (await Sharing.isAvailableAsync()) {
         await Sharing.shareAsync(fileUri, {
-          dialogTitle: 'Export Template',
+          dialogTitle: isPackExport ? 'Export Template Pack' : 'Export Template',
           mimeType: 'application/json'
         });
       }
@@ -160,85 +218,308 @@ export default function SettingsScreen() {
 
   const cancelExportSelection = () => {
     setShowExportSelectionModal(false);
-    setSelectedTemplateForExport('');
+    setSelectedTemplatesForExport([]);
   };
 
   const importTemplates = async () => {
     try {
-      // Force reload templates to ensure we have the latest state
-      await loadTemplates(true);
-
       const result = await DocumentPicker.getDocumentAsync({
         type: 'application/json',
         copyToCacheDirectory: true
       });
+      if (result.canceled || !result.assets || result.assets.length === 0) {
+        return;
+      }
 
-      if (!result.canceled && result.assets && result.assets.length > 0) {
-        const fileUri = result.assets[0].uri;
-        const content = await FileSystem.readAsStringAsync(fileUri);
+      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
+      let file: TemplateFile;
+      try {
+        // Match against the templates on the device right now, not the possibly stale list on screen
+        file = readTemplateFile(content, await loadStoredTemplates());
+      } catch (error: any) {
+        showError(error.message);
+        return;
+      }
+      setImportFile(file);
+    } catch (error) {
+      showError('Failed to import templates. Please try again.');
+      console.log('Import error:', error);
+    }
+  };
 
-        try {
-          const importData = JSON.parse(content);
+  // QR codes carry a single template; packs are shared as files
+  const showTemplateQrCode = () => {
+    if (selectedTemplatesForExport.length !== 1) {
+      showError('Please select one template to show as a QR code');
+      return;
+    }
+    setShowExportSelectionModal(false);
+    router.push(`/template-qr?templateId=${selectedTemplatesForExport[0]}`);
+  };
 
-          if (!importData.templates || !Array.isArray(importData.templates)) {
-            showError('Invalid template file format');
-            return;
-          }
+  const openQrScanner = () => {
+    setQrScanProgress(null);
+    isDecodingQrRef.current = false;
+    setShowQrScanner(true);
+  };
 
-          const importedTemplates = importData.templates.map((template: any) => ({
-            ...template,
-            createdAt: new Date(template.createdAt)
-          }));
-
-          // Get the most current templates from file system for accurate duplicate checking
-          const fileExists = await FileSystem.getInfoAsync(TEMPLATES_FILE);
-          let currentTemplates: Template[] = [];
-
-          if (fileExists.exists) {
-            const content = await FileSystem.readAsStringAsync(TEMPLATES_FILE);
-            const loadedTemplates = JSON.parse(content);
-            currentTemplates = loadedTemplates.map((template: any) => ({
-              ...template,
-              createdAt: new Date(template.createdAt)
-            }));
-          }
+  // Collect the codes of a series in any order; once all are in, review the template like an imported file
+  const handleQrCodeScanned = async ({ data }: BarcodeScanningResult) => {
+    if (isDecodingQrRef.current) return;
 
-          // Check for duplicate names against current file system data
-          const duplicateNames: string[] = [];
-          const existingNames = currentTemplates.map(t => t.name.toLowerCase());
+    let progress: QrScanProgress;
+    try {
+      progress = addScannedQrCode(qrScanProgress, data);
+    } catch {
+      return;
+    }
+    if (progress === qrScanProgress) return;
+    setQrScanProgress(progress);
+    if (!isQrScanComplete(progress)) return;
 
-          importedTemplates.forEach((template: Template) => {
-            if (existingNames.includes(template.name.toLowerCase())) {
-              duplicateNames.push(template.name);
-            }
-          });
+    isDecodingQrRef.current = true;
+    setShowQrScanner(false);
+    try {
+      const content = await decodeTemplateQrCodes(progress);
+      setImportFile(readTemplateFile(content, await loadStoredTemplates()));
+    } catch (error: any) {
+      showError(error.message || 'Failed to read the QR codes. Please try again.');
+      console.log('QR import error:', error);
+    }
+  };
 
-          if (duplicateNames.length > 0) {
-            showError(`Templates with the following names already exist and will be skipped:\n${duplicateNames.join(', ')}`);
-            return;
-          }
+  const setImportResolution = (itemIndex: number, resolution: ImportResolution) => {
+    setImportFile(prev => prev && {
+      ...prev,
+      items: prev.items.map((item, index) => index === itemIndex ? { ...item, resolution } : item)
+    });
+  };
+
+  const confirmImport = async () => {
+    if (!importFile) return;
+    try {
+      const currentTemplates = await loadStoredTemplates();
+      const { importedCount } = applyTemplateImport(importFile, currentTemplates);
+      if (importedCount === 0) {
+        setImportFile(null);
+        return;
+      }
+
+      // A failed save keeps the review open so the import can be tried again, and puts back the lookup
+      // tables the bundled ones replaced
+      const { tableIds, rollback } = await importBundledLookupTables(importFile);
+      try {
+        await saveStoredTemplates(applyTemplateImport(importFile, currentTemplates, tableIds).templates);
+      } catch (error) {
+        await rollback();
+        throw error;
+      }
+      setImportFile(null);
+      await loadTemplates();
+      setImportedTemplateCount(importedCount);
+      setShowImportSuccessModal(true);
+    } catch (error) {
+      // Shown as an alert because the review modal is still open
+      console.log('Import error:', error);
+      Alert.alert('Import Failed', 'The templates could not be saved. Please try again.');
+    }
+  };
+
+  const renderImportItem = (item: TemplateImportItem, index: number) => {
+    const conflict = item.idConflict ?? item.nameConflict;
+    const overwriteProblem = getOverwriteProblem(item);
+    const resolutions: { value: ImportResolution; label: string }[] = conflict
+      ? [
+          { value: 'skip', label: 'Skip' },
+          { value: 'overwrite', label: 'Overwrite' },
+          { value: 'copy', label: 'Import as Copy' }
+        ]
+      : [
+          { value: 'import', label: 'Import' },
+          { value: 'skip', label: 'Skip' }
+        ];
+    const changes = conflict ? describeImportChanges(item) : [];
+
+    return (
+      <View key={index} style={styles.importItem}>
+        <Text style={styles.templateSelectionName}>{item.name}</Text>
+        {item.template && (
+          <Text style={styles.templateSelectionFields}>{item.template.fields.length} field(s)</Text>
+        )}
+
+        {item.errors.length > 0 ? (
+          <>
+            <Text style={styles.importErrorText}>Cannot be imported:</Text>
+            {item.errors.map((error, errorIndex) => (
+              <Text key={errorIndex} style={styles.importErrorText}>• {error}</Text>
+            ))}
+          </>
+        ) : (
+          <>
+            {conflict && <Text style={styles.importConflictText}>{describeImportConflict(item)}</Text>}
+            <View style={styles.resolutionRow}>
+              {resolutions.map(resolution => {
+                const isDisabled = resolution.value === 'overwrite' && overwriteProblem !== null;
+                return (
+                  <TouchableOpacity
+                    key={resolution.value}
+                    style={[
+                      styles.resolutionButton,
+                      item.resolution === resolution.value && styles.selectedResolutionButton,
+                      isDisabled && styles.disabledButton
+                    ]}
+                    onPress={() => setImportResolution(index, resolution.value)}
+                    disabled={isDisabled}
+                  >
+                    <Text style={[
+                      styles.resolutionButtonText,
+                      item.resolution === resolution.value && styles.selectedResolutionButtonText
+                    ]}>
+                      {resolution.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {overwriteProblem && <Text style={styles.importDiffText}>{overwriteProblem}</Text>}
+            {conflict && (
+              <>
+                <Text style={styles.importDiffTitle}>Differences from the template on this device:</Text>
+                {changes.length > 0 ? (
+                  changes.map((change, changeIndex) => (
+                    <Text key={changeIndex} style={styles.importDiffText}>• {change}</Text>
+                  ))
+                ) : (
+                  <Text style={styles.importDiffText}>Same fields and settings</Text>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </View>
+    );
+  };
 
-          // Import templates using current file system data
-          const updatedTemplates = [...currentTemplates, ...importedTemplates];
-          setTemplates(updatedTemplates);
-          await saveTemplates(updatedTemplates);
+  const importCount = importFile
+    ? importFile.items.filter(item => item.template && item.resolution !== 'skip').length
+    : 0;
+  const bundledLookupTables = importFile ? getBundledLookupTables(importFile) : [];
 
-          // Reload templates from file system to ensure state consistency
-          await loadTemplates();
+  const createFullBackup = async () => {
+    try {
+      const backupUri = await writeBackupArchive(FileSystem.documentDirectory!, appVersion);
 
-          // Update state for the new import success modal
-          setImportedTemplateCount(importedTemplates.length);
-          setShowImportSuccessModal(true);
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(backupUri, {
+          dialogTitle: 'Share Full Backup',
+          mimeType: 'application/json'
+        });
+      } else {
+        Alert.alert('Backup Complete', `Backup saved as ${backupUri.split('/').pop()}`);
+      }
+    } catch (error) {
+      showError('Failed to create backup. Please try again.');
+      console.log('Backup error:', error);
+    }
+  };
+
+  const openAdminPinSetup = () => {
+    setNewAdminPin('');
+    setConfirmAdminPin('');
+    setShowAdminPinSetup(true);
+  };
+
+  const saveAdminPin = async () => {
+    if (!ADMIN_PIN_PATTERN.test(newAdminPin)) {
+      Alert.alert('Invalid PIN', 'The PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (newAdminPin !== confirmAdminPin) {
+      Alert.alert('PINs Do Not Match', 'Please enter the same PIN twice.');
+      return;
+    }
+    try {
+      await setAdminPin(newAdminPin);
+      setShowAdminPinSetup(false);
+      Alert.alert('Admin PIN Set', 'Template management and deleting data files now need this PIN.');
+    } catch (error: any) {
+      showError(error.message || 'Failed to set the admin PIN');
+    }
+  };
 
-          // The original Alert.alert is removed as per the new design pattern
-          // Alert.alert('Success', `Successfully imported ${importedTemplates.length} template(s)`);
-        } catch (parseError) {
-          showError('Invalid JSON file format');
+  const confirmRemoveAdminPin = () => {
+    Alert.alert(
+      'Remove Admin PIN',
+      'Everyone using this device will be able to manage templates and delete data files.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeAdminPin();
+            } catch (error) {
+              console.log('Error removing admin PIN:', error);
+              showError('Failed to remove the admin PIN');
+            }
+          }
         }
+      ]
+    );
+  };
+
+  const restoreFromBackup = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/json',
+        copyToCacheDirectory: true
+      });
+      if (result.canceled || !result.assets || result.assets.length === 0) {
+        return;
+      }
+
+      let archive: BackupArchive;
+      try {
+        archive = await readBackupArchive(result.assets[0].uri);
+      } catch (error: any) {
+        showError(error.message);
+        return;
       }
+
+      Alert.alert(
+        'Restore Backup',
+        `Backup from ${new Date(archive.createdAt).toLocaleString()} with ${archive.templates.length} template(s) and ${archive.records.length} record(s).\n\n` +
+          'Replace moves the current data to the Recycle Bin and restores the backup in its place. ' +
+          'Merge only adds templates and records that are not on this device yet.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Merge', onPress: () => applyBackup(archive, 'merge') },
+          { text: 'Replace', style: 'destructive', onPress: () => applyBackup(archive, 'replace') }
+        ]
+      );
     } catch (error) {
-      showError('Failed to import templates. Please try again.');
-      console.log('Import error:', error);
+      showError('Failed to restore backup. Please try again.');
+      console.log('Restore error:', error);
+    }
+  };
+
+  const applyBackup = async (archive: BackupArchive, mode: RestoreMode) => {
+    try {
+      const summary = await restoreBackupArchive(archive, mode);
+      await loadTemplates();
+      await loadTrashItemCount();
+
+      Alert.alert(
+        'Restore Complete',
+        `Templates added: ${summary.templatesAdded}` +
+          (summary.templatesSkipped > 0 ? ` (${summary.templatesSkipped} already on this device)` : '') +
+          `\nRecords added: ${summary.recordsAdded}` +
+          (summary.recordsSkipped > 0 ? ` (${summary.recordsSkipped} already on this device)` : '')
+      );
+    } catch (error) {
+      showError('Failed to restore backup. Please try again.');
+      console.log('Restore error:', error);
     }
   };
 
@@ -296,12 +577,112 @@ export default function SettingsScreen() {
             <Text style={styles.actionButtonText}>📤 Export Templates</Text>
           </TouchableOpacity>
 
-          <TouchableOpacity style={styles.actionButton} onPress={importTemplates}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => requireAdmin(importTemplates)}>
             <Text style={styles.actionButtonText}>📥 Import Templates</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => requireAdmin(openQrScanner)}>
+            <Text style={styles.actionButtonText}>📷 Scan Template QR Code</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/lookup-tables')}>
+            <Text style={styles.actionButtonText}>🔎 Lookup Tables</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Data Entry Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Data Entry</Text>
+          <Text style={styles.settingLabel}>Operator Name</Text>
+          <TextInput
+            style={[styles.packInput, styles.operatorInput]}
+            value={operatorName}
+            onChangeText={setOperatorName}
+            onEndEditing={saveOperatorName}
+            placeholder="Name of the person capturing data"
+          />
+          <Text style={styles.settingHint}>
+            Filled in for {'{operator}'} in field default values, e.g. to record who captured each record.
+          </Text>
+        </View>
+
+        {/* Admin Mode Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Admin Mode</Text>
+          <View style={styles.settingItem}>
+            <Text style={styles.settingLabel}>Admin PIN</Text>
+            <Text style={styles.settingValue}>
+              {!adminPinSet ? 'Not set' : adminLocked ? '🔒 Locked' : '🔓 Unlocked'}
+            </Text>
+          </View>
+          <Text style={styles.settingHint}>
+            With a PIN set, creating, editing, cloning, deleting and importing templates and deleting data files need
+            the PIN. Everyone can still capture data with the existing templates.
+          </Text>
+
+          {!adminPinSet ? (
+            <TouchableOpacity style={styles.actionButton} onPress={openAdminPinSetup}>
+              <Text style={styles.actionButtonText}>🔐 Set Admin PIN</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              {adminLocked ? (
+                <TouchableOpacity style={styles.actionButton} onPress={() => requireAdmin(() => {})}>
+                  <Text style={styles.actionButtonText}>🔓 Unlock Admin Mode</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.actionButton} onPress={lockAdmin}>
+                  <Text style={styles.actionButtonText}>🔒 Lock Admin Mode</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.actionButton} onPress={() => requireAdmin(openAdminPinSetup)}>
+                <Text style={styles.actionButtonText}>🔑 Change Admin PIN</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => requireAdmin(confirmRemoveAdminPin)}>
+                <Text style={styles.actionButtonText}>🚫 Remove Admin PIN</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {/* Backup & Restore Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Backup & Restore</Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={createFullBackup}>
+            <Text style={styles.actionButtonText}>💾 Create Full Backup</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => requireAdmin(restoreFromBackup)}>
+            <Text style={styles.actionButtonText}>♻️ Restore From Backup</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/backups')}>
+            <Text style={styles.actionButtonText}>🕒 Automatic Snapshots</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Data Integrity Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Data Integrity</Text>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/data-check')}>
+            <Text style={styles.actionButtonText}>🩺 Check Data</Text>
+          </TouchableOpacity>
         </View>
 
+        {/* Recycle Bin Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Recycle Bin</Text>
+          <View style={styles.settingItem}>
+            <Text style={styles.settingLabel}>Deleted Items</Text>
+            <Text style={styles.settingValue}>{trashItemCount}</Text>
+          </View>
 
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/recycle-bin')}>
+            <Text style={styles.actionButtonText}>🗑️ Open Recycle Bin</Text>
+          </TouchableOpacity>
+        </View>
       </ScrollView>
 
       {/* Error Modal */}
@@ -332,7 +713,7 @@ export default function SettingsScreen() {
       >
         <View style={styles.modalOverlay}>
           <View style={styles.exportSelectionModalContent}>
-            <Text style={styles.exportSelectionModalTitle}>📤 Select Template to Export</Text>
+            <Text style={styles.exportSelectionModalTitle}>📤 Select Templates to Export</Text>
 
             <ScrollView style={styles.templateSelectionList} showsVerticalScrollIndicator={false}>
               {templates.length === 0 ? (
@@ -341,38 +722,94 @@ export default function SettingsScreen() {
                   <Text style={styles.noTemplatesSubtext}>Create templates first to export them</Text>
                 </View>
               ) : (
-                templates.map((template) => (
+                <>
+                  <TouchableOpacity style={styles.selectAllButton} onPress={toggleAllTemplatesForExport}>
+                    <Text style={styles.selectAllButtonText}>
+                      {selectedTemplatesForExport.length === templates.length ? '☑' : '☐'} Select All
+                    </Text>
+                  </TouchableOpacity>
+                  {templates.map((template) => {
+                    const isSelected = selectedTemplatesForExport.includes(template.id);
+                    return (
+                      <TouchableOpacity
+                        key={template.id}
+                        style={[
+                          styles.templateSelectionItem,
+                          isSelected && styles.selectedTemplateItem
+                        ]}
+                        onPress={() => toggleTemplateForExport(template.id)}
+                      >
+                        <View style={styles.templateSelectionContent}>
+                          <Text style={styles.templateSelectionCheckbox}>
+                            {isSelected ? '☑' : '☐'}
+                          </Text>
+                          <View style={styles.templateSelectionInfo}>
+                            <Text style={[
+                              styles.templateSelectionName,
+                              isSelected && styles.selectedTemplateName
+                            ]}>
+                              {template.name}
+                            </Text>
+                            {template.description && (
+                              <Text style={styles.templateSelectionDescription}>
+                                {template.description}
+                              </Text>
+                            )}
+                            <Text style={styles.templateSelectionFields}>
+                              {template.fields.length} field(s)
+                            </Text>
+                          </View>
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </>
+              )}
+
+              {isPackExport && (
+                <View style={styles.packOptions}>
+                  <Text style={styles.packOptionsTitle}>📦 Template Pack</Text>
+                  <TextInput
+                    style={styles.packInput}
+                    value={packOptions.manifest.name}
+                    onChangeText={(text) => updatePackManifest('name', text)}
+                    placeholder="Pack name, e.g., Warehouse Templates"
+                  />
+                  <TextInput
+                    style={styles.packInput}
+                    value={packOptions.manifest.author}
+                    onChangeText={(text) => updatePackManifest('author', text)}
+                    placeholder="Author (optional)"
+                  />
+                  <TextInput
+                    style={styles.packInput}
+                    value={packOptions.manifest.version}
+                    onChangeText={(text) => updatePackManifest('version', text)}
+                    placeholder="Version, e.g., 1.0"
+                  />
+                  <TextInput
+                    style={styles.packInput}
+                    value={packOptions.manifest.description}
+                    onChangeText={(text) => updatePackManifest('description', text)}
+                    placeholder="Description (optional)"
+                  />
                   <TouchableOpacity
-                    key={template.id}
-                    style={[
-                      styles.templateSelectionItem,
-                      selectedTemplateForExport === template.id && styles.selectedTemplateItem
-                    ]}
-                    onPress={() => selectTemplate(template.id)}
+                    style={styles.packOptionRow}
+                    onPress={() => setPackOptions(prev => ({ ...prev, includeLookupTables: !prev.includeLookupTables }))}
                   >
-                    <View style={styles.templateSelectionContent}>
-                      <Text style={styles.templateSelectionCheckbox}>
-                        {selectedTemplateForExport === template.id ? '🔘' : '⚪'}
-                      </Text>
-                      <View style={styles.templateSelectionInfo}>
-                        <Text style={[
-                          styles.templateSelectionName,
-                          selectedTemplateForExport === template.id && styles.selectedTemplateName
-                        ]}>
-                          {template.name}
-                        </Text>
-                        {template.description && (
-                          <Text style={styles.templateSelectionDescription}>
-                            {template.description}
-                          </Text>
-                        )}
-                        <Text style={styles.templateSelectionFields}>
-                          {template.fields.length} field(s)
-                        </Text>
-                      </View>
-                    </View>
+                    <Text style={styles.packOptionText}>
+                      {packOptions.includeLookupTables ? '☑' : '☐'} Include the lookup lists the templates use
+                    </Text>
                   </TouchableOpacity>
-                ))
+                  <TouchableOpacity
+                    style={styles.packOptionRow}
+                    onPress={() => setPackOptions(prev => ({ ...prev, includeExportProfiles: !prev.includeExportProfiles }))}
+                  >
+                    <Text style={styles.packOptionText}>
+                      {packOptions.includeExportProfiles ? '☑' : '☐'} Include export settings
+                    </Text>
+                  </TouchableOpacity>
+                </View>
               )}
             </ScrollView>
 
@@ -386,16 +823,31 @@ export default function SettingsScreen() {
               <TouchableOpacity
                 style={[
                   styles.exportSelectionConfirmButton,
-                  !selectedTemplateForExport && styles.disabledButton
+                  selectedTemplatesForExport.length !== 1 && styles.disabledButton
                 ]}
-                onPress={exportSelectedTemplate}
-                disabled={!selectedTemplateForExport}
+                onPress={showTemplateQrCode}
+                disabled={selectedTemplatesForExport.length !== 1}
               >
                 <Text style={[
                   styles.exportSelectionConfirmButtonText,
-                  !selectedTemplateForExport && styles.disabledButtonText
+                  selectedTemplatesForExport.length !== 1 && styles.disabledButtonText
                 ]}>
-                  Export Template
+                  QR Code
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.exportSelectionConfirmButton,
+                  selectedTemplatesForExport.length === 0 && styles.disabledButton
+                ]}
+                onPress={exportSelectedTemplates}
+                disabled={selectedTemplatesForExport.length === 0}
+              >
+                <Text style={[
+                  styles.exportSelectionConfirmButtonText,
+                  selectedTemplatesForExport.length === 0 && styles.disabledButtonText
+                ]}>
+                  {isPackExport ? 'Export Pack' : 'Export Template'}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -410,7 +862,7 @@ export default function SettingsScreen() {
             <Text style={styles.exportSuccessModalTitle}>✅ Export Successful</Text>
             <View style={styles.exportSuccessModalInfo}>
               <Text style={styles.exportSuccessModalMessage}>
-                Template has been successfully exported
+                {isPackExport ? 'Template pack' : 'Template'} has been successfully exported
               </Text>
               <Text style={styles.exportSuccessTemplateText}>
                 "{exportedTemplateName}"
@@ -426,6 +878,100 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* Template QR Scanner Modal */}
+      <Modal visible={showQrScanner} transparent animationType="fade">
+        <View style={styles.cameraContainer}>
+          {cameraPermission?.granted ? (
+            <>
+              <CameraView
+                style={styles.camera}
+                onBarcodeScanned={handleQrCodeScanned}
+                barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+              />
+              <View style={styles.cameraOverlay}>
+                <Text style={styles.cameraText}>
+                  {qrScanProgress
+                    ? `Scanned ${getScannedQrCodeCount(qrScanProgress)} of ${qrScanProgress.count} code(s)`
+                    : 'Scan the template QR code shown on the other device'}
+                </Text>
+                <TouchableOpacity style={styles.errorModalButton} onPress={() => setShowQrScanner(false)}>
+                  <Text style={styles.errorModalButtonText}>Close</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <View style={styles.cameraOverlay}>
+              <Text style={styles.cameraText}>Camera permission required</Text>
+              <TouchableOpacity style={styles.errorModalButton} onPress={requestCameraPermission}>
+                <Text style={styles.errorModalButtonText}>Grant Permission</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.qrCloseButton} onPress={() => setShowQrScanner(false)}>
+                <Text style={styles.errorModalButtonText}>Close</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </Modal>
+
+      {/* Import Review Modal */}
+      <Modal visible={importFile !== null} transparent animationType="slide">
+        <View style={styles.modalOverlay}>
+          <View style={styles.exportSelectionModalContent}>
+            <Text style={styles.exportSelectionModalTitle}>📥 Review Import</Text>
+
+            <ScrollView style={styles.templateSelectionList} showsVerticalScrollIndicator={false}>
+              {importFile?.manifest && (
+                <View style={styles.packManifest}>
+                  <Text style={styles.templateSelectionName}>📦 {importFile.manifest.name}</Text>
+                  {(importFile.manifest.version || importFile.manifest.author) && (
+                    <Text style={styles.templateSelectionDescription}>
+                      {[
+                        importFile.manifest.version && `Version ${importFile.manifest.version}`,
+                        importFile.manifest.author && `by ${importFile.manifest.author}`
+                      ].filter(Boolean).join(' ')}
+                    </Text>
+                  )}
+                  {!!importFile.manifest.description && (
+                    <Text style={styles.templateSelectionDescription}>{importFile.manifest.description}</Text>
+                  )}
+                  <Text style={styles.templateSelectionFields}>
+                    {importFile.items.length} template(s)
+                    {importFile.includesExportProfiles ? '' : ' · without export settings, overwritten templates keep theirs'}
+                  </Text>
+                  {bundledLookupTables.map(table => (
+                    <Text key={table.id} style={styles.importDiffText}>
+                      🔎 Lookup list &quot;{table.name}&quot; ({table.rows.length} codes) replaces the list with the same name
+                    </Text>
+                  ))}
+                </View>
+              )}
+              {importFile?.items.map(renderImportItem)}
+            </ScrollView>
+
+            <View style={styles.exportSelectionModalButtons}>
+              <TouchableOpacity
+                style={styles.exportSelectionCancelButton}
+                onPress={() => setImportFile(null)}
+              >
+                <Text style={styles.exportSelectionCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.exportSelectionConfirmButton, importCount === 0 && styles.disabledButton]}
+                onPress={confirmImport}
+                disabled={importCount === 0}
+              >
+                <Text style={[
+                  styles.exportSelectionConfirmButtonText,
+                  importCount === 0 && styles.disabledButtonText
+                ]}>
+                  Import {importCount} Template(s)
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Import Success Modal */}
       <Modal visible={showImportSuccessModal} transparent animationType="fade">
         <View style={styles.modalOverlay}>
@@ -445,6 +991,48 @@ export default function SettingsScreen() {
           </ThemedView>
         </View>
       </Modal>
+
+      {/* Admin PIN Setup Modal */}
+      <Modal visible={showAdminPinSetup} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.exportSelectionModalContent}>
+            <Text style={styles.exportSelectionModalTitle}>🔐 {adminPinSet ? 'Change' : 'Set'} Admin PIN</Text>
+            <View style={styles.packOptions}>
+              <TextInput
+                style={styles.packInput}
+                value={newAdminPin}
+                onChangeText={(text) => setNewAdminPin(text.replace(/\D/g, ''))}
+                placeholder="New PIN (4-8 digits)"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+              />
+              <TextInput
+                style={styles.packInput}
+                value={confirmAdminPin}
+                onChangeText={(text) => setConfirmAdminPin(text.replace(/\D/g, ''))}
+                placeholder="Repeat PIN"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+              />
+            </View>
+            <View style={styles.exportSelectionModalButtons}>
+              <TouchableOpacity
+                style={styles.exportSelectionCancelButton}
+                onPress={() => setShowAdminPinSetup(false)}
+              >
+                <Text style={styles.exportSelectionCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.exportSelectionConfirmButton} onPress={saveAdminPin}>
+                <Text style={styles.exportSelectionConfirmButtonText}>Save PIN</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {adminPinModal}
     </ThemedView>
   );
 }
@@ -519,6 +1107,15 @@ const styles = StyleSheet.create({
     color: '#2d3748',
     fontWeight: '600',
   },
+  operatorInput: {
+    marginTop: 8,
+  },
+  settingHint: {
+    fontSize: 13,
+    color: '#718096',
+    lineHeight: 18,
+    marginTop: 8,
+  },
   actionButton: {
     backgroundColor: '#4299e1',
     paddingVertical: 12,
@@ -671,6 +1268,131 @@ const styles = StyleSheet.create({
     color: '#a0aec0',
     fontStyle: 'italic',
   },
+  cameraContainer: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraOverlay: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    padding: 20,
+    alignItems: 'center',
+    gap: 12,
+  },
+  cameraText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  qrCloseButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  selectAllButton: {
+    paddingVertical: 8,
+    marginBottom: 6,
+  },
+  selectAllButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2b6cb0',
+  },
+  packOptions: {
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    paddingTop: 12,
+    marginTop: 4,
+    marginBottom: 20,
+    gap: 8,
+  },
+  packOptionsTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2d3748',
+  },
+  packInput: {
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+  },
+  packOptionRow: {
+    paddingVertical: 4,
+  },
+  packOptionText: {
+    fontSize: 14,
+    color: '#4a5568',
+  },
+  packManifest: {
+    borderWidth: 1,
+    borderColor: '#4299e1',
+    borderRadius: 8,
+    marginBottom: 10,
+    padding: 12,
+    backgroundColor: '#f0f8ff',
+  },
+  importItem: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    marginBottom: 10,
+    padding: 12,
+    backgroundColor: 'white',
+  },
+  importErrorText: {
+    fontSize: 13,
+    color: '#e53e3e',
+    marginTop: 4,
+  },
+  importConflictText: {
+    fontSize: 13,
+    color: '#c05621',
+    marginTop: 6,
+  },
+  resolutionRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 8,
+  },
+  resolutionButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    borderRadius: 6,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  selectedResolutionButton: {
+    borderColor: '#4299e1',
+    backgroundColor: '#4299e1',
+  },
+  resolutionButtonText: {
+    fontSize: 12,
+    color: '#4a5568',
+    fontWeight: '600',
+  },
+  selectedResolutionButtonText: {
+    color: 'white',
+  },
+  importDiffTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginTop: 8,
+  },
+  importDiffText: {
+    fontSize: 12,
+    color: '#4a5568',
+    lineHeight: 16,
+    marginTop: 2,
+  },
   exportSelectionModalButtons: {
     flexDirection: 'row',
     padding: 20,
@@ -3,20 +3,53 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
 import SplashScreen from '@/components/SplashScreen';
+import { formatMigrationReport, runMigrations } from '@/storage/migrations';
+import { formatRecoveryReport, recoverStorage } from '@/storage/recovery';
+import { createSnapshot } from '@/storage/snapshots';
+import { purgeExpiredTrash } from '@/storage/trash';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [showSplash, setShowSplash] = useState(true);
+  const [migrationsDone, setMigrationsDone] = useState(false);
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
-  if (!loaded) {
+  // Recover damaged data, upgrade it to the current schema and purge expired recycle bin items
+  // while the splash screen is showing, then take the launch snapshot
+  useEffect(() => {
+    recoverStorage()
+      .then(recoveryReports => {
+        if (recoveryReports.length > 0) {
+          Alert.alert('Data Recovered', formatRecoveryReport(recoveryReports));
+        }
+        return runMigrations();
+      })
+      .then(reports => {
+        if (reports.length > 0) {
+          Alert.alert('Data Upgraded', formatMigrationReport(reports));
+        }
+        return purgeExpiredTrash();
+      })
+      .then(() => {
+        // Written in the background so the app opens without waiting for it
+        createSnapshot().catch(error => console.error('Error taking launch snapshot:', error));
+      })
+      .catch(error => {
+        console.error('Error migrating data:', error);
+        Alert.alert('Data Upgrade Failed', `Stored data could not be upgraded: ${error.message}`);
+      })
+      .finally(() => setMigrationsDone(true));
+  }, []);
+
+  if (!loaded || (!migrationsDone && !showSplash)) {
     return null;
   }
 
@@ -36,6 +69,12 @@ export default function RootLayout() {
             presentation: 'card'
           }} 
         />
+        <Stack.Screen name="recycle-bin" options={{ headerShown: false }} />
+        <Stack.Screen name="backups" options={{ headerShown: false }} />
+        <Stack.Screen name="data-check" options={{ headerShown: false }} />
+        <Stack.Screen name="lookup-tables" options={{ headerShown: false }} />
+        <Stack.Screen name="template-history" options={{ headerShown: false }} />
+        <Stack.Screen name="template-qr" options={{ headerShown: false }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" hidden={true} />
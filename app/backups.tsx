@@ -0,0 +1,328 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, FlatList, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { useAdminGuard } from '@/hooks/useAdminGuard';
+import { RestoreMode, readBackupArchive, restoreBackupArchive } from '@/storage/backup';
+import { Snapshot, createSnapshot, listSnapshots } from '@/storage/snapshots';
+import {
+  AUTO_BACKUP_INTERVAL_OPTIONS,
+  AUTO_BACKUP_KEEP_OPTIONS,
+  AppSettings,
+  DEFAULT_APP_SETTINGS,
+  loadSettings,
+  updateSettings
+} from '@/storage/settings';
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function BackupsScreen() {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const [isWorking, setIsWorking] = useState(false);
+  // Restoring replaces templates and settings, including the admin PIN
+  const { requireAdmin, adminPinModal } = useAdminGuard();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [loadedSnapshots, loadedSettings] = await Promise.all([listSnapshots(), loadSettings()]);
+      setSnapshots(loadedSnapshots);
+      setSettings(loadedSettings);
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+    }
+  };
+
+  const changeSetting = async (changes: Partial<AppSettings>) => {
+    try {
+      setSettings(await updateSettings(changes));
+    } catch (error) {
+      console.error('Error saving backup settings:', error);
+      Alert.alert('Error', 'Failed to save backup settings');
+    }
+  };
+
+  const takeSnapshot = async () => {
+    setIsWorking(true);
+    try {
+      await createSnapshot();
+      await loadData();
+    } catch (error) {
+      console.error('Error taking snapshot:', error);
+      Alert.alert('Error', 'Failed to take snapshot');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmRestore = (snapshot: Snapshot) => {
+    Alert.alert(
+      'Restore Snapshot',
+      `Snapshot from ${snapshot.createdAt.toLocaleString()} with ${snapshot.recordCount} record(s).\n\n` +
+        'Replace moves the current data to the Recycle Bin and restores the snapshot in its place. ' +
+        'Merge only adds templates and records that are not on this device anymore.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => restoreSnapshot(snapshot, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => restoreSnapshot(snapshot, 'replace') }
+      ]
+    );
+  };
+
+  const restoreSnapshot = async (snapshot: Snapshot, mode: RestoreMode) => {
+    setIsWorking(true);
+    try {
+      const summary = await restoreBackupArchive(await readBackupArchive(snapshot.uri), mode);
+      await loadData();
+      Alert.alert(
+        'Restore Complete',
+        `Templates added: ${summary.templatesAdded}\nRecords added: ${summary.recordsAdded}`
+      );
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      Alert.alert('Error', 'Failed to restore snapshot');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderSnapshot = ({ item }: { item: Snapshot }) => (
+    <View style={styles.snapshotContainer}>
+      <View style={styles.snapshotInfo}>
+        <Text style={styles.snapshotDate}>
+          🕒 {item.createdAt.toLocaleDateString()} {item.createdAt.toLocaleTimeString()}
+        </Text>
+        <Text style={styles.snapshotDetails}>
+          {item.recordCount} record(s) · {formatFileSize(item.size)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.restoreButton, isWorking && styles.disabledButton]}
+        onPress={() => requireAdmin(() => confirmRestore(item))}
+        disabled={isWorking}
+      >
+        <Text style={styles.restoreButtonText}>↩️ Restore</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Backups</ThemedText>
+      </View>
+
+      <View style={styles.optionsContainer}>
+        <Text style={styles.optionsLabel}>Snapshot after every</Text>
+        <View style={styles.optionsRow}>
+          {AUTO_BACKUP_INTERVAL_OPTIONS.map(count => (
+            <TouchableOpacity
+              key={count}
+              style={[styles.option, settings.autoBackupInterval === count && styles.selectedOption]}
+              onPress={() => changeSetting({ autoBackupInterval: count })}
+            >
+              <Text style={[styles.optionText, settings.autoBackupInterval === count && styles.selectedOptionText]}>
+                {count} records
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.optionsLabel}>Keep the last</Text>
+        <View style={styles.optionsRow}>
+          {AUTO_BACKUP_KEEP_OPTIONS.map(count => (
+            <TouchableOpacity
+              key={count}
+              style={[styles.option, settings.autoBackupKeepCount === count && styles.selectedOption]}
+              onPress={() => changeSetting({ autoBackupKeepCount: count })}
+            >
+              <Text style={[styles.optionText, settings.autoBackupKeepCount === count && styles.selectedOptionText]}>
+                {count} snapshots
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.snapshotNowButton, isWorking && styles.disabledButton]}
+        onPress={takeSnapshot}
+        disabled={isWorking}
+      >
+        <Text style={styles.snapshotNowButtonText}>📸 Take Snapshot Now</Text>
+      </TouchableOpacity>
+
+      <FlatList
+        data={snapshots}
+        renderItem={renderSnapshot}
+        keyExtractor={(item) => item.fileName}
+        style={styles.snapshotsList}
+        showsVerticalScrollIndicator={false}
+        refreshing={false}
+        onRefresh={loadData}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No snapshots yet. One is taken every time the app starts.</Text>
+          </View>
+        }
+      />
+
+      {adminPinModal}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: 50,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  backButton: {
+    marginRight: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4299e1',
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#2d3748',
+    marginRight: 60,
+  },
+  optionsContainer: {
+    backgroundColor: '#e8f4f8',
+    padding: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#bee3f8',
+  },
+  optionsLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 6,
+    textAlign: 'center',
+  },
+  optionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    backgroundColor: '#ffffff',
+  },
+  selectedOption: {
+    borderColor: '#4299e1',
+    backgroundColor: '#4299e1',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#4a5568',
+    fontWeight: '600',
+  },
+  selectedOptionText: {
+    color: 'white',
+  },
+  snapshotNowButton: {
+    backgroundColor: '#4299e1',
+    paddingVertical: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  snapshotNowButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  snapshotsList: {
+    flex: 1,
+    padding: 12,
+  },
+  snapshotContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    boxShadow: '0px 1px 2px rgba(0, 0, 0, 0.05)',
+  },
+  snapshotInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  snapshotDate: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 2,
+  },
+  snapshotDetails: {
+    fontSize: 12,
+    color: '#4a5568',
+  },
+  restoreButton: {
+    backgroundColor: '#48bb78',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  restoreButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#718096',
+    textAlign: 'center',
+  },
+});
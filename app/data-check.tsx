@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { IntegrityReport, checkDataIntegrity, groupIssues, repairDataIntegrity } from '@/storage/integrity';
+import { createSnapshot } from '@/storage/snapshots';
+
+export default function DataCheckScreen() {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    runCheck();
+  }, []);
+
+  const runCheck = async () => {
+    setIsWorking(true);
+    try {
+      setReport(await checkDataIntegrity());
+    } catch (error) {
+      console.error('Error checking data:', error);
+      Alert.alert('Error', 'Failed to check data');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const fixableCount = report ? report.issues.filter(issue => issue.fixable).length : 0;
+
+  const confirmRepair = () => {
+    Alert.alert(
+      'Fix Problems',
+      'Orphaned records will be reattached to the best matching template, values for unknown fields will be ' +
+        'dropped and duplicate record ids will be regenerated. A snapshot is taken first so this can be undone ' +
+        'from Automatic Snapshots.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Fix', onPress: repair }
+      ]
+    );
+  };
+
+  const repair = async () => {
+    setIsWorking(true);
+    try {
+      await createSnapshot();
+      const repairedCount = await repairDataIntegrity();
+      Alert.alert('Repair Complete', `${repairedCount} record(s) were repaired`);
+      setReport(await checkDataIntegrity());
+    } catch (error) {
+      console.error('Error repairing data:', error);
+      Alert.alert('Error', 'Failed to repair data');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Check Data</ThemedText>
+      </View>
+
+      {report && (
+        <View style={styles.summaryContainer}>
+          <Text style={styles.summaryText}>
+            Checked {report.checkedTemplates} template(s) and {report.checkedRecords} record(s)
+          </Text>
+          <Text style={report.issues.length === 0 ? styles.summaryOk : styles.summaryProblems}>
+            {report.issues.length === 0
+              ? '✅ No problems found'
+              : `⚠️ ${report.issues.length} problem(s) found, ${fixableCount} can be fixed automatically`}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.actionButtonsRow}>
+        <TouchableOpacity
+          style={[styles.checkButton, isWorking && styles.disabledButton]}
+          onPress={runCheck}
+          disabled={isWorking}
+        >
+          <Text style={styles.checkButtonText}>🔍 Check Again</Text>
+        </TouchableOpacity>
+        {fixableCount > 0 && (
+          <TouchableOpacity
+            style={[styles.fixButton, isWorking && styles.disabledButton]}
+            onPress={confirmRepair}
+            disabled={isWorking}
+          >
+            <Text style={styles.fixButtonText}>🔧 Fix {fixableCount} Problem(s)</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isWorking && <ActivityIndicator style={styles.activityIndicator} color="#4299e1" />}
+
+      <ScrollView style={styles.issuesList} showsVerticalScrollIndicator={false}>
+        {report && groupIssues(report.issues).map(({ group, issues }) => (
+          <View key={group} style={styles.groupContainer}>
+            <Text style={styles.groupTitle}>📁 {group} ({issues.length})</Text>
+            {issues.map((issue, index) => (
+              <View key={`${issue.kind}-${issue.rowId ?? ''}-${index}`} style={styles.issueItem}>
+                <Text style={styles.issueMessage}>{issue.message}</Text>
+                {!issue.fixable && <Text style={styles.issueManual}>Needs manual review</Text>}
+              </View>
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: 50,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  backButton: {
+    marginRight: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4299e1',
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#2d3748',
+    marginRight: 60,
+  },
+  summaryContainer: {
+    backgroundColor: '#e8f4f8',
+    padding: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#bee3f8',
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#4a5568',
+    marginBottom: 4,
+  },
+  summaryOk: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#38a169',
+  },
+  summaryProblems: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#c05621',
+    textAlign: 'center',
+  },
+  actionButtonsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 12,
+    marginTop: 8,
+  },
+  checkButton: {
+    flex: 1,
+    backgroundColor: '#4299e1',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  checkButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  fixButton: {
+    flex: 1,
+    backgroundColor: '#48bb78',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  fixButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  activityIndicator: {
+    marginTop: 12,
+  },
+  issuesList: {
+    flex: 1,
+    padding: 12,
+  },
+  groupContainer: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  groupTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 6,
+  },
+  issueItem: {
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  issueMessage: {
+    fontSize: 12,
+    color: '#4a5568',
+    lineHeight: 16,
+  },
+  issueManual: {
+    fontSize: 11,
+    color: '#c05621',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+});
@@ -1,41 +1,40 @@
 import React, { useState, useEffect, useRef, createRef } from 'react';
-import { StyleSheet, View, Text, TouchableOpacity, Alert, TextInput, ScrollView, Modal, Platform, Keyboard, Dimensions } from 'react-native';
+import { StyleSheet, View, Text, TouchableOpacity, Alert, TextInput, ScrollView, Modal, Platform, Keyboard, Dimensions, Image } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import { Camera, CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import * as FileSystem from 'expo-file-system';
 import { useLocalSearchParams, router } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
-
-interface TemplateField {
-  id: string;
-  name: string;
-  type: 'free_text' | 'date' | 'number' | 'fixed_data' | 'fixed_date' | 'barcode';
-  required: boolean;
-  defaultValue?: string;
-  options?: string[];
-  inputMode?: 'select_only' | 'editable';
-  dateFormat?: string;
-  customDateFormat?: string;
-}
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  fields: TemplateField[];
-  createdAt: Date;
-}
-
-interface DataRecord {
-  id: string;
-  templateId: string;
-  templateName: string;
-  data: { [fieldId: string]: string };
-  timestamp: Date;
-  dataFileName?: string;
-}
+import { loadTemplates, resolveRecordTemplateVersion } from '@/storage/templates';
+import { appendRecord, countFileRecords, loadLatestFileRecord } from '@/storage/records';
+import { formatStoredValue, hasDatePart, hasTimePart, parseStoredValue, toStoredValue } from '@/storage/datetime';
+import { clearHiddenValues, getVisibleFieldIds, isFieldRequired } from '@/storage/conditions';
+import { DefaultValueContext, canCarryForward, resolveDefaultValue } from '@/storage/defaults';
+import { computeFieldValues } from '@/storage/formulas';
+import { LookupRow, findLookupRow, getLookupFill, loadLookupTables } from '@/storage/lookups';
+import { normalizeNumberValue, normalizeNumberValues, resolveNumberSettings, validateNumberValue } from '@/storage/numbers';
+import { deletePhoto, getPhotoUri, savePhoto } from '@/storage/photos';
+import { peekSequenceValues } from '@/storage/sequences';
+import { getMaxLength, validateFieldValue } from '@/storage/validation';
+import { loadSettings } from '@/storage/settings';
+import { recordSavedForSnapshot } from '@/storage/snapshots';
+import {
+  CHECKBOX_CHECKED,
+  CHECKBOX_UNCHECKED,
+  DataRecord,
+  LookupTable,
+  Template,
+  TemplateField,
+  UNNAMED_FILE,
+  isAutomaticField,
+  isFixedField
+} from '@/storage/types';
+
+// Fields answered by tapping rather than typing are skipped when moving to the next field
+const isTypedField = (field: TemplateField) =>
+  !isAutomaticField(field) && field.type !== 'photo' && field.type !== 'checkbox' && field.type !== 'choice' &&
+  !(field.lookupColumn && field.lookupReadOnly);
 
 export default function DataEntryScreen() {
   const { templateId, dataFileName, continueInput, fixedFieldValues } = useLocalSearchParams();
@@ -44,28 +43,43 @@ export default function DataEntryScreen() {
   const [variableFormData, setVariableFormData] = useState<{ [fieldId: string]: string }>({});
   const [showCamera, setShowCamera] = useState<boolean>(false);
   const [currentBarcodeField, setCurrentBarcodeField] = useState<string | null>(null);
+  const [lookupTable, setLookupTable] = useState<LookupTable | null>(null);
+  // Result for the code last looked up, shown under the barcode field while it still holds that code
+  const [lookupResult, setLookupResult] = useState<{ code: string; row: LookupRow | null } | null>(null);
+  const [currentPhotoField, setCurrentPhotoField] = useState<string | null>(null);
+  const [isTakingPhoto, setIsTakingPhoto] = useState<boolean>(false);
+  const photoCameraRef = useRef<CameraView>(null);
   const [permission, requestPermission] = useCameraPermissions();
   const [currentDataFileName, setCurrentDataFileName] = useState<string>('');
   const [currentPage, setCurrentPage] = useState<'' | 'variable'>('fixed');
   const [recordCount, setRecordCount] = useState<number>(0);
+  // Records the data file already held when this screen opened, for the {recordCount+1} token
+  const [existingRecordCount, setExistingRecordCount] = useState<number>(0);
+  const [operatorName, setOperatorName] = useState<string>('');
   const [isContinueInput, setIsContinueInput] = useState<boolean>(false);
   const [showDatePicker, setShowDatePicker] = useState<boolean>(false);
   const [currentDateField, setCurrentDateField] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [tempDate, setTempDate] = useState<Date>(new Date());
   const [isDatePickerBusy, setIsDatePickerBusy] = useState<boolean>(false);
+  const [datePickerMode, setDatePickerMode] = useState<'date' | 'time'>('date');
   const inputRefs = useRef<{ [fieldId: string]: React.RefObject<TextInput> }>({});
   const [fieldOrder, setFieldOrder] = useState<string[]>([]);
   const [showSuccessMessage, setShowSuccessMessage] = useState<boolean>(false);
   const [showExitConfirmModal, setShowExitConfirmModal] = useState<boolean>(false);
   const [showValidationModal, setShowValidationModal] = useState<boolean>(false);
   const [validationError, setValidationError] = useState<string>('');
+  const [nextSequenceValues, setNextSequenceValues] = useState<{ [fieldId: string]: string }>({});
   const [keyboardHeight, setKeyboardHeight] = useState<number>(0);
   const [isKeyboardVisible, setIsKeyboardVisible] = useState<boolean>(false);
   const scrollViewRef = useRef<ScrollView>(null);
 
-  const TEMPLATES_FILE = FileSystem.documentDirectory + 'templates.json';
-  const DATA_RECORDS_FILE = FileSystem.documentDirectory + 'dataRecords.json';
+  // Visibility and requiredness follow the values entered so far. Conditions may refer to computed fields, so
+  // they see the values as they will be saved.
+  const withComputedValues = (data: { [fieldId: string]: string }) =>
+    computeFieldValues(template?.fields || [], normalizeNumberValues(template?.fields || [], data));
+  const enteredData = withComputedValues({ ...fixedFormData, ...variableFormData });
+  const visibleFieldIds = getVisibleFieldIds(template?.fields || [], enteredData);
 
   const showValidationError = (message: string) => {
     setValidationError(message);
@@ -104,129 +118,138 @@ export default function DataEntryScreen() {
     };
   }, [templateId, dataFileName, continueInput]);
 
+  // Show the numbers the next record will get; refreshed after every save
+  useEffect(() => {
+    if (!template) return;
+    peekSequenceValues(template.id, template.fields, currentDataFileName || UNNAMED_FILE)
+      .then(setNextSequenceValues)
+      .catch(error => console.error('Error loading sequence numbers:', error));
+  }, [template, currentDataFileName, recordCount]);
+
   const loadTemplate = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(TEMPLATES_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(TEMPLATES_FILE);
-        const templates: Template[] = JSON.parse(content);
-        let foundTemplate = templates.find(t => t.id === templateId);
-
-        // If template not found, check if we can reconstruct it from preserved data records
-        if (!foundTemplate && isContinueInput && currentDataFileName) {
-          try {
-            const dataFileExists = await FileSystem.getInfoAsync(DATA_RECORDS_FILE);
-            if (dataFileExists.exists) {
-              const dataContent = await FileSystem.readAsStringAsync(DATA_RECORDS_FILE);
-              const dataRecords = JSON.parse(dataContent);
-
-              // Find a record from this data file that has preserved template info
-              const recordWithPreservedTemplate = dataRecords.find((record: any) => 
-                record.dataFileName === currentDataFileName && 
-                record.templateId === templateId &&
-                record.preservedTemplateFields
-              );
-
-              if (recordWithPreservedTemplate) {
-                foundTemplate = {
-                  id: recordWithPreservedTemplate.templateId,
-                  name: recordWithPreservedTemplate.templateName,
-                  description: '(Template was deleted, using preserved data)',
-                  fields: recordWithPreservedTemplate.preservedTemplateFields,
-                  csvExportSettings: recordWithPreservedTemplate.preservedCsvSettings || {
-                    includeHeader: false,
-                    delimiter: 'comma',
-                    customDelimiter: '',
-                    fieldPositions: {},
-                    fileExtension: 'csv',
-                    includeQuotes: true
-                  },
-                  createdAt: new Date()
-                };
-              }
-            }
-          } catch (error) {
-            console.error('Error loading preserved template info:', error);
+      const templates = await loadTemplates();
+      let foundTemplate = templates.find(t => t.id === templateId);
+      const fileName = dataFileName && typeof dataFileName === 'string' ? decodeURIComponent(dataFileName) : '';
+
+      // The records already in the file feed the {lastValue} and {recordCount+1} default value tokens
+      let fileRecordCount = 0;
+      let latestRecord: DataRecord | null = null;
+      try {
+        fileRecordCount = await countFileRecords(fileName || UNNAMED_FILE);
+        latestRecord = await loadLatestFileRecord(fileName || UNNAMED_FILE, String(templateId));
+      } catch (error) {
+        console.error('Error loading the records of the file:', error);
+      }
+      // Data entry goes on with an empty {operator} if the settings cannot be read
+      const operator = await loadSettings()
+        .then(settings => settings.operatorName)
+        .catch(error => {
+          console.error('Error loading the operator name:', error);
+          return '';
+        });
+      setExistingRecordCount(fileRecordCount);
+      setOperatorName(operator);
+
+      // Continued input uses the template version the file's latest record was captured with, or the
+      // snapshot preserved in the records if the template was deleted
+      if (continueInput === 'true' && fileName) {
+        try {
+          const recordTemplate = latestRecord && await resolveRecordTemplateVersion(templates, latestRecord);
+
+          if (recordTemplate) {
+            foundTemplate = foundTemplate
+              ? recordTemplate
+              : { ...recordTemplate, description: '(Template was deleted, using preserved data)' };
           }
+        } catch (error) {
+          console.error('Error loading the template version of the file:', error);
         }
+      }
 
-        if (foundTemplate) {
-          setTemplate(foundTemplate);
-
-          // Initialize fixed data form
-          const initialFixedData: { [fieldId: string]: string } = {};
-          const initialVariableData: { [fieldId: string]: string } = {};
-
-          // If continuing input, use provided fixed field values
-          let prefilledFixedData: { [fieldId: string]: string } = {};
-          if (continueInput === 'true' && fixedFieldValues && typeof fixedFieldValues === 'string') {
-            try {
-              prefilledFixedData = JSON.parse(decodeURIComponent(fixedFieldValues));
-              console.log('Parsed prefilled fixed data:', prefilledFixedData);
-            } catch (error) {
-              console.error('Error parsing fixed field values:', error);
-            }
+      if (foundTemplate) {
+        setTemplate(foundTemplate);
+        if (foundTemplate.lookup) {
+          const lookupTables = await loadLookupTables();
+          setLookupTable(lookupTables.find(table => table.id === foundTemplate.lookup!.tableId) || null);
+        }
+
+        // Initialize fixed data form
+        const initialFixedData: { [fieldId: string]: string } = {};
+        const initialVariableData: { [fieldId: string]: string } = {};
+
+        // If continuing input, use provided fixed field values
+        let prefilledFixedData: { [fieldId: string]: string } = {};
+        if (continueInput === 'true' && fixedFieldValues && typeof fixedFieldValues === 'string') {
+          try {
+            prefilledFixedData = JSON.parse(decodeURIComponent(fixedFieldValues));
+            console.log('Parsed prefilled fixed data:', prefilledFixedData);
+          } catch (error) {
+            console.error('Error parsing fixed field values:', error);
           }
+        }
 
-          foundTemplate.fields.forEach(field => {
-            if (field.type === 'fixed_data' || field.type === 'fixed_date') {
-              // Use prefilled data if available, otherwise use default values
-              if (prefilledFixedData[field.id]) {
-                initialFixedData[field.id] = prefilledFixedData[field.id];
-              } else if (field.type === 'fixed_date') {
-                initialFixedData[field.id] = field.defaultValue || formatDateForField(new Date(), field);
-              } else {
-                initialFixedData[field.id] = field.defaultValue || '';
-              }
+        const defaultContext: DefaultValueContext = {
+          now: new Date(),
+          lastValues: latestRecord?.data || {},
+          fileName,
+          operator,
+          recordCount: fileRecordCount
+        };
+
+        foundTemplate.fields.forEach(field => {
+          if (isFixedField(field)) {
+            // Use prefilled data if available, otherwise use default values
+            if (prefilledFixedData[field.id]) {
+              initialFixedData[field.id] = prefilledFixedData[field.id];
+            } else if (field.type === 'fixed_date') {
+              initialFixedData[field.id] =
+                resolveDefaultValue(field, defaultContext) || formatDateForField(defaultContext.now, field);
+            } else if (field.type === 'fixed_datetime') {
+              initialFixedData[field.id] = toStoredValue(defaultContext.now, field.type);
             } else {
-              if (field.type === 'date') {
-                initialVariableData[field.id] = field.defaultValue || formatDateForField(new Date(), field);
-              } else {
-                initialVariableData[field.id] = field.defaultValue || '';
-              }
+              initialFixedData[field.id] = resolveDefaultValue(field, defaultContext);
             }
-          });
+          } else {
+            initialVariableData[field.id] = getVariableStartValue(field, defaultContext);
+          }
+        });
 
-          setFixedFormData(initialFixedData);
-          setVariableFormData(initialVariableData);
+        setFixedFormData(initialFixedData);
+        setVariableFormData(initialVariableData);
 
-          // Debug log to verify data is loaded correctly
-          console.log('Loading fixed data for continue input:', initialFixedData);
+        // Debug log to verify data is loaded correctly
+        console.log('Loading fixed data for continue input:', initialFixedData);
 
-          // Initialize input refs for all fields (both fixed and variable)
-          const allFields = foundTemplate.fields;
-          const variableFields = foundTemplate.fields.filter(field => 
-            field.type !== 'fixed_data' && field.type !== 'fixed_date'
-          );
+        // Initialize input refs for all fields (both fixed and variable)
+        const allFields = foundTemplate.fields;
+        const variableFields = foundTemplate.fields.filter(field => !isFixedField(field));
 
-          const refs: { [fieldId: string]: React.RefObject<TextInput> } = {};
-          const order: string[] = [];
+        const refs: { [fieldId: string]: React.RefObject<TextInput> } = {};
+        const order: string[] = [];
 
-          // Create refs for all fields, not just variable ones
-          allFields.forEach(field => {
-            refs[field.id] = createRef<TextInput>();
-          });
+        // Create refs for all fields, not just variable ones
+        allFields.forEach(field => {
+          refs[field.id] = createRef<TextInput>();
+        });
 
-          // Only variable fields are included in field order for navigation
-          variableFields.forEach(field => {
-            order.push(field.id);
-          });
+        // Only variable fields are included in field order for navigation; automatic fields are not typed in
+        variableFields.filter(isTypedField).forEach(field => {
+          order.push(field.id);
+        });
 
-          inputRefs.current = refs;
-          setFieldOrder(order);
+        inputRefs.current = refs;
+        setFieldOrder(order);
 
-          // Only skip to variable page if there are no fixed fields
-          const hasFixedFields = foundTemplate.fields.some(field => 
-            field.type === 'fixed_data' || field.type === 'fixed_date'
-          );
+        // Only skip to variable page if there are no fixed fields
+        const hasFixedFields = foundTemplate.fields.some(isFixedField);
 
-          if (!hasFixedFields) {
-            setCurrentPage('variable');
-          }
-        } else {
-          Alert.alert('Error', 'Template not found');
-          router.back();
+        if (!hasFixedFields) {
+          setCurrentPage('variable');
         }
+      } else {
+        Alert.alert('Error', 'Template not found');
+        router.back();
       }
     } catch (error) {
       console.error('Error loading template:', error);
@@ -325,7 +348,8 @@ export default function DataEntryScreen() {
     return null;
   };
 
-  const openDatePicker = (fieldId: string) => {
+  // Date-time fields pick their date and time separately, since Android has no combined picker
+  const openDatePicker = (fieldId: string, mode: 'date' | 'time' = 'date') => {
     // Prevent opening if already busy or open
     if (isDatePickerBusy || showDatePicker) {
       console.log('Date picker already open or busy');
@@ -336,7 +360,7 @@ export default function DataEntryScreen() {
 
     // Get current field value or use today's date
     const field = template?.fields.find(f => f.id === fieldId);
-    const currentValue = field?.type === 'fixed_date' 
+    const currentValue = field && isFixedField(field)
       ? fixedFormData[fieldId] 
       : variableFormData[fieldId];
 
@@ -345,7 +369,9 @@ export default function DataEntryScreen() {
     if (currentValue && field) {
       try {
         // Try to parse the current value back to a date
-        const parsedDate = parseFieldDate(currentValue, field);
+        const parsedDate = hasTimePart(field.type)
+          ? parseStoredValue(currentValue, field.type)
+          : parseFieldDate(currentValue, field);
         if (parsedDate && !isNaN(parsedDate.getTime())) {
           initialDate = parsedDate;
         }
@@ -356,6 +382,7 @@ export default function DataEntryScreen() {
 
     // Set all states in proper sequence
     setCurrentDateField(fieldId);
+    setDatePickerMode(mode);
     setSelectedDate(initialDate);
     setTempDate(initialDate);
     setIsDatePickerBusy(true);
@@ -392,9 +419,20 @@ export default function DataEntryScreen() {
     if (currentDateField && template) {
       const field = template.fields.find(f => f.id === currentDateField);
       if (field) {
-        const formattedDate = formatDateForField(date, field);
+        let formattedDate = formatDateForField(date, field);
+        if (hasTimePart(field.type)) {
+          // Keep the part of a date-time value that this picker did not change
+          const currentValue = isFixedField(field) ? fixedFormData[field.id] : variableFormData[field.id];
+          const merged = parseStoredValue(currentValue || '', field.type) || new Date();
+          if (datePickerMode === 'date') {
+            merged.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+          } else {
+            merged.setHours(date.getHours(), date.getMinutes(), 0);
+          }
+          formattedDate = toStoredValue(merged, field.type);
+        }
 
-        if (field.type === 'fixed_date') {
+        if (isFixedField(field)) {
           updateFixedFieldValue(currentDateField, formattedDate);
         } else {
           updateVariableFieldValue(currentDateField, formattedDate);
@@ -430,6 +468,9 @@ export default function DataEntryScreen() {
       const scannedFieldId = currentBarcodeField;
       setCurrentBarcodeField(null);
       setShowCamera(false);
+      if (scannedFieldId === template?.lookup?.keyFieldId) {
+        lookUpCode(data);
+      }
 
       // Auto-advance to next field after barcode scan
       setTimeout(() => {
@@ -438,21 +479,92 @@ export default function DataEntryScreen() {
     }
   };
 
+  // Fill the fields mapped to lookup columns from a scanned or typed code
+  const lookUpCode = async (code: string) => {
+    const lookup = template?.lookup;
+    if (!template || !lookup || !lookupTable) return;
+    if (!code.trim()) {
+      setLookupResult(null);
+      return;
+    }
+
+    try {
+      const row = await findLookupRow(lookupTable.id, code);
+      setLookupResult({ code: code.trim(), row });
+      if (row) {
+        const filledData = getLookupFill(template.fields.filter(field => !isFixedField(field)), row);
+        setVariableFormData(prev => ({ ...prev, ...filledData }));
+      } else if (lookup.rejectUnknownCodes) {
+        showValidationError(`${code.trim()} is not in the lookup table "${lookupTable.name}"`);
+      }
+    } catch (error) {
+      console.error('Error looking up code:', error);
+    }
+  };
+
+  // Checked again on save, since a typed code is only looked up once its input loses focus
+  const checkLookupCode = async (): Promise<boolean> => {
+    const lookup = template?.lookup;
+    if (!lookup?.rejectUnknownCodes || !lookupTable || !visibleFieldIds.has(lookup.keyFieldId)) return true;
+    const code = variableFormData[lookup.keyFieldId]?.trim();
+    if (!code || await findLookupRow(lookupTable.id, code)) return true;
+    showValidationError(`${code} is not in the lookup table "${lookupTable.name}"`);
+    return false;
+  };
+
+  // Name the record will be stored under, which also picks the photo folder
+  const getStoredFileName = () => currentDataFileName || UNNAMED_FILE;
+
+  const takePhoto = async () => {
+    if (!currentPhotoField || !photoCameraRef.current || isTakingPhoto) return;
+
+    setIsTakingPhoto(true);
+    try {
+      const picture = await photoCameraRef.current.takePictureAsync({ quality: 0.7 });
+      if (picture) {
+        const savedFileName = await savePhoto(getStoredFileName(), picture.uri);
+        // A retaken picture replaces the previous one, which was never saved with a record
+        const previousFileName = variableFormData[currentPhotoField];
+        if (previousFileName) {
+          await deletePhoto(getStoredFileName(), previousFileName);
+        }
+        updateVariableFieldValue(currentPhotoField, savedFileName);
+      }
+      setCurrentPhotoField(null);
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    } finally {
+      setIsTakingPhoto(false);
+    }
+  };
+
+  const removePhoto = async (fieldId: string) => {
+    const fileName = variableFormData[fieldId];
+    updateVariableFieldValue(fieldId, '');
+    if (fileName) {
+      await deletePhoto(getStoredFileName(), fileName).catch(error => console.error('Error deleting photo:', error));
+    }
+  };
+
   const validateFixedForm = (): boolean => {
     if (!template) return false;
 
     // Skip validation during continue input since fixed fields are read-only
     if (isContinueInput) return true;
 
-    const fixedFields = template.fields.filter(field => 
-      field.type === 'fixed_data' || field.type === 'fixed_date'
-    );
+    const fixedFields = getFixedFields();
 
     for (const field of fixedFields) {
-      if (field.required && !fixedFormData[field.id]?.trim()) {
+      if (isFieldRequired(field, enteredData, visibleFieldIds) && !fixedFormData[field.id]?.trim()) {
         showValidationError(`${field.name} is required`);
         return false;
       }
+      const ruleError = validateFieldValue(field, fixedFormData[field.id] || '');
+      if (ruleError) {
+        showValidationError(ruleError);
+        return false;
+      }
     }
     return true;
   };
@@ -460,15 +572,19 @@ export default function DataEntryScreen() {
   const validateVariableForm = (): boolean => {
     if (!template) return false;
 
-    const variableFields = template.fields.filter(field => 
-      field.type !== 'fixed_data' && field.type !== 'fixed_date'
-    );
+    // Sequence and computed fields are filled in when the record is saved; an unticked checkbox is an answer too
+    const variableFields = getVariableFields().filter(field => !isAutomaticField(field) && field.type !== 'checkbox');
 
     for (const field of variableFields) {
-      if (field.required && !variableFormData[field.id]?.trim()) {
+      if (isFieldRequired(field, enteredData, visibleFieldIds) && !variableFormData[field.id]?.trim()) {
         showValidationError(`${field.name} is required`);
         return false;
       }
+      const ruleError = validateFieldValue(field, variableFormData[field.id] || '');
+      if (ruleError) {
+        showValidationError(ruleError);
+        return false;
+      }
     }
     return true;
   };
@@ -480,32 +596,36 @@ export default function DataEntryScreen() {
 
   const saveDataRecord = async () => {
     if (!validateVariableForm() || !template) return;
+    if (!(await checkLookupCode())) return;
 
     try {
-      // Load existing records
-      let existingRecords: DataRecord[] = [];
-      const fileExists = await FileSystem.getInfoAsync(DATA_RECORDS_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(DATA_RECORDS_FILE);
-        existingRecords = JSON.parse(content);
-      }
-
-      // Combine fixed and variable data
-      const combinedData = { ...fixedFormData, ...variableFormData };
+      // Combine fixed and variable data, normalize numbers, stamp auto-stamped times and store the computed
+      // values with them; fields hidden in the form are saved empty
+      const savedAt = new Date();
+      const stampedData: { [fieldId: string]: string } = {};
+      template.fields
+        .filter(field => field.autoStamp && hasTimePart(field.type) && !isFixedField(field))
+        .forEach(field => {
+          stampedData[field.id] = toStoredValue(savedAt, field.type);
+        });
+      const combinedData = clearHiddenValues(
+        template.fields,
+        computeFieldValues(template.fields, { ...enteredData, ...stampedData })
+      );
 
       // Create new record
       const newRecord: DataRecord = {
         id: Date.now().toString(),
         templateId: template.id,
         templateName: template.name,
+        templateVersion: template.version,
         data: combinedData,
-        timestamp: new Date(),
+        timestamp: savedAt,
         dataFileName: currentDataFileName
       };
 
-      // Save updated records
-      const updatedRecords = [...existingRecords, newRecord];
-      await FileSystem.writeAsStringAsync(DATA_RECORDS_FILE, JSON.stringify(updatedRecords));
+      const storedRecord = await appendRecord(newRecord, template.fields);
+      recordSavedForSnapshot().catch(error => console.error('Error taking automatic snapshot:', error));
 
       const newCount = recordCount + 1;
       setRecordCount(newCount);
@@ -516,7 +636,13 @@ export default function DataEntryScreen() {
       // Hide success message and reset form after 0.5 seconds
       setTimeout(() => {
         setShowSuccessMessage(false);
-        resetVariableForm();
+        resetVariableForm({
+          now: new Date(),
+          lastValues: storedRecord.data,
+          fileName: currentDataFileName,
+          operator: operatorName,
+          recordCount: existingRecordCount + newCount
+        });
       }, 500);
     } catch (error) {
       console.error('Error saving data:', error);
@@ -524,28 +650,40 @@ export default function DataEntryScreen() {
     }
   };
 
-  const resetVariableForm = () => {
+  // A variable field starts with the previous record's value if it is carried forward, otherwise with its default
+  const getVariableStartValue = (field: TemplateField, context: DefaultValueContext): string => {
+    if (field.carryForward && canCarryForward(field) && context.lastValues[field.id] !== undefined) {
+      return context.lastValues[field.id];
+    }
+    if (field.type === 'date') {
+      return resolveDefaultValue(field, context) || formatDateForField(context.now, field);
+    }
+    if (hasTimePart(field.type) && !isAutomaticField(field)) {
+      return toStoredValue(context.now, field.type);
+    }
+    return resolveDefaultValue(field, context);
+  };
+
+  // The saved record is passed in because this runs from a timer that still sees the state from before the save
+  const resetVariableForm = (context: DefaultValueContext) => {
     if (!template) return;
 
     const initialData: { [fieldId: string]: string } = {};
-    const variableFields = template.fields.filter(field => 
-      field.type !== 'fixed_data' && field.type !== 'fixed_date'
-    );
+    const variableFields = template.fields.filter(field => !isFixedField(field));
 
     variableFields.forEach(field => {
-      if (field.type === 'date') {
-        initialData[field.id] = field.defaultValue || formatDateForField(new Date(), field);
-      } else {
-        initialData[field.id] = field.defaultValue || '';
-      }
+      initialData[field.id] = getVariableStartValue(field, context);
     });
 
     setVariableFormData(initialData);
+    setLookupResult(null);
 
-    // Focus first field after reset
+    // Focus first visible field after reset
+    const resetData = withComputedValues({ ...fixedFormData, ...initialData });
+    const resetVisibleFieldIds = getVisibleFieldIds(template.fields, resetData);
+    const firstFieldId = fieldOrder.find(fieldId => resetVisibleFieldIds.has(fieldId));
     setTimeout(() => {
-      if (fieldOrder.length > 0) {
-        const firstFieldId = fieldOrder[0];
+      if (firstFieldId) {
         inputRefs.current[firstFieldId]?.current?.focus();
       }
     }, 100);
@@ -565,21 +703,18 @@ export default function DataEntryScreen() {
   };
 
   const getFixedFields = () => {
-    return template?.fields.filter(field => 
-      field.type === 'fixed_data' || field.type === 'fixed_date'
-    ) || [];
+    return template?.fields.filter(field => isFixedField(field) && visibleFieldIds.has(field.id)) || [];
   };
 
   const getVariableFields = () => {
-    return template?.fields.filter(field => 
-      field.type !== 'fixed_data' && field.type !== 'fixed_date'
-    ) || [];
+    return template?.fields.filter(field => !isFixedField(field) && visibleFieldIds.has(field.id)) || [];
   };
 
   const moveToNextField = (currentFieldId: string) => {
-    const currentIndex = fieldOrder.indexOf(currentFieldId);
-    if (currentIndex >= 0 && currentIndex < fieldOrder.length - 1) {
-      const nextFieldId = fieldOrder[currentIndex + 1];
+    const visibleOrder = fieldOrder.filter(fieldId => visibleFieldIds.has(fieldId));
+    const currentIndex = visibleOrder.indexOf(currentFieldId);
+    if (currentIndex >= 0 && currentIndex < visibleOrder.length - 1) {
+      const nextFieldId = visibleOrder[currentIndex + 1];
       const nextRef = inputRefs.current[nextFieldId];
       if (nextRef?.current) {
         // Small delay to ensure the field is ready for focus
@@ -647,21 +782,26 @@ export default function DataEntryScreen() {
     const value = isFixedPage ? (fixedFormData[field.id] || '') : (variableFormData[field.id] || '');
     const updateFunction = isFixedPage ? updateFixedFieldValue : updateVariableFieldValue;
 
+    if (field.lookupColumn && field.lookupReadOnly && !isFixedPage) {
+      return (
+        <View style={styles.fixedValueContainer}>
+          <Text style={styles.automaticValue}>{value || '--'}</Text>
+          <Text style={styles.readOnlyHint}>🔎 Filled from the lookup table</Text>
+        </View>
+      );
+    }
+
     switch (field.type) {
       case 'free_text':
         return (
           <TextInput
             ref={inputRefs.current[field.id]}
             style={styles.input}
-            placeholder={`Enter ${field.name} (max 30 chars)`}
+            placeholder={getMaxLength(field) ? `Enter ${field.name} (max ${getMaxLength(field)} chars)` : `Enter ${field.name}`}
             value={value}
-            onChangeText={(text) => {
-              // Limit to 30 characters
-              const limitedText = text.slice(0, 30);
-              updateFunction(field.id, limitedText);
-            }}
+            onChangeText={(text) => updateFunction(field.id, text)}
             multiline={false}
-            maxLength={30}
+            maxLength={getMaxLength(field)}
             onSubmitEditing={() => {
               if (!isFixedPage) {
                 moveToNextField(field.id);
@@ -691,42 +831,53 @@ export default function DataEntryScreen() {
           />
         );
 
-      case 'number':
+      case 'number': {
+        const numberSettings = resolveNumberSettings(field.number);
         return (
-          <TextInput
-            ref={inputRefs.current[field.id]}
-            style={styles.input}
-            placeholder={`Enter ${field.name}`}
-            value={value}
-            onChangeText={(text) => updateFunction(field.id, text)}
-            keyboardType="numeric"
-            onSubmitEditing={() => {
-              if (!isFixedPage) {
-                moveToNextField(field.id);
-              } else {
-                moveToNextFixedField(field.id);
-              }
-            }}
-            onPressIn={() => {
-              // Apply scroll behavior on both pages
-              setTimeout(() => scrollToField(field.id), 50);
-            }}
-            onFocus={() => {
-              // Apply scroll and selection logic on both pages
-              setTimeout(() => scrollToField(field.id), 50);
-              // Auto-select text on focus using the ref
-              if (value && inputRefs.current[field.id]?.current) {
-                setTimeout(() => {
-                  inputRefs.current[field.id]?.current?.setNativeProps({
-                    selection: { start: 0, end: value.length }
-                  });
-                }, 100);
-              }
-            }}
-            blurOnSubmit={false}
-            selectTextOnFocus={true}
-          />
+          <View style={styles.numberInputRow}>
+            <TextInput
+              ref={inputRefs.current[field.id]}
+              style={[styles.input, styles.numberInput]}
+              placeholder={`Enter ${field.name}`}
+              value={value}
+              onChangeText={(text) => updateFunction(field.id, text)}
+              keyboardType={numberSettings.kind === 'integer' && !numberSettings.allowNegative ? 'number-pad' : 'numeric'}
+              onSubmitEditing={() => {
+                if (!isFixedPage) {
+                  moveToNextField(field.id);
+                } else {
+                  moveToNextFixedField(field.id);
+                }
+              }}
+              onPressIn={() => {
+                // Apply scroll behavior on both pages
+                setTimeout(() => scrollToField(field.id), 50);
+              }}
+              onFocus={() => {
+                // Apply scroll and selection logic on both pages
+                setTimeout(() => scrollToField(field.id), 50);
+                // Auto-select text on focus using the ref
+                if (value && inputRefs.current[field.id]?.current) {
+                  setTimeout(() => {
+                    inputRefs.current[field.id]?.current?.setNativeProps({
+                      selection: { start: 0, end: value.length }
+                    });
+                  }, 100);
+                }
+              }}
+              onEndEditing={() => {
+                // Show the value the way it will be saved, e.g. 3,5 as 3.50
+                if (!validateNumberValue(field, value)) {
+                  updateFunction(field.id, normalizeNumberValue(field, value));
+                }
+              }}
+              blurOnSubmit={false}
+              selectTextOnFocus={true}
+            />
+            {numberSettings.unit ? <Text style={styles.unitLabel}>{numberSettings.unit}</Text> : null}
+          </View>
         );
+      }
 
       case 'date':
         return (
@@ -751,6 +902,50 @@ export default function DataEntryScreen() {
           </View>
         );
 
+      case 'time':
+      case 'datetime':
+      case 'fixed_datetime': {
+        if (isAutomaticField(field)) {
+          return (
+            <View style={styles.fixedValueContainer}>
+              <Text style={styles.automaticValue}>--</Text>
+              <Text style={styles.readOnlyHint}>🕒 Stamped automatically when the record is saved</Text>
+            </View>
+          );
+        }
+
+        const isLocked = field.type === 'fixed_datetime' && isContinueInput;
+        const isPickerDisabled = showDatePicker || isDatePickerBusy || isLocked;
+        return (
+          <View style={styles.fixedValueContainer}>
+            <View style={styles.dateContainer}>
+              <Text style={[styles.dateTimeValue, isLocked && styles.readOnlyInput]}>
+                {formatStoredValue(value, field)}
+              </Text>
+              {hasDatePart(field.type) && (
+                <TouchableOpacity
+                  style={[styles.calendarButton, isPickerDisabled && styles.disabledCalendarButton]}
+                  onPress={() => openDatePicker(field.id, 'date')}
+                  disabled={isPickerDisabled}
+                >
+                  <Text style={styles.calendarButtonText}>📅</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.calendarButton, isPickerDisabled && styles.disabledCalendarButton]}
+                onPress={() => openDatePicker(field.id, 'time')}
+                disabled={isPickerDisabled}
+              >
+                <Text style={styles.calendarButtonText}>🕒</Text>
+              </TouchableOpacity>
+            </View>
+            {isLocked && (
+              <Text style={styles.readOnlyHint}>📌 Fixed value from existing entries</Text>
+            )}
+          </View>
+        );
+      }
+
       case 'fixed_date':
         return (
           <View style={styles.fixedValueContainer}>
@@ -783,6 +978,73 @@ export default function DataEntryScreen() {
           </View>
         );
 
+      case 'sequence':
+        return (
+          <View style={styles.fixedValueContainer}>
+            <Text style={styles.automaticValue}>{nextSequenceValues[field.id] || ''}</Text>
+            <Text style={styles.readOnlyHint}>🔢 Assigned automatically when the record is saved</Text>
+          </View>
+        );
+
+      case 'checkbox': {
+        const isChecked = value === CHECKBOX_CHECKED;
+        return (
+          <TouchableOpacity
+            style={[styles.checkboxRow, isChecked && styles.checkboxRowChecked]}
+            onPress={() => updateFunction(field.id, isChecked ? CHECKBOX_UNCHECKED : CHECKBOX_CHECKED)}
+          >
+            <Text style={styles.checkboxBox}>{isChecked ? '☑' : '☐'}</Text>
+            <Text style={[styles.checkboxLabel, isChecked && styles.checkboxLabelChecked]}>
+              {isChecked ? 'Yes' : 'No'}
+            </Text>
+          </TouchableOpacity>
+        );
+      }
+
+      case 'choice':
+        return (
+          <View style={styles.choiceRow}>
+            {(field.options || []).filter(option => option.trim()).map((option, index) => (
+              <TouchableOpacity
+                key={index}
+                style={[styles.choiceOption, value === option && styles.choiceOptionSelected]}
+                onPress={() => updateFunction(field.id, value === option ? '' : option)}
+              >
+                <Text style={[styles.choiceOptionText, value === option && styles.choiceOptionTextSelected]}>
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+
+      case 'photo':
+        return (
+          <View style={styles.photoContainer}>
+            {value ? (
+              <Image source={{ uri: getPhotoUri(getStoredFileName(), value) }} style={styles.photoPreview} />
+            ) : null}
+            <View style={styles.photoButtons}>
+              <TouchableOpacity style={styles.scanButton} onPress={() => setCurrentPhotoField(field.id)}>
+                <Text style={styles.scanButtonText}>{value ? '📷 Retake' : '📷 Take Photo'}</Text>
+              </TouchableOpacity>
+              {value ? (
+                <TouchableOpacity style={styles.removePhotoButton} onPress={() => removePhoto(field.id)}>
+                  <Text style={styles.scanButtonText}>🗑️ Remove</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          </View>
+        );
+
+      case 'computed':
+        return (
+          <View style={styles.fixedValueContainer}>
+            <Text style={styles.automaticValue}>{enteredData[field.id] || ' '}</Text>
+            <Text style={styles.readOnlyHint}>🧮 {field.formula}</Text>
+          </View>
+        );
+
       case 'fixed_data':
         const allOptions = field.options || [];
         const defaultValue = field.defaultValue;
@@ -876,46 +1138,60 @@ export default function DataEntryScreen() {
 
       case 'barcode':
         return (
-          <View style={styles.barcodeContainer}>
-            <TextInput
-              ref={inputRefs.current[field.id]}
-              style={[styles.input, styles.barcodeInput]}
-              placeholder="Scan or enter barcode"
-              value={value}
-              onChangeText={(text) => updateFunction(field.id, text)}
-              onSubmitEditing={() => {
-                if (!isFixedPage) {
-                  moveToNextField(field.id);
-                } else {
-                  moveToNextFixedField(field.id);
-                }
-              }}
-              onPressIn={() => {
-                // Apply scroll behavior on both pages
-                setTimeout(() => scrollToField(field.id), 50);
-              }}
-              onFocus={() => {
-              // Apply scroll and selection logic on both pages
-                setTimeout(() => scrollToField(field.id), 50);
-                // Auto-select text on focus using the ref
-                if (value && inputRefs.current[field.id]?.current) {
-                  setTimeout(() => {
-                    inputRefs.current[field.id]?.current?.setNativeProps({
-                      selection: { start: 0, end: value.length }
-                    });
-                  }, 100);
-                }
-              }}
-              blurOnSubmit={false}
-              selectTextOnFocus={true}
-            />
-            <TouchableOpacity
-              style={styles.scanButton}
-              onPress={() => openBarcodeScanner(field.id)}
-            >
-              <Text style={styles.scanButtonText}>📷</Text>
-            </TouchableOpacity>
-          </View>
+          <>
+            <View style={styles.barcodeContainer}>
+              <TextInput
+                ref={inputRefs.current[field.id]}
+                style={[styles.input, styles.barcodeInput]}
+                placeholder="Scan or enter barcode"
+                value={value}
+                onChangeText={(text) => updateFunction(field.id, text)}
+                onSubmitEditing={() => {
+                  if (!isFixedPage) {
+                    moveToNextField(field.id);
+                  } else {
+                    moveToNextFixedField(field.id);
+                  }
+                }}
+                onPressIn={() => {
+                  // Apply scroll behavior on both pages
+                  setTimeout(() => scrollToField(field.id), 50);
+                }}
+                onFocus={() => {
+                // Apply scroll and selection logic on both pages
+                  setTimeout(() => scrollToField(field.id), 50);
+                  // Auto-select text on focus using the ref
+                  if (value && inputRefs.current[field.id]?.current) {
+                    setTimeout(() => {
+                      inputRefs.current[field.id]?.current?.setNativeProps({
+                        selection: { start: 0, end: value.length }
+                      });
+                    }, 100);
+                  }
+                }}
+                onEndEditing={() => {
+                  if (field.id === template?.lookup?.keyFieldId && value.trim() !== lookupResult?.code) {
+                    lookUpCode(value);
+                  }
+                }}
+                blurOnSubmit={false}
+                selectTextOnFocus={true}
+              />
+              <TouchableOpacity
+                style={styles.scanButton}
+                onPress={() => openBarcodeScanner(field.id)}
+              >
+                <Text style={styles.scanButtonText}>📷</Text>
+              </TouchableOpacity>
+            </View>
+            {field.id === template?.lookup?.keyFieldId && lookupResult && lookupResult.code === value.trim() && (
+              <Text style={lookupResult.row ? styles.lookupFound : styles.lookupMissing}>
+                {lookupResult.row
+                  ? `✅ ${(template.lookup.descriptionColumn && lookupResult.row[template.lookup.descriptionColumn]) || 'Found in the lookup table'}`
+                  : `⚠️ Not in the lookup table "${lookupTable?.name}"`}
+              </Text>
+            )}
+          </>
         );
 
       default:
@@ -1006,7 +1282,7 @@ export default function DataEntryScreen() {
               <View key={field.id} style={styles.fieldContainer}>
                 <Text style={styles.fieldLabel}>
                   {field.name}
-                  {field.required && <Text style={styles.required}> *</Text>}
+                  {isFieldRequired(field, enteredData, visibleFieldIds) && <Text style={styles.required}> *</Text>}
                   <Text style={styles.fixedFieldIndicator}> 📌</Text>
                 </Text>
                 {renderField(field, true)}
@@ -1030,7 +1306,7 @@ export default function DataEntryScreen() {
               <View key={field.id} style={styles.fieldContainer}>
                 <Text style={styles.fieldLabel}>
                   {field.name}
-                  {field.required && <Text style={styles.required}> *</Text>}
+                  {isFieldRequired(field, enteredData, visibleFieldIds) && <Text style={styles.required}> *</Text>}
                 </Text>
                 {renderField(field, false)}
               </View>
@@ -1096,6 +1372,45 @@ export default function DataEntryScreen() {
         </View>
       </Modal>
 
+      {/* Photo Camera Modal */}
+      <Modal visible={currentPhotoField !== null} transparent animationType="fade">
+        <View style={styles.cameraContainer}>
+          {permission?.granted ? (
+            <>
+              <CameraView ref={photoCameraRef} style={styles.camera} mode="picture" />
+              <View style={styles.cameraOverlay}>
+                <TouchableOpacity
+                  style={[styles.captureButton, isTakingPhoto && styles.disabledCalendarButton]}
+                  onPress={takePhoto}
+                  disabled={isTakingPhoto}
+                >
+                  <Text style={styles.closeButtonText}>📸 Take Photo</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.closeButton}
+                  onPress={() => setCurrentPhotoField(null)}
+                >
+                  <Text style={styles.closeButtonText}>Close</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <View style={styles.permissionContainer}>
+              <Text style={styles.permissionText}>Camera permission required</Text>
+              <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+                <Text style={styles.permissionButtonText}>Grant Permission</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.closeButton}
+                onPress={() => setCurrentPhotoField(null)}
+              >
+                <Text style={styles.closeButtonText}>Close</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </Modal>
+
       {/* Date Picker Modal */}
       {showDatePicker && (
         <Modal 
@@ -1119,10 +1434,10 @@ export default function DataEntryScreen() {
               }}
             />
             <View style={styles.datePickerModalContent}>
-              <Text style={styles.datePickerTitle}>Select Date</Text>
+              <Text style={styles.datePickerTitle}>{datePickerMode === 'time' ? 'Select Time' : 'Select Date'}</Text>
               <DateTimePicker
                 value={tempDate}
-                mode="date"
+                mode={datePickerMode}
                 display={Platform.OS === 'ios' ? 'spinner' : 'default'}
                 onChange={handleDateChange}
                 style={styles.datePicker}
@@ -1376,6 +1691,79 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 14,
   },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: '#ffffff',
+    gap: 10,
+  },
+  checkboxRowChecked: {
+    borderColor: '#48bb78',
+    backgroundColor: '#f0fff4',
+  },
+  checkboxBox: {
+    fontSize: 22,
+    color: '#2d3748',
+  },
+  checkboxLabel: {
+    fontSize: 16,
+    color: '#4a5568',
+    fontWeight: '600',
+  },
+  checkboxLabelChecked: {
+    color: '#2f855a',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  choiceOption: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    backgroundColor: '#ffffff',
+  },
+  choiceOptionSelected: {
+    borderColor: '#4299e1',
+    backgroundColor: '#4299e1',
+  },
+  choiceOptionText: {
+    fontSize: 15,
+    color: '#4a5568',
+    fontWeight: '600',
+  },
+  choiceOptionTextSelected: {
+    color: 'white',
+  },
+  photoContainer: {
+    alignItems: 'center',
+    gap: 10,
+  },
+  photoPreview: {
+    width: 160,
+    height: 160,
+    borderRadius: 8,
+    backgroundColor: '#edf2f7',
+  },
+  photoButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  removePhotoButton: {
+    backgroundColor: '#e53e3e',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    justifyContent: 'center',
+    minHeight: 44,
+  },
   fixedPageButtons: {
     marginTop: 20,
     paddingBottom: 20,
@@ -1445,6 +1833,13 @@ const styles = StyleSheet.create({
     fontSize: 18,
     marginBottom: 15,
   },
+  captureButton: {
+    backgroundColor: '#48bb78',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
   closeButton: {
     backgroundColor: '#e53e3e',
     paddingVertical: 10,
@@ -1510,11 +1905,34 @@ const styles = StyleSheet.create({
     color: '#2d3748',
     fontWeight: '500',
   },
+  numberInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  numberInput: {
+    flex: 1,
+  },
+  unitLabel: {
+    fontSize: 16,
+    color: '#4a5568',
+    fontWeight: '500',
+  },
   dateContainer: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 8,
   },
+  dateTimeValue: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f8f9fa',
+    color: '#495057',
+  },
   dateInput: {
     flex: 1,
     backgroundColor: '#f8f9fa',
@@ -1732,6 +2150,29 @@ const styles = StyleSheet.create({
     backgroundColor: '#f7fafc',
     opacity: 0.8,
   },
+  automaticValue: {
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4a5568',
+    backgroundColor: '#f7fafc',
+    textAlign: 'center',
+  },
+  lookupFound: {
+    fontSize: 14,
+    color: '#2f855a',
+    fontWeight: 'bold',
+    marginTop: 6,
+  },
+  lookupMissing: {
+    fontSize: 14,
+    color: '#c05621',
+    fontWeight: 'bold',
+    marginTop: 6,
+  },
   readOnlyHint: {
     fontSize: 12,
     color: '#48bb78',
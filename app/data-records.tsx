@@ -6,39 +6,16 @@ import * as Sharing from 'expo-sharing';
 import { router } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
-
-interface DataRecord {
-  id: string;
-  templateId: string;
-  templateName: string;
-  data: { [fieldId: string]: string };
-  timestamp: Date;
-}
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  fields: TemplateField[];
-  createdAt: Date;
-}
-
-interface TemplateField {
-  id: string;
-  name: string;
-  type: string;
-  required: boolean;
-  defaultValue?: string;
-  options?: string[];
-}
+import { useAdminGuard } from '@/hooks/useAdminGuard';
+import { loadTemplates as loadStoredTemplates } from '@/storage/templates';
+import { StoredRecord, clearRecords, deleteRecord as deleteStoredRecord, loadStoredRecords } from '@/storage/records';
+import { Template } from '@/storage/types';
 
 export default function DataRecordsScreen() {
-  const [records, setRecords] = useState<DataRecord[]>([]);
+  const [records, setRecords] = useState<StoredRecord[]>([]);
   const [templates, setTemplates] = useState<Template[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<string>('all');
-
-  const DATA_RECORDS_FILE = FileSystem.documentDirectory + 'dataRecords.json';
-  const TEMPLATES_FILE = FileSystem.documentDirectory + 'templates.json';
+  const { requireAdmin, adminPinModal } = useAdminGuard();
 
   useEffect(() => {
     loadData();
@@ -50,17 +27,10 @@ export default function DataRecordsScreen() {
 
   const loadRecords = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(DATA_RECORDS_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(DATA_RECORDS_FILE);
-        const loadedRecords = JSON.parse(content).map((record: any) => ({
-          ...record,
-          timestamp: new Date(record.timestamp)
-        }));
-        setRecords(loadedRecords.sort((a: DataRecord, b: DataRecord) => 
-          b.timestamp.getTime() - a.timestamp.getTime()
-        ));
-      }
+      const loadedRecords = await loadStoredRecords();
+      setRecords(loadedRecords.sort((a, b) =>
+        b.record.timestamp.getTime() - a.record.timestamp.getTime()
+      ));
     } catch (error) {
       console.error('Error loading records:', error);
     }
@@ -68,12 +38,7 @@ export default function DataRecordsScreen() {
 
   const loadTemplates = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(TEMPLATES_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(TEMPLATES_FILE);
-        const loadedTemplates = JSON.parse(content);
-        setTemplates(loadedTemplates);
-      }
+      setTemplates(await loadStoredTemplates());
     } catch (error) {
       console.error('Error loading templates:', error);
     }
@@ -83,12 +48,12 @@ export default function DataRecordsScreen() {
     if (selectedTemplate === 'all') {
       return records;
     }
-    return records.filter(record => record.templateId === selectedTemplate);
+    return records.filter(({ record }) => record.templateId === selectedTemplate);
   };
 
   const exportToCSV = async () => {
     try {
-      const filteredRecords = getFilteredRecords();
+      const filteredRecords = getFilteredRecords().map(({ record }) => record);
       
       if (filteredRecords.length === 0) {
         Alert.alert('No Data', 'No records to export');
@@ -152,7 +117,7 @@ export default function DataRecordsScreen() {
     }
   };
 
-  const deleteRecord = (recordId: string) => {
+  const deleteRecord = (rowId: number) => {
     Alert.alert(
       'Delete Record',
       'Are you sure you want to delete this record?',
@@ -163,9 +128,8 @@ export default function DataRecordsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const updatedRecords = records.filter(r => r.id !== recordId);
-              await FileSystem.writeAsStringAsync(DATA_RECORDS_FILE, JSON.stringify(updatedRecords));
-              setRecords(updatedRecords);
+              await deleteStoredRecord(rowId);
+              setRecords(records.filter(r => r.rowId !== rowId));
             } catch (error) {
               console.error('Error deleting record:', error);
               Alert.alert('Error', 'Failed to delete record');
@@ -179,7 +143,7 @@ export default function DataRecordsScreen() {
   const clearAllRecords = () => {
     Alert.alert(
       'Clear All Records',
-      'Are you sure you want to delete all data records? This action cannot be undone.',
+      'Are you sure you want to delete all data records? They can be restored from the Recycle Bin in Settings.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -187,9 +151,9 @@ export default function DataRecordsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await FileSystem.writeAsStringAsync(DATA_RECORDS_FILE, JSON.stringify([]));
+              await clearRecords();
               setRecords([]);
-              Alert.alert('Success', 'All records cleared');
+              Alert.alert('Success', 'All records moved to the Recycle Bin');
             } catch (error) {
               console.error('Error clearing records:', error);
               Alert.alert('Error', 'Failed to clear records');
@@ -200,7 +164,7 @@ export default function DataRecordsScreen() {
     );
   };
 
-  const renderRecord = ({ item }: { item: DataRecord }) => {
+  const renderRecord = ({ item: { rowId, record: item } }: { item: StoredRecord }) => {
     const template = templates.find(t => t.id === item.templateId);
     
     return (
@@ -228,7 +192,7 @@ export default function DataRecordsScreen() {
         
         <TouchableOpacity
           style={styles.deleteRecordButton}
-          onPress={() => deleteRecord(item.id)}
+          onPress={() => deleteRecord(rowId)}
         >
           <Text style={styles.deleteRecordText}>🗑️ Delete</Text>
         </TouchableOpacity>
@@ -284,7 +248,7 @@ export default function DataRecordsScreen() {
           <Text style={styles.exportButtonText}>📊 Export to CSV</Text>
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.clearButton} onPress={clearAllRecords}>
+        <TouchableOpacity style={styles.clearButton} onPress={() => requireAdmin(clearAllRecords)}>
           <Text style={styles.clearButtonText}>🗑️ Clear All</Text>
         </TouchableOpacity>
       </View>
@@ -292,12 +256,14 @@ export default function DataRecordsScreen() {
       <FlatList
         data={filteredRecords}
         renderItem={renderRecord}
-        keyExtractor={(item) => item.id}
+        keyExtractor={(item) => String(item.rowId)}
         style={styles.recordsList}
         showsVerticalScrollIndicator={false}
         refreshing={false}
         onRefresh={loadData}
       />
+
+      {adminPinModal}
     </ThemedView>
   );
 }
@@ -8,6 +8,8 @@ import { CameraView, useCameraPermissions } from 'expo-camera';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { Link } from 'expo-router';
+import Constants from 'expo-constants';
+import { writeBackupArchive } from '@/storage/backup';
 
 interface FileItem {
   name: string;
@@ -134,25 +136,20 @@ export default function DataFilesScreen() {
     }
   };
 
+  // Share a full backup archive (templates, records and settings) rather than just the file names
   const exportAllData = async () => {
     try {
       const documentsDir = FileSystem.documentDirectory;
       if (!documentsDir) return;
 
-      const exportData = {
-        files: files.map(file => file.name),
-        exportDate: new Date().toISOString(),
-        totalFiles: files.length,
-        totalSize: totalSize,
-      };
+      const exportUri = await writeBackupArchive(documentsDir, Constants.expoConfig?.version || '');
+      await loadFiles();
 
-      const exportUri = documentsDir + 'data_export.json';
-      await FileSystem.writeAsStringAsync(exportUri, JSON.stringify(exportData, null, 2));
-      
       const isAvailable = await Sharing.isAvailableAsync();
       if (isAvailable) {
         await Sharing.shareAsync(exportUri, {
-          dialogTitle: 'Export Data Summary',
+          dialogTitle: 'Export Full Backup',
+          mimeType: 'application/json',
         });
       }
       
@@ -1,133 +1,75 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { StyleSheet, View, Text, TouchableOpacity, FlatList, ScrollView, Alert, TextInput, Modal } from 'react-native';
-import * as FileSystem from 'expo-file-system';
-import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, FlatList, ScrollView, Alert, TextInput, Modal, Image } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
-
-interface DataRecord {
-  id: string;
-  templateId: string;
-  templateName: string;
-  data: { [fieldId: string]: string };
-  timestamp: Date;
-  dataFileName?: string;
-  preservedTemplateFields?: TemplateField[];
-}
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  fields: TemplateField[];
-  createdAt: Date;
-}
-
-interface TemplateField {
-  id: string;
-  name: string;
-  type: string;
-  required: boolean;
-  defaultValue?: string;
-  options?: string[];
-}
+import { loadTemplates as loadStoredTemplates, resolveRecordTemplate } from '@/storage/templates';
+import {
+  StoredRecord,
+  deleteRecord as deleteStoredRecord,
+  loadStoredFileRecords,
+  searchStoredFileRecords
+} from '@/storage/records';
+import { subscribe } from '@/storage/events';
+import { getPhotoUri } from '@/storage/photos';
+import { CHECKBOX_CHECKED, Template, isFixedField } from '@/storage/types';
 
 export default function FileDetailsScreen() {
   const { fileName } = useLocalSearchParams<{ fileName: string }>();
-  const [records, setRecords] = useState<DataRecord[]>([]);
   const [templates, setTemplates] = useState<Template[]>([]);
-  const [fileRecords, setFileRecords] = useState<DataRecord[]>([]);
+  const [fileRecords, setFileRecords] = useState<StoredRecord[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [filteredRecords, setFilteredRecords] = useState<DataRecord[]>([]);
+  const [filteredRecords, setFilteredRecords] = useState<StoredRecord[]>([]);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
-  const [recordToDelete, setRecordToDelete] = useState<string | null>(null);
+  const [recordToDelete, setRecordToDelete] = useState<number | null>(null);
   const [showMissingTemplateModal, setShowMissingTemplateModal] = useState(false);
 
 
-  const DATA_RECORDS_FILE = FileSystem.documentDirectory + 'dataRecords.json';
-  const TEMPLATES_FILE = FileSystem.documentDirectory + 'templates.json';
-
+  // Refresh data whenever records change (e.g., saved from data entry)
   useEffect(() => {
     loadData();
-  }, []);
-
-  // Refresh data when the screen comes into focus (e.g., returning from data entry)
-  useFocusEffect(
-    useCallback(() => {
-      loadData();
-    }, [])
-  );
+    return subscribe(() => loadData());
+  }, [fileName]);
 
+  // Search runs as an indexed query; field names live in the templates, so matching field ids are resolved here
   useEffect(() => {
-    if (records.length > 0 && fileName) {
-      const filtered = records.filter(record => 
-        (record.dataFileName || 'Unnamed File') === fileName
-      );
-      const sorted = filtered.sort((a, b) => 
-        b.timestamp.getTime() - a.timestamp.getTime()
-      );
-      setFileRecords(sorted);
-      setFilteredRecords(sorted);
-    }
-  }, [records, fileName]);
-
-  useEffect(() => {
-    if (searchQuery.trim() === '') {
+    const query = searchQuery.trim();
+    if (query === '' || !fileName) {
       setFilteredRecords(fileRecords);
-    } else {
-      const filtered = fileRecords.filter(record => {
-        let template = templates.find(t => t.id === record.templateId);
-
-        // Use preserved template fields if original template is deleted
-        if (!template && record.preservedTemplateFields) {
-          template = {
-            id: record.templateId,
-            name: record.templateName,
-            description: 'Deleted Template',
-            fields: record.preservedTemplateFields,
-            createdAt: new Date()
-          };
-        }
+      return;
+    }
 
-        // Search in template name
-        if (record.templateName.toLowerCase().includes(searchQuery.toLowerCase())) {
-          return true;
+    const lowerQuery = query.toLowerCase();
+    const matchingFieldIds = templates
+      .flatMap(template => template.fields)
+      .concat(fileRecords.flatMap(({ record }) => record.preservedTemplateFields || []))
+      .filter(field => field.name.toLowerCase().includes(lowerQuery))
+      .map(field => field.id);
+
+    // Ignore results from a previous keystroke that arrive after a newer query was started
+    let cancelled = false;
+    searchStoredFileRecords(fileName, query, [...new Set(matchingFieldIds)])
+      .then(results => {
+        if (!cancelled) {
+          setFilteredRecords(results);
         }
+      })
+      .catch(error => console.error('Error searching records:', error));
 
-        // Search in all field values
-        return Object.entries(record.data).some(([fieldId, value]) => {
-          const field = template?.fields.find(f => f.id === fieldId);
-          if (!field || !value) return false;
-
-          // Search in field name
-          if (field.name.toLowerCase().includes(searchQuery.toLowerCase())) {
-            return true;
-          }
-
-          // Search in field value
-          return value.toLowerCase().includes(searchQuery.toLowerCase());
-        });
-      });
-
-      setFilteredRecords(filtered);
-    }
-  }, [searchQuery, fileRecords, templates]);
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery, fileRecords, templates, fileName]);
 
   const loadData = async () => {
     await Promise.all([loadRecords(), loadTemplates()]);
   };
 
   const loadRecords = async () => {
+    if (!fileName) return;
     try {
-      const fileExists = await FileSystem.getInfoAsync(DATA_RECORDS_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(DATA_RECORDS_FILE);
-        const loadedRecords = JSON.parse(content).map((record: any) => ({
-          ...record,
-          timestamp: new Date(record.timestamp)
-        }));
-        setRecords(loadedRecords);
-      }
+      const loadedRecords = await loadStoredFileRecords(fileName);
+      setFileRecords(loadedRecords);
     } catch (error) {
       console.error('Error loading records:', error);
     }
@@ -135,28 +77,21 @@ export default function FileDetailsScreen() {
 
   const loadTemplates = async () => {
     try {
-      const fileExists = await FileSystem.getInfoAsync(TEMPLATES_FILE);
-      if (fileExists.exists) {
-        const content = await FileSystem.readAsStringAsync(TEMPLATES_FILE);
-        const loadedTemplates = JSON.parse(content);
-        setTemplates(loadedTemplates);
-      }
+      setTemplates(await loadStoredTemplates());
     } catch (error) {
       console.error('Error loading templates:', error);
     }
   };
 
-  const deleteRecord = (recordId: string) => {
-    setRecordToDelete(recordId);
+  const deleteRecord = (rowId: number) => {
+    setRecordToDelete(rowId);
     setShowDeleteModal(true);
   };
 
   const confirmDeleteRecord = async () => {
-    if (recordToDelete) {
+    if (recordToDelete !== null) {
       try {
-        const updatedRecords = records.filter(r => r.id !== recordToDelete);
-        await FileSystem.writeAsStringAsync(DATA_RECORDS_FILE, JSON.stringify(updatedRecords));
-        setRecords(updatedRecords);
+        await deleteStoredRecord(recordToDelete);
         setShowDeleteModal(false);
         setRecordToDelete(null);
       } catch (error) {
@@ -184,7 +119,7 @@ export default function FileDetailsScreen() {
     }
 
     // Get the template ID from the first record (all records in a file should use the same template)
-    const firstRecord = fileRecords[0];
+    const firstRecord = fileRecords[0].record;
     let templateExists = templates.find(t => t.id === firstRecord.templateId);
 
     // If template not found but record has preserved template fields, we can still continue
@@ -207,9 +142,7 @@ export default function FileDetailsScreen() {
     const templateFields = templateExists?.fields || firstRecord.preservedTemplateFields || [];
 
     // Extract fixed field values from the first record
-    const fixedFields = templateFields.filter(field => 
-      field.type === 'fixed_data' || field.type === 'fixed_date'
-    );
+    const fixedFields = templateFields.filter(isFixedField);
 
     const fixedFieldValues: { [key: string]: string } = {};
     fixedFields.forEach(field => {
@@ -232,21 +165,9 @@ export default function FileDetailsScreen() {
 
 
 
-  const renderRecord = ({ item }: { item: DataRecord }) => {
-    let template = templates.find(t => t.id === item.templateId);
-    let isTemplateDeleted = false;
-
+  const renderRecord = ({ item: { rowId, record: item } }: { item: StoredRecord }) => {
     // If template not found but record has preserved template fields, use those
-    if (!template && item.preservedTemplateFields) {
-      template = {
-        id: item.templateId,
-        name: item.templateName,
-        description: 'Deleted Template',
-        fields: item.preservedTemplateFields,
-        createdAt: new Date()
-      };
-      isTemplateDeleted = true;
-    }
+    const template = resolveRecordTemplate(templates, item);
 
     return (
       <View style={styles.recordItem}>
@@ -258,7 +179,7 @@ export default function FileDetailsScreen() {
           </View>
           <TouchableOpacity
             style={styles.deleteRecordButton}
-            onPress={() => deleteRecord(item.id)}
+            onPress={() => deleteRecord(rowId)}
           >
             <Text style={styles.deleteRecordText}>🗑️</Text>
           </TouchableOpacity>
@@ -269,10 +190,21 @@ export default function FileDetailsScreen() {
             const field = template?.fields.find(f => f.id === fieldId);
             if (!field || !value) return null;
 
+            if (field.type === 'photo') {
+              return (
+                <View key={fieldId} style={styles.dataRow}>
+                  <Text style={styles.fieldName}>{field.name}:</Text>
+                  <Image source={{ uri: getPhotoUri(fileName, value) }} style={styles.photoThumbnail} />
+                </View>
+              );
+            }
+
             return (
               <View key={fieldId} style={styles.dataRow}>
                 <Text style={styles.fieldName}>{field.name}:</Text>
-                <Text style={styles.fieldValue}>{value}</Text>
+                <Text style={styles.fieldValue}>
+                  {field.type === 'checkbox' ? (value === CHECKBOX_CHECKED ? '☑ Yes' : '☐ No') : value}
+                </Text>
               </View>
             );
           })}
@@ -282,7 +214,7 @@ export default function FileDetailsScreen() {
   };
 
   // Check if any records have deleted templates
-  const hasDeletedTemplate = fileRecords.length > 0 && fileRecords.some(record => {
+  const hasDeletedTemplate = fileRecords.length > 0 && fileRecords.some(({ record }) => {
     const template = templates.find(t => t.id === record.templateId);
     return !template && record.preservedTemplateFields;
   });
@@ -339,7 +271,7 @@ export default function FileDetailsScreen() {
       <FlatList
         data={filteredRecords}
         renderItem={renderRecord}
-        keyExtractor={(item) => item.id}
+        keyExtractor={(item) => String(item.rowId)}
         style={styles.recordsList}
         showsVerticalScrollIndicator={false}
         refreshing={false}
@@ -367,7 +299,7 @@ export default function FileDetailsScreen() {
                 Are you sure you want to delete this entry?
               </Text>
               <Text style={styles.deleteModalWarning}>
-                This action cannot be undone. The data record will be permanently deleted.
+                The data record will be moved to the Recycle Bin in Settings.
               </Text>
             </View>
 
@@ -576,6 +508,12 @@ const styles = StyleSheet.create({
     lineHeight: 16,
     flexWrap: 'wrap',
   },
+  photoThumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    backgroundColor: '#edf2f7',
+  },
   deleteRecordButton: {
     backgroundColor: '#fed7d7',
     paddingVertical: 4,
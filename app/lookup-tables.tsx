@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert, Modal, TextInput, ActivityIndicator } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { router } from 'expo-router';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { useAdminGuard } from '@/hooks/useAdminGuard';
+import { subscribe } from '@/storage/events';
+import { deleteLookupTable, importLookupTable, loadLookupTables } from '@/storage/lookups';
+import { loadTemplates } from '@/storage/templates';
+import { LookupTable, Template } from '@/storage/types';
+
+export default function LookupTablesScreen() {
+  const [tables, setTables] = useState<LookupTable[]>([]);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ content: string; name: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  // Lookup tables fill template fields, so changing them is template management
+  const { requireAdmin, adminPinModal } = useAdminGuard();
+
+  useEffect(() => {
+    loadData();
+    return subscribe(change => {
+      if (change === 'lookups' || change === 'templates') {
+        loadData();
+      }
+    });
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [loadedTables, loadedTemplates] = await Promise.all([loadLookupTables(), loadTemplates()]);
+      setTables(loadedTables);
+      setTemplates(loadedTemplates);
+    } catch (error) {
+      console.error('Error loading lookup tables:', error);
+      Alert.alert('Error', 'Failed to load lookup tables');
+    }
+  };
+
+  const getTemplatesUsing = (tableId: string) => templates.filter(template => template.lookup?.tableId === tableId);
+
+  const pickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'text/tab-separated-values'],
+        copyToCacheDirectory: true
+      });
+      if (result.canceled || !result.assets || result.assets.length === 0) {
+        return;
+      }
+      const content = await FileSystem.readAsStringAsync(result.assets[0].uri);
+      setPendingImport({ content, name: result.assets[0].name.replace(/\.[^.]*$/, '') });
+    } catch (error) {
+      console.error('Error reading lookup file:', error);
+      Alert.alert('Error', 'Failed to read the selected file');
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!pendingImport) return;
+    const name = pendingImport.name.trim();
+    if (!name) {
+      Alert.alert('Name Required', 'Please enter a name for the lookup table');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const table = await importLookupTable(name, pendingImport.content);
+      setPendingImport(null);
+      Alert.alert(
+        'Import Complete',
+        `"${table.name}" has ${table.rowCount} code(s) with the columns ${table.columns.join(', ')}`
+      );
+    } catch (error: any) {
+      console.error('Error importing lookup table:', error);
+      Alert.alert('Import Failed', error.message || 'Failed to import the lookup table');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmDelete = (table: LookupTable) => {
+    const usedBy = getTemplatesUsing(table.id);
+    Alert.alert(
+      'Delete Lookup Table',
+      usedBy.length > 0
+        ? `"${table.name}" is used by ${usedBy.map(template => template.name).join(', ')}. ` +
+          'Scanned codes will no longer be looked up until another table is attached.'
+        : `Delete "${table.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteLookupTable(table.id).catch(error => {
+            console.error('Error deleting lookup table:', error);
+            Alert.alert('Error', 'Failed to delete the lookup table');
+          })
+        }
+      ]
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Lookup Tables</ThemedText>
+      </View>
+
+      <View style={styles.infoContainer}>
+        <Text style={styles.infoText}>
+          Import a CSV file with a header row and the codes in the first column, e.g. Barcode, Description, Unit,
+          Price. Attach it to a template in the template editor. Importing a file under an existing name replaces
+          that table&apos;s data.
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.importButton, isWorking && styles.disabledButton]}
+        onPress={() => requireAdmin(pickFile)}
+        disabled={isWorking}
+      >
+        <Text style={styles.importButtonText}>📥 Import CSV</Text>
+      </TouchableOpacity>
+
+      <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+        {tables.length === 0 && <Text style={styles.emptyText}>No lookup tables imported yet</Text>}
+        {tables.map(table => {
+          const usedBy = getTemplatesUsing(table.id);
+          return (
+            <View key={table.id} style={styles.tableItem}>
+              <View style={styles.tableInfo}>
+                <Text style={styles.tableName}>🔎 {table.name}</Text>
+                <Text style={styles.tableDetail}>
+                  {table.rowCount} code(s) · imported {table.importedAt.toLocaleString()}
+                </Text>
+                <Text style={styles.tableDetail} numberOfLines={2}>Columns: {table.columns.join(', ')}</Text>
+                <Text style={styles.tableDetail}>
+                  {usedBy.length > 0 ? `Used by: ${usedBy.map(template => template.name).join(', ')}` : 'Not used by any template'}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.deleteButton} onPress={() => requireAdmin(() => confirmDelete(table))}>
+                <Text style={styles.deleteButtonText}>🗑️</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <Modal visible={pendingImport !== null} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Import Lookup Table</Text>
+            <Text style={styles.modalLabel}>Table name:</Text>
+            <TextInput
+              style={styles.nameInput}
+              value={pendingImport?.name || ''}
+              onChangeText={(text) => setPendingImport(prev => prev && { ...prev, name: text })}
+              placeholder="e.g., Products"
+            />
+            {tables.some(table => table.name === pendingImport?.name.trim()) && (
+              <Text style={styles.replaceWarning}>A table with this name exists and will be replaced</Text>
+            )}
+            {isWorking && <ActivityIndicator color="#4299e1" />}
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setPendingImport(null)}
+                disabled={isWorking}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmButton, isWorking && styles.disabledButton]}
+                onPress={confirmImport}
+                disabled={isWorking}
+              >
+                <Text style={styles.confirmButtonText}>Import</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {adminPinModal}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: 50,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  backButton: {
+    marginRight: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4299e1',
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#2d3748',
+    marginRight: 60,
+  },
+  infoContainer: {
+    backgroundColor: '#e8f4f8',
+    padding: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#bee3f8',
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#4a5568',
+    lineHeight: 16,
+  },
+  importButton: {
+    backgroundColor: '#4299e1',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 12,
+    marginTop: 8,
+  },
+  importButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  list: {
+    flex: 1,
+    padding: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  tableItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  tableInfo: {
+    flex: 1,
+  },
+  tableName: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 4,
+  },
+  tableDetail: {
+    fontSize: 12,
+    color: '#4a5568',
+    lineHeight: 16,
+  },
+  deleteButton: {
+    backgroundColor: '#e53e3e',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  deleteButtonText: {
+    fontSize: 14,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    width: '85%',
+    gap: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    textAlign: 'center',
+  },
+  modalLabel: {
+    fontSize: 14,
+    color: '#4a5568',
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+  },
+  replaceWarning: {
+    fontSize: 12,
+    color: '#c05621',
+    fontStyle: 'italic',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#e2e8f0',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#4a5568',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#48bb78',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
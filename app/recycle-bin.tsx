@@ -0,0 +1,341 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, FlatList, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { useAdminGuard } from '@/hooks/useAdminGuard';
+import { restoreRecordsFromTrash } from '@/storage/records';
+import { restoreTemplateFromTrash } from '@/storage/templates';
+import { TrashItem, emptyTrash, getTrashExpiry, loadTrashItems, purgeTrashItem } from '@/storage/trash';
+import { DEFAULT_APP_SETTINGS, TRASH_RETENTION_OPTIONS, loadSettings, updateSettings } from '@/storage/settings';
+import { subscribe } from '@/storage/events';
+
+const KIND_ICONS: { [kind in TrashItem['kind']]: string } = {
+  record: '📝',
+  data_file: '📁',
+  all_records: '🗂️',
+  template: '📋'
+};
+
+export default function RecycleBinScreen() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_APP_SETTINGS.trashRetentionDays);
+  // Restoring brings back deleted templates and purging removes data for good, so both need the admin PIN
+  const { requireAdmin, adminPinModal } = useAdminGuard();
+
+  useEffect(() => {
+    loadData();
+    return subscribe(change => {
+      if (change === 'trash' || change === 'settings') {
+        loadData();
+      }
+    });
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [loadedItems, settings] = await Promise.all([loadTrashItems(), loadSettings()]);
+      setItems(loadedItems);
+      setRetentionDays(settings.trashRetentionDays);
+    } catch (error) {
+      console.error('Error loading recycle bin:', error);
+    }
+  };
+
+  const changeRetention = async (days: number) => {
+    try {
+      await updateSettings({ trashRetentionDays: days });
+    } catch (error) {
+      console.error('Error saving retention period:', error);
+      Alert.alert('Error', 'Failed to save retention period');
+    }
+  };
+
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      if (item.kind === 'template') {
+        const template = await restoreTemplateFromTrash(item.id);
+        Alert.alert('Restored', template ? `Template "${template.name}" has been restored` : 'Nothing to restore');
+      } else {
+        const restoredCount = await restoreRecordsFromTrash(item.id);
+        Alert.alert('Restored', `${restoredCount} record(s) have been restored`);
+      }
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      Alert.alert('Error', 'Failed to restore item');
+    }
+  };
+
+  const purgeItem = (item: TrashItem) => {
+    Alert.alert(
+      'Delete Forever',
+      `"${item.label}" will be permanently deleted. This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeTrashItem(item.id);
+            } catch (error) {
+              console.error('Error purging item:', error);
+              Alert.alert('Error', 'Failed to delete item');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const confirmEmptyTrash = () => {
+    Alert.alert(
+      'Empty Recycle Bin',
+      'All items in the recycle bin will be permanently deleted. This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash();
+            } catch (error) {
+              console.error('Error emptying recycle bin:', error);
+              Alert.alert('Error', 'Failed to empty recycle bin');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: TrashItem }) => {
+    const expiresAt = getTrashExpiry(item, retentionDays);
+
+    return (
+      <View style={styles.itemContainer}>
+        <Text style={styles.itemLabel}>{KIND_ICONS[item.kind]} {item.label}</Text>
+        <Text style={styles.itemDetails}>
+          {item.kind === 'template' ? 'Template' : `${item.recordCount} record(s)`} · Deleted {item.deletedAt.toLocaleDateString()} {item.deletedAt.toLocaleTimeString()}
+        </Text>
+        <Text style={styles.itemExpiry}>Purged after {expiresAt.toLocaleDateString()}</Text>
+
+        <View style={styles.actionButtonsRow}>
+          <TouchableOpacity style={styles.restoreButton} onPress={() => requireAdmin(() => restoreItem(item))}>
+            <Text style={styles.restoreButtonText}>↩️ Restore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.purgeButton} onPress={() => requireAdmin(() => purgeItem(item))}>
+            <Text style={styles.purgeButtonText}>🗑️ Delete Forever</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Recycle Bin</ThemedText>
+      </View>
+
+      <View style={styles.retentionContainer}>
+        <Text style={styles.retentionLabel}>Keep deleted items for</Text>
+        <View style={styles.retentionOptions}>
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.retentionOption, retentionDays === days && styles.selectedRetentionOption]}
+              onPress={() => requireAdmin(() => changeRetention(days))}
+            >
+              <Text style={[styles.retentionOptionText, retentionDays === days && styles.selectedRetentionOptionText]}>
+                {days} days
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {items.length > 0 && (
+        <TouchableOpacity style={styles.emptyTrashButton} onPress={() => requireAdmin(confirmEmptyTrash)}>
+          <Text style={styles.emptyTrashButtonText}>Empty Recycle Bin ({items.length})</Text>
+        </TouchableOpacity>
+      )}
+
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={(item) => String(item.id)}
+        style={styles.itemsList}
+        showsVerticalScrollIndicator={false}
+        refreshing={false}
+        onRefresh={loadData}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>The recycle bin is empty.</Text>
+          </View>
+        }
+      />
+
+      {adminPinModal}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: 50,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  backButton: {
+    marginRight: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4299e1',
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#2d3748',
+    marginRight: 60,
+  },
+  retentionContainer: {
+    backgroundColor: '#e8f4f8',
+    padding: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#bee3f8',
+  },
+  retentionLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  retentionOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    backgroundColor: '#ffffff',
+  },
+  selectedRetentionOption: {
+    borderColor: '#4299e1',
+    backgroundColor: '#4299e1',
+  },
+  retentionOptionText: {
+    fontSize: 12,
+    color: '#4a5568',
+    fontWeight: '600',
+  },
+  selectedRetentionOptionText: {
+    color: 'white',
+  },
+  emptyTrashButton: {
+    backgroundColor: '#e53e3e',
+    paddingVertical: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  emptyTrashButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  itemsList: {
+    flex: 1,
+    padding: 12,
+  },
+  itemContainer: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    boxShadow: '0px 1px 2px rgba(0, 0, 0, 0.05)',
+  },
+  itemLabel: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 4,
+  },
+  itemDetails: {
+    fontSize: 12,
+    color: '#4a5568',
+    marginBottom: 2,
+  },
+  itemExpiry: {
+    fontSize: 11,
+    color: '#a0aec0',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  actionButtonsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  restoreButton: {
+    flex: 1,
+    backgroundColor: '#48bb78',
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  restoreButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  purgeButton: {
+    flex: 1,
+    backgroundColor: '#fed7d7',
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#fc8181',
+  },
+  purgeButtonText: {
+    color: '#c53030',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#718096',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,318 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { useAdminGuard } from '@/hooks/useAdminGuard';
+import { subscribe } from '@/storage/events';
+import { loadTemplates, saveTemplates } from '@/storage/templates';
+import { Template } from '@/storage/types';
+import { TemplateVersion, describeTemplateChanges, loadTemplateVersions } from '@/storage/versions';
+
+export default function TemplateHistoryScreen() {
+  const { templateId } = useLocalSearchParams();
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [comparedVersion, setComparedVersion] = useState<number | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const { requireAdmin, adminPinModal } = useAdminGuard();
+
+  const template = templates.find(t => t.id === templateId);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [loadedTemplates, loadedVersions] = await Promise.all([
+          loadTemplates(),
+          loadTemplateVersions(String(templateId))
+        ]);
+        setTemplates(loadedTemplates);
+        setVersions(loadedVersions);
+      } catch (error) {
+        console.error('Error loading template history:', error);
+        Alert.alert('Error', 'Failed to load the template history');
+      }
+    };
+
+    loadData();
+    return subscribe(change => {
+      if (change === 'templates') {
+        loadData();
+      }
+    });
+  }, [templateId]);
+
+  const confirmRollBack = (version: TemplateVersion) => {
+    if (!template) return;
+    if (template.isProtected) {
+      Alert.alert('Protected Template', 'This is a protected template and cannot be rolled back.');
+      return;
+    }
+    const nameTaken = templates.some(t =>
+      t.id !== template.id && t.name.toLowerCase() === version.template.name.toLowerCase());
+    if (nameTaken) {
+      Alert.alert(
+        'Name In Use',
+        `Another template is now called "${version.template.name}". Rename it before rolling back to this version.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Roll Back',
+      `The fields and settings of version ${version.version} will be saved as a new version of "${template.name}". ` +
+        'Records already captured keep the version they were captured with.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Roll Back', onPress: () => rollBack(version) }
+      ]
+    );
+  };
+
+  const rollBack = async (version: TemplateVersion) => {
+    setIsWorking(true);
+    try {
+      await saveTemplates(templates.map(t => t.id === version.templateId
+        ? {
+            ...t,
+            name: version.template.name,
+            description: version.template.description,
+            fields: version.template.fields,
+            csvExportSettings: version.template.csvExportSettings,
+            lookup: version.template.lookup
+          }
+        : t));
+      setComparedVersion(null);
+    } catch (error) {
+      console.error('Error rolling back template:', error);
+      Alert.alert('Error', 'Failed to roll back the template');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderVersion = (version: TemplateVersion, index: number) => {
+    const isCurrent = version.version === template?.version;
+    const previous = versions[index + 1];
+    const changes = previous ? describeTemplateChanges(previous.template, version.template) : [];
+    const differences = template && !isCurrent ? describeTemplateChanges(version.template, template) : [];
+
+    return (
+      <View key={version.version} style={[styles.versionItem, isCurrent && styles.currentVersionItem]}>
+        <View style={styles.versionHeader}>
+          <Text style={styles.versionTitle}>Version {version.version}</Text>
+          {isCurrent && <Text style={styles.currentBadge}>Current</Text>}
+        </View>
+        <Text style={styles.versionDetail}>
+          Saved {version.savedAt.toLocaleString()} · {version.template.fields.length} field(s)
+        </Text>
+        {previous ? (
+          changes.map((change, changeIndex) => (
+            <Text key={changeIndex} style={styles.changeText}>• {change}</Text>
+          ))
+        ) : (
+          <Text style={styles.changeText}>• First version</Text>
+        )}
+
+        {!isCurrent && template && (
+          <View style={styles.versionActions}>
+            <TouchableOpacity
+              style={styles.compareButton}
+              onPress={() => setComparedVersion(comparedVersion === version.version ? null : version.version)}
+            >
+              <Text style={styles.actionButtonText}>
+                {comparedVersion === version.version ? 'Hide Comparison' : '🔍 Compare With Current'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.rollBackButton, (isWorking || template.isProtected) && styles.disabledButton]}
+              onPress={() => requireAdmin(() => confirmRollBack(version))}
+              disabled={isWorking}
+            >
+              <Text style={styles.actionButtonText}>↩️ Roll Back</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {comparedVersion === version.version && (
+          <View style={styles.comparisonContainer}>
+            <Text style={styles.comparisonTitle}>Changes since this version:</Text>
+            {differences.length > 0 ? (
+              differences.map((difference, differenceIndex) => (
+                <Text key={differenceIndex} style={styles.changeText}>• {difference}</Text>
+              ))
+            ) : (
+              <Text style={styles.changeText}>The current template has the same fields and settings</Text>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Version History</ThemedText>
+      </View>
+
+      <View style={styles.infoContainer}>
+        <Text style={styles.infoText}>
+          {template ? `${template.name}: ` : ''}every saved change creates a new version. Records keep the version
+          they were captured with, so exports and continued input use the fields of that version.
+        </Text>
+      </View>
+
+      <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+        {versions.length === 0 && (
+          <Text style={styles.emptyText}>No versions yet. A version is created the next time the template is saved.</Text>
+        )}
+        {versions.map(renderVersion)}
+      </ScrollView>
+
+      {adminPinModal}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: 50,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  backButton: {
+    marginRight: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4299e1',
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#2d3748',
+    marginRight: 60,
+  },
+  infoContainer: {
+    backgroundColor: '#e8f4f8',
+    padding: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#bee3f8',
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#4a5568',
+    lineHeight: 16,
+  },
+  list: {
+    flex: 1,
+    padding: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  versionItem: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  currentVersionItem: {
+    borderColor: '#48bb78',
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  versionTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#2d3748',
+  },
+  currentBadge: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: 'white',
+    backgroundColor: '#48bb78',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  versionDetail: {
+    fontSize: 12,
+    color: '#718096',
+    marginBottom: 4,
+  },
+  changeText: {
+    fontSize: 12,
+    color: '#4a5568',
+    lineHeight: 16,
+  },
+  versionActions: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 8,
+  },
+  compareButton: {
+    flex: 1,
+    backgroundColor: '#4299e1',
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  rollBackButton: {
+    flex: 1,
+    backgroundColor: '#ed8936',
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  comparisonContainer: {
+    marginTop: 8,
+    padding: 8,
+    backgroundColor: '#f7fafc',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  comparisonTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Alert, ActivityIndicator, useWindowDimensions } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import Constants from 'expo-constants';
+import QRCode from 'react-native-qrcode-svg';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { encodeTemplateQrCodes } from '@/storage/qrCodes';
+import { createTemplateFile } from '@/storage/templateFiles';
+import { getTemplate } from '@/storage/templates';
+
+// How long each code of a series is shown before moving on to the next
+const CODE_INTERVAL_MS = 1500;
+
+export default function TemplateQrScreen() {
+  const { templateId } = useLocalSearchParams();
+  const { width } = useWindowDimensions();
+  const [templateName, setTemplateName] = useState('');
+  const [codes, setCodes] = useState<string[]>([]);
+  const [codeIndex, setCodeIndex] = useState(0);
+  const [isCycling, setIsCycling] = useState(true);
+
+  useEffect(() => {
+    const loadCodes = async () => {
+      try {
+        const template = await getTemplate(String(templateId));
+        if (!template) {
+          Alert.alert('Error', 'Template not found');
+          router.back();
+          return;
+        }
+        const appVersion = Constants.expoConfig?.version || '';
+        setTemplateName(template.name);
+        setCodes(await encodeTemplateQrCodes(createTemplateFile([template], appVersion)));
+      } catch (error) {
+        console.error('Error creating QR codes:', error);
+        Alert.alert('Error', 'Failed to create the QR codes');
+      }
+    };
+    loadCodes();
+  }, [templateId]);
+
+  // Cycle through the series so the scanning device can pick up every code without anyone touching this one
+  useEffect(() => {
+    if (!isCycling || codes.length < 2) return;
+    const timer = setInterval(() => {
+      setCodeIndex(index => (index + 1) % codes.length);
+    }, CODE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isCycling, codes.length]);
+
+  const showCode = (index: number) => {
+    setIsCycling(false);
+    setCodeIndex((index + codes.length) % codes.length);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <ThemedText type="title" style={styles.title}>Share by QR</ThemedText>
+      </View>
+
+      <View style={styles.infoContainer}>
+        <Text style={styles.infoText}>
+          On the other device, open Settings, tap &quot;Scan Template QR Code&quot; and point the camera at this screen
+          until every code has been scanned.
+        </Text>
+      </View>
+
+      <View style={styles.codeContainer}>
+        {codes.length === 0 ? (
+          <ActivityIndicator color="#4299e1" />
+        ) : (
+          <>
+            <Text style={styles.templateName}>{templateName}</Text>
+            <View style={styles.qrFrame}>
+              <QRCode value={codes[codeIndex]} size={Math.min(width - 64, 360)} ecl="M" />
+            </View>
+            <Text style={styles.codeCounter}>Code {codeIndex + 1} of {codes.length}</Text>
+
+            {codes.length > 1 && (
+              <View style={styles.controls}>
+                <TouchableOpacity style={styles.controlButton} onPress={() => showCode(codeIndex - 1)}>
+                  <Text style={styles.controlButtonText}>◀ Previous</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.controlButton} onPress={() => setIsCycling(!isCycling)}>
+                  <Text style={styles.controlButtonText}>{isCycling ? '⏸ Pause' : '▶ Play'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.controlButton} onPress={() => showCode(codeIndex + 1)}>
+                  <Text style={styles.controlButtonText}>Next ▶</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </>
+        )}
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: 50,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  backButton: {
+    marginRight: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4299e1',
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#2d3748',
+    marginRight: 60,
+  },
+  infoContainer: {
+    backgroundColor: '#e8f4f8',
+    padding: 10,
+    marginHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#bee3f8',
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#4a5568',
+    lineHeight: 16,
+  },
+  codeContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  templateName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    marginBottom: 12,
+  },
+  qrFrame: {
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 8,
+  },
+  codeCounter: {
+    fontSize: 16,
+    color: '#4a5568',
+    marginTop: 12,
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  controlButton: {
+    backgroundColor: '#4299e1',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+  },
+  controlButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, TextInput } from 'react-native';
+import { unlockAdmin } from '@/storage/admin';
+
+type AdminPinModalProps = {
+  visible: boolean;
+  onCancel: () => void;
+  onUnlocked: () => void;
+};
+
+export function AdminPinModal({ visible, onCancel, onUnlocked }: AdminPinModalProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+
+  const close = () => {
+    setPin('');
+    setError('');
+  };
+
+  const submit = async () => {
+    let isUnlocked: boolean;
+    try {
+      isUnlocked = await unlockAdmin(pin);
+    } catch (error) {
+      console.error('Error checking admin PIN:', error);
+      setError('The PIN could not be checked. Please try again.');
+      return;
+    }
+    if (isUnlocked) {
+      close();
+      onUnlocked();
+    } else {
+      setPin('');
+      setError('Wrong PIN. Please try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>🔒 Admin PIN Required</Text>
+          <Text style={styles.message}>Managing templates and deleting data files is limited to admins.</Text>
+          <TextInput
+            style={styles.pinInput}
+            value={pin}
+            onChangeText={(text) => setPin(text.replace(/\D/g, ''))}
+            placeholder="PIN"
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={8}
+            autoFocus
+            onSubmitEditing={submit}
+          />
+          {!!error && <Text style={styles.error}>{error}</Text>}
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => {
+                close();
+                onCancel();
+              }}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.unlockButton} onPress={submit}>
+              <Text style={styles.unlockButtonText}>Unlock</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    width: '85%',
+    maxWidth: 400,
+    gap: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2d3748',
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 14,
+    color: '#4a5568',
+    textAlign: 'center',
+  },
+  pinInput: {
+    borderWidth: 1,
+    borderColor: '#cbd5e0',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 20,
+    textAlign: 'center',
+    letterSpacing: 6,
+  },
+  error: {
+    fontSize: 13,
+    color: '#e53e3e',
+    textAlign: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#e2e8f0',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#4a5568',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  unlockButton: {
+    flex: 1,
+    backgroundColor: '#4299e1',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  unlockButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Alert } from 'react-native';
+import { AdminPinModal } from '@/components/AdminPinModal';
+import { isAdminLocked } from '@/storage/admin';
+
+/**
+ * Runs admin-only actions straight away while admin mode is unlocked (or no PIN is set) and asks for the
+ * PIN first otherwise. Render `adminPinModal` once in the screen.
+ */
+export function useAdminGuard() {
+  const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
+
+  const requireAdmin = async (action: () => void) => {
+    let isLocked: boolean;
+    try {
+      isLocked = await isAdminLocked();
+    } catch (error) {
+      // Without readable settings there is no way to tell whether a PIN is set, so admin actions stay blocked
+      console.error('Error checking admin mode:', error);
+      Alert.alert('Error', 'The settings could not be read, so admin actions are unavailable.');
+      return;
+    }
+    if (isLocked) {
+      setPendingAction(() => action);
+    } else {
+      action();
+    }
+  };
+
+  const adminPinModal = (
+    <AdminPinModal
+      visible={pendingAction !== null}
+      onCancel={() => setPendingAction(null)}
+      onUnlocked={() => {
+        const action = pendingAction;
+        setPendingAction(null);
+        action?.();
+      }}
+    />
+  );
+
+  return { requireAdmin, adminPinModal };
+}
@@ -0,0 +1,57 @@
+import { notify } from './events';
+import { loadSettings, updateSettings } from './settings';
+
+// With an admin PIN set, managing templates and deleting data files needs the PIN; using templates and
+// scanning do not. Entering the PIN unlocks admin mode for a while on this device.
+export const ADMIN_PIN_PATTERN = /^\d{4,8}$/;
+
+// How long admin mode stays unlocked after the PIN was entered
+const ADMIN_SESSION_MS = 10 * 60 * 1000;
+
+let unlockedUntil = 0;
+
+// The PIN is stored hashed so it cannot be read from the settings file or a backup. A short PIN keeps
+// operators out of template management; it is not meant to withstand a determined attacker.
+const hashPin = (pin: string): string => {
+  let hash = 0x811c9dc5;
+  for (const char of `barcode2file-admin:${pin}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+export const isAdminPinSet = async (): Promise<boolean> => !!(await loadSettings()).adminPinHash;
+
+// True if admin actions need the PIN right now
+export const isAdminLocked = async (): Promise<boolean> =>
+  Date.now() >= unlockedUntil && await isAdminPinSet();
+
+// Returns false if the PIN is wrong
+export const unlockAdmin = async (pin: string): Promise<boolean> => {
+  if (hashPin(pin) !== (await loadSettings()).adminPinHash) {
+    return false;
+  }
+  unlockedUntil = Date.now() + ADMIN_SESSION_MS;
+  notify('settings');
+  return true;
+};
+
+export const lockAdmin = () => {
+  unlockedUntil = 0;
+  notify('settings');
+};
+
+// Setting or changing the PIN leaves admin mode unlocked for the person who just chose it
+export const setAdminPin = async (pin: string) => {
+  if (!ADMIN_PIN_PATTERN.test(pin)) {
+    throw new Error('The PIN must be 4 to 8 digits');
+  }
+  await updateSettings({ adminPinHash: hashPin(pin) });
+  unlockedUntil = Date.now() + ADMIN_SESSION_MS;
+};
+
+export const removeAdminPin = async () => {
+  await updateSettings({ adminPinHash: undefined });
+  unlockedUntil = 0;
+};
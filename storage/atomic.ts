@@ -0,0 +1,11 @@
+import * as FileSystem from 'expo-file-system';
+
+export const getTempUri = (uri: string) => `${uri}.tmp`;
+
+// Write to a temporary file first and then move it over the target, so an interrupted
+// write leaves either the old or the new content on disk, never a truncated file
+export const writeAtomically = async (uri: string, content: string) => {
+  const tempUri = getTempUri(uri);
+  await FileSystem.writeAsStringAsync(tempUri, content);
+  await FileSystem.moveAsync({ from: tempUri, to: uri });
+};
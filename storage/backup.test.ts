@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BACKUP_ARCHIVE_TYPE, parseBackupArchive, restoreBackupArchive } from './backup';
+import { appendRecords, clearRecords, loadRecords } from './records';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+import { DEFAULT_APP_SETTINGS, loadSettings, saveSettings } from './settings';
+import { loadTemplates, saveTemplates } from './templates';
+import { DataRecord, Template } from './types';
+import { TemplateVersion, restoreTemplateVersions } from './versions';
+
+jest.mock('./lookups', () => ({ restoreLookupTableData: jest.fn() }));
+jest.mock('./photos', () => ({ writeArchivedPhotos: jest.fn() }));
+
+jest.mock('./records', () => ({
+  ...jest.requireActual<typeof import('./records')>('./records'),
+  appendRecords: jest.fn(),
+  clearRecords: jest.fn(),
+  loadRecords: jest.fn()
+}));
+
+jest.mock('./settings', () => ({
+  ...jest.requireActual<typeof import('./settings')>('./settings'),
+  loadSettings: jest.fn(),
+  saveSettings: jest.fn()
+}));
+
+jest.mock('./templates', () => ({
+  ...jest.requireActual<typeof import('./templates')>('./templates'),
+  loadTemplates: jest.fn(),
+  saveTemplates: jest.fn(),
+  trashTemplate: jest.fn()
+}));
+
+jest.mock('./versions', () => ({
+  ...jest.requireActual<typeof import('./versions')>('./versions'),
+  restoreTemplateVersions: jest.fn()
+}));
+
+const template: Template = {
+  id: 'inbound',
+  name: 'Inbound',
+  description: '',
+  fields: [{ id: 'code', name: 'Code', type: 'barcode', required: true }],
+  csvExportSettings: {
+    includeHeader: true,
+    delimiter: 'comma',
+    fieldPositions: { code: 0 },
+    fileExtension: 'csv',
+    includeQuotes: true
+  },
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  version: 3
+};
+
+const firstVersion: TemplateVersion = {
+  templateId: 'inbound',
+  version: 1,
+  savedAt: new Date('2024-01-01T00:00:00.000Z'),
+  template: { ...template, fields: [{ id: 'sku', name: 'SKU', type: 'barcode', required: true }], version: 1 }
+};
+
+const record: DataRecord = {
+  id: '1',
+  templateId: 'inbound',
+  templateName: 'Inbound',
+  templateVersion: 1,
+  data: { sku: '4006381333931' },
+  timestamp: new Date('2024-03-05T10:00:00.000Z'),
+  dataFileName: 'Dock 4'
+};
+
+const createArchive = (archive: object) => parseBackupArchive(JSON.stringify({
+  archiveType: BACKUP_ARCHIVE_TYPE,
+  archiveVersion: 3,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  createdAt: '2024-03-06T00:00:00.000Z',
+  appVersion: '1.0.17',
+  templates: [template],
+  records: [record],
+  settings: {},
+  ...archive
+}));
+
+// The template as it ends up on this device, where it is already at version 5
+let savedTemplates: Template[] = [];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  savedTemplates = [];
+  jest.mocked(loadTemplates).mockImplementation(async () => savedTemplates);
+  jest.mocked(saveTemplates).mockImplementation(async templates => {
+    savedTemplates = templates.map(t => ({ ...t, version: 5 }));
+  });
+  jest.mocked(loadRecords).mockResolvedValue([]);
+  jest.mocked(appendRecords).mockResolvedValue();
+  jest.mocked(clearRecords).mockResolvedValue();
+  jest.mocked(loadSettings).mockResolvedValue(DEFAULT_APP_SETTINGS);
+  jest.mocked(saveSettings).mockResolvedValue();
+});
+
+describe('template versions in backups', () => {
+  it('restores the version history before the templates, so records keep their version', async () => {
+    jest.mocked(restoreTemplateVersions).mockResolvedValue(new Set(['inbound']));
+    const archive = createArchive({ templateVersions: [firstVersion] });
+    expect(archive.templateVersions).toEqual([firstVersion]);
+
+    await restoreBackupArchive(archive, 'replace');
+    expect(restoreTemplateVersions).toHaveBeenCalledWith([firstVersion], true);
+    expect(jest.mocked(restoreTemplateVersions).mock.invocationCallOrder[0])
+      .toBeLessThan(jest.mocked(saveTemplates).mock.invocationCallOrder[0]);
+    expect(appendRecords).toHaveBeenCalledWith([record]);
+  });
+
+  it('moves records to the restored version of their template when the archive has no history', async () => {
+    jest.mocked(restoreTemplateVersions).mockResolvedValue(new Set());
+    const archive = createArchive({ archiveVersion: 2 });
+    expect(archive.templateVersions).toEqual([]);
+
+    await restoreBackupArchive(archive, 'replace');
+    expect(appendRecords).toHaveBeenCalledWith([{ ...record, templateVersion: 5 }]);
+  });
+
+  it('keeps the local history of templates that are already on the device when merging', async () => {
+    savedTemplates = [{ ...template, version: 5 }];
+    jest.mocked(restoreTemplateVersions).mockResolvedValue(new Set());
+
+    await restoreBackupArchive(createArchive({ templateVersions: [firstVersion] }), 'merge');
+    expect(restoreTemplateVersions).toHaveBeenCalledWith([], false);
+    expect(appendRecords).toHaveBeenCalledWith([{ ...record, templateVersion: 5 }]);
+  });
+});
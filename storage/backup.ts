@@ -0,0 +1,205 @@
+import * as FileSystem from 'expo-file-system';
+import { LookupTableData, loadLookupTableData, loadLookupTables, restoreLookupTableData } from './lookups';
+import { ArchivedPhoto, readRecordPhotos, writeArchivedPhotos } from './photos';
+import { appendRecords, clearRecords, loadRecords, reviveRecord } from './records';
+import { CURRENT_SCHEMA_VERSION, migrateItems } from './schema';
+import { AppSettings, DEFAULT_APP_SETTINGS, loadSettings, saveSettings } from './settings';
+import { loadTemplates, reviveTemplate, saveTemplates, trashTemplate } from './templates';
+import { DataRecord, Template } from './types';
+import { TemplateVersion, loadAllTemplateVersions, restoreTemplateVersions } from './versions';
+
+// A backup archive is a single JSON file holding everything needed to move a device's state to another
+// phone. CSV export settings (export profiles) travel inside each template and each template-less record.
+export const BACKUP_ARCHIVE_TYPE = 'barcode2file-backup';
+
+// Bump when the archive layout itself changes; the data inside is versioned by schemaVersion.
+// Version 2 added the photos and lookup tables, version 3 the template version history.
+export const BACKUP_ARCHIVE_VERSION = 3;
+
+export interface BackupArchive {
+  archiveType: typeof BACKUP_ARCHIVE_TYPE;
+  archiveVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  appVersion: string;
+  templates: Template[];
+  // Earlier versions of the templates, which the records' templateVersion numbers refer to
+  templateVersions: TemplateVersion[];
+  records: DataRecord[];
+  settings: AppSettings;
+  // Lookup tables keep their ids so the templates' lookups still point at them
+  lookupTables: LookupTableData[];
+  // Photos of the records; left out of automatic snapshots, which stay on the device next to the photos
+  photos: ArchivedPhoto[];
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreSummary {
+  templatesAdded: number;
+  templatesSkipped: number;
+  recordsAdded: number;
+  recordsSkipped: number;
+}
+
+export const createBackupArchive = async (appVersion: string, includePhotos = true): Promise<BackupArchive> => {
+  const [templates, records, settings] = await Promise.all([loadTemplates(), loadRecords(), loadSettings()]);
+  const templateVersions = (await loadAllTemplateVersions()).filter(v => templates.some(t => t.id === v.templateId));
+  const lookupTables: LookupTableData[] = [];
+  for (const table of await loadLookupTables()) {
+    const data = await loadLookupTableData(table.id);
+    if (data) {
+      lookupTables.push(data);
+    }
+  }
+  const photos = includePhotos ? await readRecordPhotos(records) : [];
+  return {
+    archiveType: BACKUP_ARCHIVE_TYPE,
+    archiveVersion: BACKUP_ARCHIVE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    appVersion,
+    templates,
+    templateVersions,
+    records,
+    settings,
+    lookupTables,
+    photos
+  };
+};
+
+export const getBackupFileName = (createdAt: Date) => {
+  const stamp = createdAt.toISOString().replace(/[-:]/g, '').replace('T', '_').slice(0, 15);
+  return `barcode2file_backup_${stamp}.json`;
+};
+
+// Write a full backup archive into the given directory and return its uri
+export const writeBackupArchive = async (directory: string, appVersion: string): Promise<string> => {
+  const archive = await createBackupArchive(appVersion);
+  const uri = directory + getBackupFileName(new Date(archive.createdAt));
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(archive));
+  return uri;
+};
+
+// The versions hold templates of the archive's schema, so they are migrated like the current templates
+const parseTemplateVersions = (versions: any[], schemaVersion: number): TemplateVersion[] => {
+  const templates = migrateItems('templates', versions.map(v => v.template), schemaVersion).items.map(reviveTemplate);
+  return versions.map((version, index) => ({
+    templateId: version.templateId,
+    version: Number(version.version),
+    savedAt: new Date(version.savedAt),
+    template: templates[index]
+  }));
+};
+
+// Validate an archive and bring its templates and records up to the current schema
+export const parseBackupArchive = (content: string): BackupArchive => {
+  let parsedData: any;
+  try {
+    parsedData = JSON.parse(content);
+  } catch {
+    throw new Error('The selected file is not a valid backup archive');
+  }
+
+  if (parsedData?.archiveType !== BACKUP_ARCHIVE_TYPE || !Array.isArray(parsedData.templates) || !Array.isArray(parsedData.records)) {
+    throw new Error('The selected file is not a Barcode2File backup archive');
+  }
+  const archiveVersion = Number(parsedData.archiveVersion);
+  const schemaVersion = Number(parsedData.schemaVersion) || 1;
+  if (archiveVersion > BACKUP_ARCHIVE_VERSION || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was created by a newer version of the app');
+  }
+
+  return {
+    ...parsedData,
+    archiveVersion,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    templates: migrateItems('templates', parsedData.templates, schemaVersion).items.map(reviveTemplate),
+    templateVersions: Array.isArray(parsedData.templateVersions)
+      ? parseTemplateVersions(parsedData.templateVersions, schemaVersion)
+      : [],
+    records: migrateItems('records', parsedData.records, schemaVersion).items.map(reviveRecord),
+    settings: { ...DEFAULT_APP_SETTINGS, ...parsedData.settings },
+    lookupTables: Array.isArray(parsedData.lookupTables) ? parsedData.lookupTables : [],
+    photos: Array.isArray(parsedData.photos) ? parsedData.photos : []
+  };
+};
+
+export const readBackupArchive = async (uri: string): Promise<BackupArchive> =>
+  parseBackupArchive(await FileSystem.readAsStringAsync(uri));
+
+// Record ids come from Date.now() and can repeat, so identity also includes the file and capture time
+const getRecordKey = (record: DataRecord) =>
+  `${record.id}|${record.dataFileName || ''}|${record.timestamp.getTime()}`;
+
+// Records of a template whose history could not be restored (older archives, or a template that already has
+// its own history on this device) would point at unrelated local versions, so they move to the version the
+// template was restored as
+const bindRecordsToRestoredVersions = async (records: DataRecord[], restoredHistory: Set<string>) => {
+  const templates = await loadTemplates();
+  return records.map(record => {
+    const template = templates.find(t => t.id === record.templateId);
+    return template && !restoredHistory.has(record.templateId)
+      ? { ...record, templateVersion: template.version }
+      : record;
+  });
+};
+
+// Replace: current records and any template not in the archive go to the recycle bin, then the archive
+// contents and settings take their place. Merge: only templates and records not already on the device
+// are added, and local settings are kept.
+export const restoreBackupArchive = async (archive: BackupArchive, mode: RestoreMode): Promise<RestoreSummary> => {
+  const currentTemplates = await loadTemplates();
+  // Lookup tables and photos go back first so no restored template or record points at something missing.
+  // Replace brings back the archived contents of each table; merge keeps tables already on the device.
+  for (const table of archive.lookupTables) {
+    await restoreLookupTableData(table, mode === 'replace');
+  }
+  await writeArchivedPhotos(archive.photos);
+
+  if (mode === 'replace') {
+    await clearRecords();
+    for (const template of currentTemplates.filter(t => !archive.templates.some(a => a.id === t.id))) {
+      await trashTemplate(template);
+    }
+    // The history goes back before the templates, so saving them does not add a version of its own
+    const restoredHistory = await restoreTemplateVersions(
+      archive.templateVersions.filter(v => archive.templates.some(t => t.id === v.templateId)),
+      true
+    );
+    await saveTemplates(archive.templates);
+    await appendRecords(await bindRecordsToRestoredVersions(archive.records, restoredHistory));
+    // The admin PIN stays as it is on this device; an older archive must not remove or replace it
+    await saveSettings({ ...archive.settings, adminPinHash: (await loadSettings()).adminPinHash });
+
+    return {
+      templatesAdded: archive.templates.length,
+      templatesSkipped: 0,
+      recordsAdded: archive.records.length,
+      recordsSkipped: 0
+    };
+  }
+
+  const existingNames = new Set(currentTemplates.map(t => t.name.toLowerCase()));
+  const newTemplates = archive.templates
+    .filter(template => !currentTemplates.some(t => t.id === template.id))
+    .map(template => existingNames.has(template.name.toLowerCase())
+      ? { ...template, name: `${template.name} (restored)` }
+      : template);
+  const restoredHistory = await restoreTemplateVersions(
+    archive.templateVersions.filter(v => newTemplates.some(t => t.id === v.templateId)),
+    false
+  );
+  await saveTemplates([...currentTemplates, ...newTemplates]);
+
+  const existingRecordKeys = new Set((await loadRecords()).map(getRecordKey));
+  const newRecords = archive.records.filter(record => !existingRecordKeys.has(getRecordKey(record)));
+  await appendRecords(await bindRecordsToRestoredVersions(newRecords, restoredHistory));
+
+  return {
+    templatesAdded: newTemplates.length,
+    templatesSkipped: archive.templates.length - newTemplates.length,
+    recordsAdded: newRecords.length,
+    recordsSkipped: archive.records.length - newRecords.length
+  };
+};
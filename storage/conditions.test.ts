@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { clearHiddenValues, describeConditions, getVisibleFieldIds, isFieldRequired } from './conditions';
+import { CHECKBOX_CHECKED, TemplateField } from './types';
+
+const fields: TemplateField[] = [
+  { id: 'damaged', name: 'Damaged', type: 'checkbox', required: false },
+  {
+    id: 'reason',
+    name: 'Reason',
+    type: 'choice',
+    required: true,
+    options: ['Dented', 'Wet'],
+    visibleWhen: [{ fieldId: 'damaged', operator: 'equals', value: CHECKBOX_CHECKED }]
+  },
+  {
+    id: 'notes',
+    name: 'Notes',
+    type: 'free_text',
+    required: true,
+    visibleWhen: [{ fieldId: 'reason', operator: 'is_not_empty', value: '' }],
+    requiredWhen: [{ fieldId: 'reason', operator: 'equals', value: 'wet ' }]
+  }
+];
+
+describe('getVisibleFieldIds', () => {
+  it('hides fields whose conditions do not hold, including fields depending on hidden ones', () => {
+    expect([...getVisibleFieldIds(fields, { damaged: 'false', reason: 'Wet' })]).toEqual(['damaged']);
+    expect([...getVisibleFieldIds(fields, { damaged: CHECKBOX_CHECKED, reason: 'Wet' })])
+      .toEqual(['damaged', 'reason', 'notes']);
+  });
+});
+
+describe('isFieldRequired', () => {
+  it('only requires visible fields whose required conditions hold, ignoring case and spaces', () => {
+    const data = { damaged: CHECKBOX_CHECKED, reason: 'WET' };
+    const visibleFieldIds = getVisibleFieldIds(fields, data);
+    expect(isFieldRequired(fields[2], data, visibleFieldIds)).toBe(true);
+
+    const dentedData = { ...data, reason: 'Dented' };
+    expect(isFieldRequired(fields[2], dentedData, getVisibleFieldIds(fields, dentedData))).toBe(false);
+
+    const hiddenData = { damaged: 'false', reason: 'Wet' };
+    expect(isFieldRequired(fields[1], hiddenData, getVisibleFieldIds(fields, hiddenData))).toBe(false);
+  });
+});
+
+describe('clearHiddenValues', () => {
+  it('empties values of hidden fields', () => {
+    expect(clearHiddenValues(fields, { damaged: 'false', reason: 'Wet', notes: 'Left out in the rain' }))
+      .toEqual({ damaged: 'false', reason: '', notes: '' });
+  });
+});
+
+describe('describeConditions', () => {
+  it('names the source fields and values', () => {
+    expect(describeConditions(fields[1].visibleWhen!, fields)).toBe('Damaged equals checked');
+    expect(describeConditions([...fields[2].visibleWhen!, ...fields[2].requiredWhen!], fields))
+      .toBe('Reason is not empty and Reason equals "wet "');
+    expect(describeConditions([{ fieldId: 'gone', operator: 'is_empty', value: '' }], fields))
+      .toBe('(deleted field) is empty');
+  });
+});
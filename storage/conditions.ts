@@ -0,0 +1,104 @@
+import { CHECKBOX_CHECKED, ConditionOperator, FieldCondition, TemplateField, isFixedField } from './types';
+
+export const CONDITION_OPERATORS: { label: string; value: ConditionOperator }[] = [
+  { label: 'equals', value: 'equals' },
+  { label: 'does not equal', value: 'not_equals' },
+  { label: 'contains', value: 'contains' },
+  { label: 'is empty', value: 'is_empty' },
+  { label: 'is not empty', value: 'is_not_empty' },
+];
+
+export const operatorNeedsValue = (operator: ConditionOperator) => operator !== 'is_empty' && operator !== 'is_not_empty';
+
+// Values are compared without regard to case or surrounding spaces, so "damaged" matches the option "Damaged"
+const evaluateCondition = (condition: FieldCondition, value: string): boolean => {
+  const actual = value.trim().toLowerCase();
+  const expected = condition.value.trim().toLowerCase();
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'contains':
+      return actual.includes(expected);
+    case 'is_empty':
+      return actual === '';
+    default:
+      return actual !== '';
+  }
+};
+
+// All conditions must hold; a field without conditions always passes. A hidden field counts as empty.
+const conditionsHold = (
+  conditions: FieldCondition[] | undefined,
+  data: { [fieldId: string]: string },
+  hiddenFieldIds: Set<string>
+) => (conditions || []).every(condition =>
+  evaluateCondition(condition, hiddenFieldIds.has(condition.fieldId) ? '' : data[condition.fieldId] || ''));
+
+// The editor only offers earlier fields as condition sources, so a single pass in template order settles
+// whether each source is hidden before it is used
+const getHiddenFieldIds = (fields: TemplateField[], data: { [fieldId: string]: string }): Set<string> => {
+  const hiddenFieldIds = new Set<string>();
+  fields.forEach(field => {
+    if (!conditionsHold(field.visibleWhen, data, hiddenFieldIds)) {
+      hiddenFieldIds.add(field.id);
+    }
+  });
+  return hiddenFieldIds;
+};
+
+export const getVisibleFieldIds = (fields: TemplateField[], data: { [fieldId: string]: string }): Set<string> => {
+  const hiddenFieldIds = getHiddenFieldIds(fields, data);
+  return new Set(fields.filter(field => !hiddenFieldIds.has(field.id)).map(field => field.id));
+};
+
+export const isFieldRequired = (
+  field: TemplateField,
+  data: { [fieldId: string]: string },
+  visibleFieldIds: Set<string>
+): boolean => {
+  if (!field.required || !visibleFieldIds.has(field.id)) {
+    return false;
+  }
+  const hiddenFieldIds = new Set(Object.keys(data).filter(fieldId => !visibleFieldIds.has(fieldId)));
+  return conditionsHold(field.requiredWhen, data, hiddenFieldIds);
+};
+
+// Hidden fields are saved and exported empty, whatever was entered before they were hidden
+export const clearHiddenValues = (
+  fields: TemplateField[],
+  data: { [fieldId: string]: string }
+): { [fieldId: string]: string } => {
+  const clearedData = { ...data };
+  getHiddenFieldIds(fields, data).forEach(fieldId => {
+    if (fieldId in clearedData) {
+      clearedData[fieldId] = '';
+    }
+  });
+  return clearedData;
+};
+
+// Fields a condition of the field at `fieldIndex` may refer to: earlier fields, and for fixed fields only earlier
+// fixed fields since those are entered on a page of their own
+export const getConditionSourceFields = (
+  fields: TemplateField[],
+  fieldIndex: number | null,
+  field: Pick<TemplateField, 'type'>
+): TemplateField[] =>
+  (fieldIndex !== null ? fields.slice(0, fieldIndex) : fields)
+    .filter(source => source.type !== 'photo' && (!isFixedField(field) || isFixedField(source)));
+
+// Checkbox values are stored as CHECKBOX_CHECKED / CHECKBOX_UNCHECKED
+export const formatConditionValue = (sourceField: TemplateField | undefined, value: string) =>
+  sourceField?.type === 'checkbox' ? (value === CHECKBOX_CHECKED ? 'checked' : 'unchecked') : `"${value}"`;
+
+export const describeConditions = (conditions: FieldCondition[], fields: TemplateField[]): string =>
+  conditions.map(condition => {
+    const sourceField = fields.find(field => field.id === condition.fieldId);
+    const operatorLabel = CONDITION_OPERATORS.find(operator => operator.value === condition.operator)?.label;
+    const description = `${sourceField?.name || '(deleted field)'} ${operatorLabel}`;
+    return operatorNeedsValue(condition.operator)
+      ? `${description} ${formatConditionValue(sourceField, condition.value)}`
+      : description;
+  }).join(' and ');
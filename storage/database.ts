@@ -0,0 +1,192 @@
+import * as FileSystem from 'expo-file-system';
+import * as SQLite from 'expo-sqlite';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+
+// Records live in SQLite so that listing files, counting records and searching values use indexes
+// instead of loading every record into memory. Child rows are deleted explicitly rather than through
+// cascading foreign keys, which would need a pragma on every connection (exclusive transactions open their own).
+export const RECORDS_DATABASE_NAME = 'records.db';
+
+// Snapshot of the database taken at a launch that passed the integrity check
+const LAST_GOOD_DATABASE_NAME = 'records.last-good.db';
+
+// The last good copy is refreshed at most once a day, so a large database is not copied on every launch.
+// Records saved since then are also covered by the automatic snapshots, and a recovery reports the copy's age.
+const LAST_GOOD_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// expo-sqlite keeps databases in the SQLite folder of the document directory
+const getDatabaseUri = (databaseName: string) => `${FileSystem.documentDirectory}SQLite/${databaseName}`;
+
+// Schema version of the record payloads stored in the database
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+const CREATE_SCHEMA = `
+  PRAGMA journal_mode = WAL;
+
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS data_files (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE
+  );
+
+  -- Record ids come from Date.now() and are not guaranteed unique, so rows are keyed by row_id
+  CREATE TABLE IF NOT EXISTS records (
+    row_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL,
+    file_id INTEGER NOT NULL,
+    template_id TEXT NOT NULL,
+    template_name TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    template_deleted INTEGER NOT NULL DEFAULT 0,
+    payload TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS records_file_timestamp ON records (file_id, timestamp);
+  CREATE INDEX IF NOT EXISTS records_template ON records (template_id);
+  CREATE INDEX IF NOT EXISTS records_id ON records (id);
+
+  CREATE TABLE IF NOT EXISTS field_values (
+    record_row_id INTEGER NOT NULL,
+    field_id TEXT NOT NULL,
+    value TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (record_row_id, field_id)
+  );
+  CREATE INDEX IF NOT EXISTS field_values_value ON field_values (value);
+  CREATE INDEX IF NOT EXISTS field_values_field_value ON field_values (field_id, value);
+
+  -- Recycle bin; payload holds the deleted records and/or template as JSON
+  CREATE TABLE IF NOT EXISTS trash (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    label TEXT NOT NULL,
+    deleted_at INTEGER NOT NULL,
+    record_count INTEGER NOT NULL,
+    payload TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS trash_deleted_at ON trash (deleted_at);
+
+  -- Master data imported from CSV; columns holds the header names, each row's first column is its code
+  CREATE TABLE IF NOT EXISTS lookup_tables (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL UNIQUE,
+    columns TEXT NOT NULL,
+    imported_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS lookup_rows (
+    table_id TEXT NOT NULL,
+    code TEXT NOT NULL COLLATE NOCASE,
+    row_values TEXT NOT NULL,
+    PRIMARY KEY (table_id, code)
+  );
+
+  -- Immutable snapshots of every saved template change; payload holds the template as JSON
+  CREATE TABLE IF NOT EXISTS template_versions (
+    template_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    saved_at INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (template_id, version)
+  );
+`;
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const openRecordDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabaseAsync(RECORDS_DATABASE_NAME);
+  await db.execAsync(CREATE_SCHEMA);
+  // A newly created database starts at the current version; an existing one keeps the version it was written with
+  await db.runAsync('INSERT OR IGNORE INTO meta (key, value) VALUES (?, ?)', [
+    SCHEMA_VERSION_KEY,
+    String(CURRENT_SCHEMA_VERSION)
+  ]);
+  return db;
+};
+
+export const getRecordDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openRecordDatabase().catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+export const closeRecordDatabase = async () => {
+  const pendingDatabase = databasePromise;
+  databasePromise = null;
+  if (pendingDatabase) {
+    await pendingDatabase.then(db => db.closeAsync(), () => undefined);
+  }
+};
+
+// True if the database opens and SQLite's own consistency check passes
+export const checkRecordDatabase = async (): Promise<boolean> => {
+  try {
+    const db = await getRecordDatabase();
+    const row = await db.getFirstAsync<{ quick_check: string }>('PRAGMA quick_check');
+    return row?.quick_check === 'ok';
+  } catch (error) {
+    console.error('Record database check failed:', error);
+    return false;
+  }
+};
+
+export const isLastGoodRecordDatabaseStale = async (): Promise<boolean> => {
+  const lastGoodInfo = await FileSystem.getInfoAsync(getDatabaseUri(LAST_GOOD_DATABASE_NAME));
+  return !lastGoodInfo.exists || Date.now() - lastGoodInfo.modificationTime * 1000 > LAST_GOOD_MAX_AGE_MS;
+};
+
+export const saveLastGoodRecordDatabase = async () => {
+  const db = await getRecordDatabase();
+  const lastGoodDb = await SQLite.openDatabaseAsync(LAST_GOOD_DATABASE_NAME);
+  try {
+    await SQLite.backupDatabaseAsync({ sourceDatabase: db, destDatabase: lastGoodDb });
+  } finally {
+    await lastGoodDb.closeAsync();
+  }
+};
+
+// Move the damaged database aside (returning where it was kept) and replace it with the last good
+// snapshot if there is one. Returns whether a snapshot was restored and when it was taken.
+export const restoreLastGoodRecordDatabase = async (): Promise<{
+  restored: boolean;
+  damagedCopyUri: string;
+  copiedAt?: Date;
+}> => {
+  await closeRecordDatabase();
+
+  const damagedCopyUri = getDatabaseUri(`records.damaged-${Date.now()}.db`);
+  const databaseInfo = await FileSystem.getInfoAsync(getDatabaseUri(RECORDS_DATABASE_NAME));
+  if (databaseInfo.exists) {
+    await FileSystem.copyAsync({ from: getDatabaseUri(RECORDS_DATABASE_NAME), to: damagedCopyUri });
+    await SQLite.deleteDatabaseAsync(RECORDS_DATABASE_NAME);
+  }
+
+  const lastGoodInfo = await FileSystem.getInfoAsync(getDatabaseUri(LAST_GOOD_DATABASE_NAME));
+  if (!lastGoodInfo.exists) {
+    return { restored: false, damagedCopyUri };
+  }
+
+  const db = await getRecordDatabase();
+  const lastGoodDb = await SQLite.openDatabaseAsync(LAST_GOOD_DATABASE_NAME);
+  try {
+    await SQLite.backupDatabaseAsync({ sourceDatabase: lastGoodDb, destDatabase: db });
+  } finally {
+    await lastGoodDb.closeAsync();
+  }
+  return { restored: true, damagedCopyUri, copiedAt: new Date(lastGoodInfo.modificationTime * 1000) };
+};
+
+export const getMetaValue = async (db: SQLite.SQLiteDatabase, key: string): Promise<string | null> => {
+  const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', [key]);
+  return row ? row.value : null;
+};
+
+export const setMetaValue = async (db: SQLite.SQLiteDatabase, key: string, value: string) => {
+  await db.runAsync('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, value]);
+};
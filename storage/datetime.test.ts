@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatStoredValue, formatWithTokens, getFieldPattern, parseStoredValue, toStoredValue } from './datetime';
+import { TemplateField } from './types';
+
+const field = (overrides: Partial<TemplateField>): TemplateField =>
+  ({ id: 'when', name: 'When', type: 'date', required: false, ...overrides });
+
+const date = new Date(2024, 2, 5, 14, 7, 9);
+
+describe('formatWithTokens', () => {
+  it('fills in every token', () => {
+    expect(formatWithTokens(date, 'yyyy yy MMMM MMM MM dd')).toBe('2024 24 March Mar 03 05');
+    expect(formatWithTokens(date, 'HH:mm:ss H hh h a')).toBe('14:07:09 14 02 2 PM');
+    expect(formatWithTokens(new Date(2024, 0, 1, 0, 30), 'hh:mm a')).toBe('12:30 AM');
+  });
+});
+
+describe('stored values', () => {
+  it('round trips each field type', () => {
+    expect(toStoredValue(date, 'date')).toBe('2024-03-05');
+    expect(toStoredValue(date, 'time')).toBe('14:07:09');
+    expect(toStoredValue(date, 'datetime')).toBe('2024-03-05 14:07:09');
+    expect(parseStoredValue('2024-03-05 14:07:09', 'datetime')).toEqual(date);
+  });
+
+  it('rejects values that are not real dates', () => {
+    expect(parseStoredValue('2024-02-30', 'date')).toBeNull();
+    expect(parseStoredValue('05.03.2024', 'date')).toBeNull();
+  });
+});
+
+describe('formatStoredValue', () => {
+  it('uses the field pattern', () => {
+    expect(formatStoredValue('2024-03-05', field({}))).toBe('2024-03-05');
+    expect(formatStoredValue('2024-03-05', field({ dateFormat: 'dd/MM/yyyy' }))).toBe('05/03/2024');
+    expect(formatStoredValue('14:07:09', field({ type: 'time', timeFormat: 'h:mm a' }))).toBe('2:07 PM');
+    expect(formatStoredValue('2024-03-05 14:07:09', field({ type: 'datetime', dateFormat: 'dd MMM yyyy' })))
+      .toBe('05 Mar 2024 14:07');
+  });
+
+  it('leaves time tokens in custom date formats as literal text', () => {
+    const custom = field({ dateFormat: 'custom', customDateFormat: 'day dd, mm a' });
+    expect(formatStoredValue('2024-03-05', custom)).toBe('day 05, mm a');
+
+    const customDateTime = field({
+      type: 'fixed_datetime',
+      dateFormat: 'custom',
+      customDateFormat: 'yyyy a',
+      timeFormat: 'hh:mm a'
+    });
+    expect(getFieldPattern(customDateTime)).toBe('yyyy a hh:mm a');
+    expect(formatStoredValue('2024-03-05 14:07:09', customDateTime)).toBe('2024 a 02:07 PM');
+  });
+
+  it('renders month names and two-digit years in custom date formats', () => {
+    expect(formatStoredValue('2024-03-05', field({ dateFormat: 'custom', customDateFormat: 'dd-MMM-yy' })))
+      .toBe('05-Mar-24');
+    expect(formatStoredValue('2024-03-05', field({ dateFormat: 'custom', customDateFormat: 'MMMM yyyy' })))
+      .toBe('March 2024');
+  });
+
+  it('returns values that cannot be read unchanged', () => {
+    expect(formatStoredValue('soon', field({}))).toBe('soon');
+    expect(formatStoredValue('', field({}))).toBe('');
+  });
+});
@@ -0,0 +1,122 @@
+import { FieldType, TemplateField } from './types';
+
+// Date and time values are stored in fixed formats and only formatted with the field's tokens for display
+// and export. Tokens: yyyy yy MMMM MMM MM dd (date), HH H (24-hour), hh h (12-hour), mm ss, a (AM/PM).
+const STORED_DATE_PATTERN = 'yyyy-MM-dd';
+const STORED_TIME_PATTERN = 'HH:mm:ss';
+
+export const TIME_FORMAT_OPTIONS = [
+  { label: 'HH:mm (e.g., 14:30)', value: 'HH:mm' },
+  { label: 'HH:mm:ss (e.g., 14:30:05)', value: 'HH:mm:ss' },
+  { label: 'hh:mm a (e.g., 02:30 PM)', value: 'hh:mm a' },
+  { label: 'hh:mm:ss a (e.g., 02:30:05 PM)', value: 'hh:mm:ss a' },
+  { label: 'h:mm a (e.g., 2:30 PM)', value: 'h:mm a' },
+];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const TOKEN_PATTERN = /yyyy|yy|MMMM|MMM|MM|dd|HH|H|hh|h|mm|ss|a/g;
+// Date formats only ever had date tokens; other letters in them, e.g. the `a` of a custom format, stay literal
+const DATE_TOKEN_PATTERN = /yyyy|yy|MMMM|MMM|MM|dd/g;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const hasTimePart = (type: FieldType) => type === 'time' || type === 'datetime' || type === 'fixed_datetime';
+
+export const hasDatePart = (type: FieldType) =>
+  type === 'date' || type === 'fixed_date' || type === 'datetime' || type === 'fixed_datetime';
+
+export const isDateTimeField = (field: TemplateField) => hasDatePart(field.type) || hasTimePart(field.type);
+
+export const formatWithTokens = (date: Date, pattern: string, tokenPattern: RegExp = TOKEN_PATTERN): string =>
+  pattern.replace(tokenPattern, token => {
+    const hours12 = date.getHours() % 12 || 12;
+    switch (token) {
+      case 'yyyy': return String(date.getFullYear());
+      case 'yy': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return MONTH_NAMES[date.getMonth()];
+      case 'MMM': return MONTH_NAMES[date.getMonth()].slice(0, 3);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'dd': return pad(date.getDate());
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'hh': return pad(hours12);
+      case 'h': return String(hours12);
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      default: return date.getHours() < 12 ? 'AM' : 'PM';
+    }
+  });
+
+// The date picker stores 'YYYY-MM-DD' as its default format name, which in tokens is yyyy-MM-dd
+const getDatePattern = (field: TemplateField): string => {
+  if (field.dateFormat === 'custom') {
+    return field.customDateFormat || STORED_DATE_PATTERN;
+  }
+  return !field.dateFormat || field.dateFormat === 'YYYY-MM-DD' ? STORED_DATE_PATTERN : field.dateFormat;
+};
+
+const getTimePattern = (field: TemplateField): string => {
+  if (field.timeFormat === 'custom') {
+    return field.customTimeFormat || 'HH:mm';
+  }
+  return field.timeFormat || 'HH:mm';
+};
+
+// The pattern a field's value is displayed and exported with
+export const getFieldPattern = (field: TemplateField): string => {
+  if (!hasTimePart(field.type)) {
+    return getDatePattern(field);
+  }
+  return hasDatePart(field.type) ? `${getDatePattern(field)} ${getTimePattern(field)}` : getTimePattern(field);
+};
+
+const getStoredPattern = (type: FieldType): string => {
+  if (!hasTimePart(type)) {
+    return STORED_DATE_PATTERN;
+  }
+  return hasDatePart(type) ? `${STORED_DATE_PATTERN} ${STORED_TIME_PATTERN}` : STORED_TIME_PATTERN;
+};
+
+export const toStoredValue = (date: Date, type: FieldType): string => formatWithTokens(date, getStoredPattern(type));
+
+// Read a stored value back; time-only values are placed on today's date. Returns null if it does not match.
+export const parseStoredValue = (value: string, type: FieldType): Date | null => {
+  const datePart = hasDatePart(type) ? '(\\d{4})-(\\d{2})-(\\d{2})' : '';
+  const timePart = hasTimePart(type) ? '(\\d{2}):(\\d{2})(?::(\\d{2}))?' : '';
+  const match = new RegExp(`^${[datePart, timePart].filter(Boolean).join(' ')}$`).exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const numbers = match.slice(1).map(part => Number(part || 0));
+  const today = new Date();
+  const [year, month, day] = hasDatePart(type)
+    ? numbers.splice(0, 3)
+    : [today.getFullYear(), today.getMonth() + 1, today.getDate()];
+  const [hours, minutes, seconds] = hasTimePart(type) ? numbers : [0, 0, 0];
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  const isValid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day &&
+    date.getHours() === hours && date.getMinutes() === minutes;
+  return isValid ? date : null;
+};
+
+// Format a date with the field's pattern; the date part only uses date tokens
+export const formatFieldDate = (date: Date, field: TemplateField): string => {
+  const dateText = formatWithTokens(date, getDatePattern(field), DATE_TOKEN_PATTERN);
+  if (!hasTimePart(field.type)) {
+    return dateText;
+  }
+  const timeText = formatWithTokens(date, getTimePattern(field));
+  return hasDatePart(field.type) ? `${dateText} ${timeText}` : timeText;
+};
+
+// Format a stored value with the field's pattern; values that cannot be read are returned unchanged
+export const formatStoredValue = (value: string, field: TemplateField): string => {
+  const date = value ? parseStoredValue(value, field.type) : null;
+  return date ? formatFieldDate(date, field) : value;
+};
@@ -0,0 +1,44 @@
+import { isDateTimeField, toStoredValue } from './datetime';
+import { TemplateField, isAutomaticField, isFixedField } from './types';
+
+// Default values may contain tokens that are filled in whenever a record is started, e.g. `Box {recordCount+1}`.
+// Unknown tokens are left as they are.
+export const DEFAULT_VALUE_TOKENS = [
+  { token: '{today}', description: "today's date" },
+  { token: '{now}', description: 'the current date and time' },
+  { token: '{lastValue}', description: "the field's value in the previous record" },
+  { token: '{fileName}', description: 'the data file name' },
+  { token: '{operator}', description: 'the operator name from Settings' },
+  { token: '{recordCount+1}', description: 'the number of this record in the data file' }
+];
+
+const TOKEN_PATTERN = /\{(today|now|lastValue|fileName|operator|recordCount\+1)\}/g;
+
+export interface DefaultValueContext {
+  now: Date;
+  // Values of the previous record in the data file; empty for the first record
+  lastValues: { [fieldId: string]: string };
+  fileName: string;
+  operator: string;
+  // Records already in the data file
+  recordCount: number;
+}
+
+export const hasDefaultValueTokens = (value: string) => new RegExp(TOKEN_PATTERN.source).test(value);
+
+// Variable fields that are typed or picked can keep their value from one record to the next
+export const canCarryForward = (field: Pick<TemplateField, 'type' | 'autoStamp'>) =>
+  !isFixedField(field) && !isAutomaticField(field) && field.type !== 'photo';
+
+// The field's default value with the tokens filled in; dates and times are in their stored format
+export const resolveDefaultValue = (field: TemplateField, context: DefaultValueContext): string =>
+  (field.defaultValue || '').replace(TOKEN_PATTERN, (_, token: string) => {
+    switch (token) {
+      case 'today': return toStoredValue(context.now, 'date');
+      case 'now': return toStoredValue(context.now, isDateTimeField(field) ? field.type : 'datetime');
+      case 'lastValue': return context.lastValues[field.id] || '';
+      case 'fileName': return context.fileName;
+      case 'operator': return context.operator;
+      default: return String(context.recordCount + 1);
+    }
+  });
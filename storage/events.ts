@@ -0,0 +1,23 @@
+export type StorageChange = 'templates' | 'records' | 'trash' | 'settings' | 'lookups';
+
+type Listener = (change: StorageChange) => void;
+
+const listeners = new Set<Listener>();
+
+// Subscribe to storage writes; returns an unsubscribe function for use in effect cleanups
+export const subscribe = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notify = (change: StorageChange) => {
+  listeners.forEach(listener => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('Error in storage listener:', error);
+    }
+  });
+};
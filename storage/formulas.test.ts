@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { computeFieldValues, renameFormulaReferences, validateFormula } from './formulas';
+import { TemplateField } from './types';
+
+const field = (id: string, name: string, overrides: Partial<TemplateField> = {}): TemplateField =>
+  ({ id, name, type: 'free_text', required: false, ...overrides });
+
+const computed = (id: string, formula: string) => field(id, id, { type: 'computed', formula });
+
+describe('validateFormula', () => {
+  const fields = [field('qty', 'Quantity'), field('pack', 'Pack Size')];
+
+  it('accepts formulas that only refer to known fields', () => {
+    expect(validateFormula('{Quantity} * {pack size}', fields)).toBeNull();
+    expect(validateFormula('round({Quantity} / 3, 2) & " pcs"', fields)).toBeNull();
+  });
+
+  it('reports unknown fields, functions and syntax errors', () => {
+    expect(validateFormula('   ', fields)).toBe('Please enter a formula.');
+    expect(validateFormula('{Weight} * 2', fields)).toBe('There is no field named "Weight" before this one.');
+    expect(validateFormula('sum({Quantity})', fields)).toBe('Unknown function "sum"');
+    expect(validateFormula('left({Quantity})', fields)).toBe('Use left(text, count)');
+    expect(validateFormula('{Quantity', fields)).toBe('A field reference is missing its closing }');
+    expect(validateFormula('({Quantity} + 1', fields)).toBe('Expected ")"');
+    expect(validateFormula('{Quantity} 2', fields)).toBe('Unexpected text after the end of the formula');
+  });
+});
+
+describe('renameFormulaReferences', () => {
+  it('rewrites references to the renamed field only', () => {
+    expect(renameFormulaReferences('{ quantity } * {Pack Size}', 'Quantity', 'Count'))
+      .toBe('{Count} * {Pack Size}');
+  });
+});
+
+describe('computeFieldValues', () => {
+  const compute = (formula: string, data: { [fieldId: string]: string } = {}) => {
+    const fields = [field('a', 'A'), field('b', 'B'), computed('result', formula)];
+    return computeFieldValues(fields, data).result;
+  };
+
+  it('follows operator precedence', () => {
+    expect(compute('1 + 2 * 3')).toBe('7');
+    expect(compute('(1 + 2) * 3')).toBe('9');
+    expect(compute('-{A} + 10', { a: '4' })).toBe('6');
+    expect(compute('{A} & "-" & {B} + 1', { a: 'Box', b: '2' })).toBe('Box-3');
+  });
+
+  it('drops floating point noise', () => {
+    expect(compute('0.1 + 0.2')).toBe('0.3');
+  });
+
+  it('evaluates text and number functions', () => {
+    expect(compute('upper(left({A}, 3))', { a: 'pallet' })).toBe('PAL');
+    expect(compute('right({A}, 2) & mid({A}, 2, 3)', { a: 'pallet' })).toBe('etall');
+    expect(compute('len(trim({A}))', { a: '  box  ' })).toBe('3');
+    expect(compute('round({A}, 1)', { a: '2.46' })).toBe('2.5');
+  });
+
+  it('calculates with dates', () => {
+    expect(compute('addDays({A}, 30)', { a: '2024-01-15' })).toBe('2024-02-14');
+    expect(compute('daysBetween({A}, {B})', { a: '2024-02-27', b: '2024-03-02' })).toBe('4');
+  });
+
+  it('leaves the value empty while it cannot be evaluated', () => {
+    expect(compute('{A} * 2')).toBe('');
+    expect(compute('{A} / {B}', { a: '1', b: '0' })).toBe('');
+    expect(compute('addDays({A}, 1)', { a: '15.01.2024' })).toBe('');
+  });
+
+  it('lets a formula use earlier computed fields', () => {
+    const fields = [field('a', 'A'), computed('double', '{A} * 2'), computed('total', '{double} + 1')];
+    expect(computeFieldValues(fields, { a: '5' })).toEqual({ a: '5', double: '10', total: '11' });
+  });
+});
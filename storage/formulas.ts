@@ -0,0 +1,322 @@
+import { TemplateField } from './types';
+
+// Formulas for computed fields. Fields are referenced by name in braces, e.g. `{Quantity} * {Pack Size}`.
+// Operators: + - * / on numbers and & to join text. Dates are YYYY-MM-DD, as stored by date fields.
+export const FORMULA_FUNCTIONS: { [name: string]: { minArgs: number; maxArgs: number; usage: string } } = {
+  left: { minArgs: 2, maxArgs: 2, usage: 'left(text, count)' },
+  right: { minArgs: 2, maxArgs: 2, usage: 'right(text, count)' },
+  mid: { minArgs: 2, maxArgs: 3, usage: 'mid(text, start, count)' },
+  len: { minArgs: 1, maxArgs: 1, usage: 'len(text)' },
+  upper: { minArgs: 1, maxArgs: 1, usage: 'upper(text)' },
+  lower: { minArgs: 1, maxArgs: 1, usage: 'lower(text)' },
+  trim: { minArgs: 1, maxArgs: 1, usage: 'trim(text)' },
+  round: { minArgs: 1, maxArgs: 2, usage: 'round(number, decimals)' },
+  today: { minArgs: 0, maxArgs: 0, usage: 'today()' },
+  addDays: { minArgs: 2, maxArgs: 2, usage: 'addDays(date, days)' },
+  daysBetween: { minArgs: 2, maxArgs: 2, usage: 'daysBetween(from, to)' },
+};
+
+export class FormulaError extends Error {}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; name: string }
+  | { kind: 'name'; name: string }
+  | { kind: 'symbol'; symbol: string };
+
+type FormulaNode =
+  | { kind: 'literal'; value: number | string }
+  | { kind: 'field'; name: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+type FormulaValue = number | string;
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '{') {
+      const end = expression.indexOf('}', index);
+      if (end < 0) {
+        throw new FormulaError('A field reference is missing its closing }');
+      }
+      tokens.push({ kind: 'field', name: expression.slice(index + 1, end).trim() });
+      index = end + 1;
+    } else if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, index + 1);
+      if (end < 0) {
+        throw new FormulaError('A text value is missing its closing quote');
+      }
+      tokens.push({ kind: 'text', value: expression.slice(index + 1, end) });
+      index = end + 1;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+/.exec(expression.slice(index));
+      if (!match) {
+        throw new FormulaError('A number is not written correctly');
+      }
+      tokens.push({ kind: 'number', value: Number(match[0]) });
+      index += match[0].length;
+    } else if (/[A-Za-z]/.test(char)) {
+      const match = /^[A-Za-z]+/.exec(expression.slice(index))!;
+      tokens.push({ kind: 'name', name: match[0] });
+      index += match[0].length;
+    } else if ('+-*/&(),'.includes(char)) {
+      tokens.push({ kind: 'symbol', symbol: char });
+      index += 1;
+    } else {
+      throw new FormulaError(`Unexpected character "${char}"`);
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent: & binds loosest, then + and -, then * and /, then unary minus
+const parse = (expression: string): FormulaNode => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peekSymbol = (...symbols: string[]) => {
+    const token = tokens[position];
+    return token?.kind === 'symbol' && symbols.includes(token.symbol) ? token.symbol : null;
+  };
+
+  const expectSymbol = (symbol: string) => {
+    if (!peekSymbol(symbol)) {
+      throw new FormulaError(`Expected "${symbol}"`);
+    }
+    position += 1;
+  };
+
+  const parseBinary = (operators: string[], parseOperand: () => FormulaNode) => (): FormulaNode => {
+    let node = parseOperand();
+    let operator = peekSymbol(...operators);
+    while (operator) {
+      position += 1;
+      node = { kind: 'binary', operator, left: node, right: parseOperand() };
+      operator = peekSymbol(...operators);
+    }
+    return node;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position];
+    if (!token) {
+      throw new FormulaError('The formula ends unexpectedly');
+    }
+    position += 1;
+
+    switch (token.kind) {
+      case 'number':
+      case 'text':
+        return { kind: 'literal', value: token.value };
+      case 'field':
+        return { kind: 'field', name: token.name };
+      case 'name': {
+        const definition = FORMULA_FUNCTIONS[token.name];
+        if (!definition) {
+          throw new FormulaError(`Unknown function "${token.name}"`);
+        }
+        expectSymbol('(');
+        const args: FormulaNode[] = [];
+        if (!peekSymbol(')')) {
+          args.push(parseConcat());
+          while (peekSymbol(',')) {
+            position += 1;
+            args.push(parseConcat());
+          }
+        }
+        expectSymbol(')');
+        if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+          throw new FormulaError(`Use ${definition.usage}`);
+        }
+        return { kind: 'call', name: token.name, args };
+      }
+      case 'symbol':
+        if (token.symbol === '(') {
+          const node = parseConcat();
+          expectSymbol(')');
+          return node;
+        }
+        if (token.symbol === '-') {
+          return { kind: 'negate', operand: parsePrimary() };
+        }
+        throw new FormulaError(`Unexpected "${token.symbol}"`);
+    }
+  };
+
+  const parseTerm = parseBinary(['*', '/'], parsePrimary);
+  const parseSum = parseBinary(['+', '-'], parseTerm);
+  const parseConcat = parseBinary(['&'], parseSum);
+
+  const root = parseConcat();
+  if (position < tokens.length) {
+    throw new FormulaError('Unexpected text after the end of the formula');
+  }
+  return root;
+};
+
+const collectFieldNames = (node: FormulaNode): string[] => {
+  switch (node.kind) {
+    case 'field':
+      return [node.name];
+    case 'negate':
+      return collectFieldNames(node.operand);
+    case 'binary':
+      return [...collectFieldNames(node.left), ...collectFieldNames(node.right)];
+    case 'call':
+      return node.args.flatMap(collectFieldNames);
+    default:
+      return [];
+  }
+};
+
+const findField = (fields: TemplateField[], name: string) =>
+  fields.find(field => field.name.trim().toLowerCase() === name.toLowerCase());
+
+const toNumber = (value: FormulaValue): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const number = Number(value.trim());
+  if (value.trim() === '' || isNaN(number)) {
+    throw new FormulaError(`"${value}" is not a number`);
+  }
+  return number;
+};
+
+const toDate = (value: FormulaValue): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value));
+  if (!match) {
+    throw new FormulaError(`"${value}" is not a date`);
+  }
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Drop floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+const formatNumber = (value: number): string => String(parseFloat(value.toFixed(10)));
+
+const toText = (value: FormulaValue): string => typeof value === 'number' ? formatNumber(value) : value;
+
+const callFunction = (name: string, args: FormulaValue[]): FormulaValue => {
+  switch (name) {
+    case 'left':
+      return toText(args[0]).slice(0, Math.max(0, toNumber(args[1])));
+    case 'right':
+      return toText(args[0]).slice(Math.max(0, toText(args[0]).length - toNumber(args[1])));
+    case 'mid': {
+      const start = Math.max(0, toNumber(args[1]) - 1);
+      return args.length > 2
+        ? toText(args[0]).slice(start, start + Math.max(0, toNumber(args[2])))
+        : toText(args[0]).slice(start);
+    }
+    case 'len':
+      return toText(args[0]).length;
+    case 'upper':
+      return toText(args[0]).toUpperCase();
+    case 'lower':
+      return toText(args[0]).toLowerCase();
+    case 'trim':
+      return toText(args[0]).trim();
+    case 'round': {
+      const factor = Math.pow(10, args.length > 1 ? toNumber(args[1]) : 0);
+      return Math.round(toNumber(args[0]) * factor) / factor;
+    }
+    case 'today':
+      return formatDate(new Date());
+    case 'addDays': {
+      const date = toDate(args[0]);
+      date.setDate(date.getDate() + toNumber(args[1]));
+      return formatDate(date);
+    }
+    case 'daysBetween':
+      return Math.round((toDate(args[1]).getTime() - toDate(args[0]).getTime()) / (24 * 60 * 60 * 1000));
+    default:
+      throw new FormulaError(`Unknown function "${name}"`);
+  }
+};
+
+const evaluate = (node: FormulaNode, fields: TemplateField[], data: { [fieldId: string]: string }): FormulaValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field': {
+      const field = findField(fields, node.name);
+      if (!field) {
+        throw new FormulaError(`There is no field named "${node.name}"`);
+      }
+      return data[field.id] ?? '';
+    }
+    case 'negate':
+      return -toNumber(evaluate(node.operand, fields, data));
+    case 'call':
+      return callFunction(node.name, node.args.map(arg => evaluate(arg, fields, data)));
+    case 'binary': {
+      const left = evaluate(node.left, fields, data);
+      const right = evaluate(node.right, fields, data);
+      switch (node.operator) {
+        case '&':
+          return toText(left) + toText(right);
+        case '+':
+          return toNumber(left) + toNumber(right);
+        case '-':
+          return toNumber(left) - toNumber(right);
+        case '*':
+          return toNumber(left) * toNumber(right);
+        default:
+          if (toNumber(right) === 0) {
+            throw new FormulaError('Division by zero');
+          }
+          return toNumber(left) / toNumber(right);
+      }
+    }
+  }
+};
+
+// Check a formula in the template editor. `fields` are the fields it may refer to; returns an error message or null.
+export const validateFormula = (expression: string, fields: TemplateField[]): string | null => {
+  if (!expression.trim()) {
+    return 'Please enter a formula.';
+  }
+  try {
+    const missingName = collectFieldNames(parse(expression)).find(name => !findField(fields, name));
+    return missingName !== undefined ? `There is no field named "${missingName}" before this one.` : null;
+  } catch (error) {
+    return error instanceof FormulaError ? error.message : 'The formula could not be read.';
+  }
+};
+
+// Names in braces are matched to fields when the formula runs, so renaming a field must rewrite its references
+export const renameFormulaReferences = (expression: string, oldName: string, newName: string): string =>
+  expression.replace(/\{([^}]*)\}/g, (reference, name: string) =>
+    name.trim().toLowerCase() === oldName.trim().toLowerCase() ? `{${newName}}` : reference);
+
+// Fill in every computed field from the other values, in template order so a formula can use earlier
+// computed fields. A formula that cannot be evaluated yet (e.g. an input is still empty) yields ''.
+export const computeFieldValues = (
+  fields: TemplateField[],
+  data: { [fieldId: string]: string }
+): { [fieldId: string]: string } => {
+  const computedData = { ...data };
+  fields.filter(field => field.type === 'computed').forEach(field => {
+    try {
+      computedData[field.id] = toText(evaluate(parse(field.formula || ''), fields, computedData));
+    } catch (error) {
+      computedData[field.id] = '';
+      if (!(error instanceof FormulaError)) {
+        console.error(`Error computing ${field.name}:`, error);
+      }
+    }
+  });
+  return computedData;
+};
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { checkDataIntegrity, repairDataIntegrity } from './integrity';
+import { StoredRecord, loadStoredRecords, updateStoredRecords } from './records';
+import { loadTemplates } from './templates';
+import { DataRecord, Template } from './types';
+
+jest.mock('./records', () => ({
+  ...jest.requireActual<typeof import('./records')>('./records'),
+  loadStoredRecords: jest.fn(),
+  updateStoredRecords: jest.fn()
+}));
+
+jest.mock('./templates', () => ({
+  ...jest.requireActual<typeof import('./templates')>('./templates'),
+  loadTemplates: jest.fn()
+}));
+
+const template: Template = {
+  id: 'inbound-2',
+  name: 'Inbound',
+  description: '',
+  fields: [{ id: 'code', name: 'Code', type: 'barcode', required: true }],
+  csvExportSettings: {
+    includeHeader: true,
+    delimiter: 'comma',
+    fieldPositions: { code: 0 },
+    fileExtension: 'csv',
+    includeQuotes: true
+  },
+  createdAt: new Date('2024-01-01T00:00:00.000Z')
+};
+
+const record = (id: string, data: { [fieldId: string]: string }): DataRecord => ({
+  id,
+  templateId: 'inbound-1',
+  templateName: 'Inbound',
+  data,
+  timestamp: new Date('2024-03-05T10:00:00.000Z'),
+  dataFileName: 'Dock 4'
+});
+
+const storedRecords: StoredRecord[] = [
+  { rowId: 1, record: record('1', { code: '4006381333931' }) },
+  { rowId: 2, record: record('2', { 'old-code': '96385074', 'old-qty': '3' }) }
+];
+
+beforeEach(() => {
+  jest.mocked(loadTemplates).mockResolvedValue([template]);
+  jest.mocked(loadStoredRecords).mockResolvedValue(storedRecords);
+  jest.mocked(updateStoredRecords).mockResolvedValue();
+});
+
+describe('orphaned records', () => {
+  it('only offers to reattach records that share fields with a template', async () => {
+    const { issues } = await checkDataIntegrity();
+    expect(issues.map(issue => [issue.rowId, issue.kind, issue.fixable])).toEqual([
+      [1, 'orphaned_record', true],
+      [2, 'orphaned_record', false]
+    ]);
+  });
+
+  it('keeps the values of records that match a template by name only', async () => {
+    expect(await repairDataIntegrity()).toBe(1);
+    expect(updateStoredRecords).toHaveBeenCalledWith([
+      { rowId: 1, record: { ...storedRecords[0].record, templateId: 'inbound-2', templateVersion: undefined } }
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+import { isDateTimeField, parseStoredValue } from './datetime';
+import { StoredRecord, getRecordFileName, loadStoredRecords, updateStoredRecords } from './records';
+import { loadTemplates, resolveRecordTemplateVersion } from './templates';
+import { DataRecord, Template } from './types';
+
+export type IntegrityIssueKind =
+  | 'orphaned_record'
+  | 'unknown_fields'
+  | 'malformed_date'
+  | 'duplicate_id'
+  | 'duplicate_template';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  // Data file the record belongs to; template problems are grouped under TEMPLATES_GROUP
+  group: string;
+  message: string;
+  rowId?: number;
+  fixable: boolean;
+}
+
+export interface IntegrityReport {
+  checkedTemplates: number;
+  checkedRecords: number;
+  issues: IntegrityIssue[];
+}
+
+export const TEMPLATES_GROUP = 'Templates';
+
+// The template sharing the most field ids with an orphaned record, if any field matches at all. A template
+// with the same name but none of the record's fields would drop all of its values on repair, so names do not count.
+const findTemplateForRecord = (templates: Template[], record: DataRecord): Template | undefined => {
+  const dataKeys = Object.keys(record.data);
+  let bestTemplate: Template | undefined;
+  let bestMatches = 0;
+
+  templates.forEach(template => {
+    const matches = dataKeys.filter(key => template.fields.some(field => field.id === key)).length;
+    if (matches > bestMatches) {
+      bestTemplate = template;
+      bestMatches = matches;
+    }
+  });
+
+  return bestTemplate;
+};
+
+// Records are checked against the template version they were captured with, so values of fields that were
+// removed or renamed later are not mistaken for stray data. Each version is loaded once.
+const createTemplateResolver = (templates: Template[]) => {
+  const versions = new Map<string, Promise<Template | undefined>>();
+  return (record: DataRecord): Promise<Template | undefined> => {
+    // Records of deleted templates each carry their own snapshot of the fields
+    if (!templates.some(template => template.id === record.templateId)) {
+      return resolveRecordTemplateVersion(templates, record);
+    }
+    const key = `${record.templateId}:${record.templateVersion ?? ''}`;
+    if (!versions.has(key)) {
+      versions.set(key, resolveRecordTemplateVersion(templates, record));
+    }
+    return versions.get(key)!;
+  };
+};
+
+const describeRecord = (record: DataRecord) =>
+  `Record ${record.id} (${record.timestamp.toLocaleDateString()} ${record.timestamp.toLocaleTimeString()})`;
+
+const checkRecords = async (templates: Template[], storedRecords: StoredRecord[]): Promise<IntegrityIssue[]> => {
+  const issues: IntegrityIssue[] = [];
+  const seenIds = new Set<string>();
+  const resolveTemplate = createTemplateResolver(templates);
+
+  for (const { rowId, record } of storedRecords) {
+    const group = getRecordFileName(record);
+    const template = await resolveTemplate(record);
+
+    if (!template) {
+      const candidate = findTemplateForRecord(templates, record);
+      issues.push({
+        kind: 'orphaned_record',
+        group,
+        rowId,
+        message: candidate
+          ? `${describeRecord(record)} uses a missing template "${record.templateName}"; it can be reattached to "${candidate.name}"`
+          : `${describeRecord(record)} uses a missing template "${record.templateName}" and no matching template was found`,
+        fixable: candidate !== undefined
+      });
+    } else {
+      const unknownKeys = Object.keys(record.data).filter(key => !template.fields.some(field => field.id === key));
+      if (unknownKeys.length > 0) {
+        issues.push({
+          kind: 'unknown_fields',
+          group,
+          rowId,
+          message: `${describeRecord(record)} has ${unknownKeys.length} value(s) that match no field of "${template.name}"`,
+          fixable: true
+        });
+      }
+
+      template.fields
+        .filter(field => isDateTimeField(field) && record.data[field.id])
+        .filter(field => !parseStoredValue(record.data[field.id], field.type))
+        .forEach(field => {
+          issues.push({
+            kind: 'malformed_date',
+            group,
+            rowId,
+            message: `${describeRecord(record)} has an invalid date "${record.data[field.id]}" in "${field.name}"`,
+            fixable: false
+          });
+        });
+    }
+
+    if (seenIds.has(record.id)) {
+      issues.push({
+        kind: 'duplicate_id',
+        group,
+        rowId,
+        message: `${describeRecord(record)} shares its id with another record`,
+        fixable: true
+      });
+    }
+    seenIds.add(record.id);
+  }
+
+  return issues;
+};
+
+const checkTemplates = (templates: Template[]): IntegrityIssue[] => {
+  const seenIds = new Set<string>();
+  const issues: IntegrityIssue[] = [];
+
+  templates.forEach(template => {
+    if (seenIds.has(template.id)) {
+      issues.push({
+        kind: 'duplicate_template',
+        group: TEMPLATES_GROUP,
+        message: `Template "${template.name}" shares its id with another template`,
+        fixable: false
+      });
+    }
+    seenIds.add(template.id);
+  });
+
+  return issues;
+};
+
+export const checkDataIntegrity = async (): Promise<IntegrityReport> => {
+  const [templates, storedRecords] = await Promise.all([loadTemplates(), loadStoredRecords()]);
+  return {
+    checkedTemplates: templates.length,
+    checkedRecords: storedRecords.length,
+    issues: [...checkTemplates(templates), ...await checkRecords(templates, storedRecords)]
+  };
+};
+
+export const groupIssues = (issues: IntegrityIssue[]): { group: string; issues: IntegrityIssue[] }[] => {
+  const groups = new Map<string, IntegrityIssue[]>();
+  issues.forEach(issue => {
+    groups.set(issue.group, [...(groups.get(issue.group) || []), issue]);
+  });
+  return [...groups.entries()].map(([group, groupIssues]) => ({ group, issues: groupIssues }));
+};
+
+// Apply every automatic fix: reattach orphaned records, drop unknown keys and give duplicates new ids.
+// Works from a fresh scan so it never acts on a stale report. Returns the number of records changed.
+export const repairDataIntegrity = async (): Promise<number> => {
+  const [templates, storedRecords] = await Promise.all([loadTemplates(), loadStoredRecords()]);
+  const usedIds = new Set(storedRecords.map(({ record }) => record.id));
+  const seenIds = new Set<string>();
+  let nextId = Date.now();
+  const updates: StoredRecord[] = [];
+  const resolveTemplate = createTemplateResolver(templates);
+
+  for (const { rowId, record } of storedRecords) {
+    let repaired = record;
+
+    let template = await resolveTemplate(repaired);
+    if (!template) {
+      // A reattached record is bound to the current version of its new template
+      template = findTemplateForRecord(templates, repaired);
+      if (template) {
+        repaired = {
+          ...repaired,
+          templateId: template.id,
+          templateName: template.name,
+          templateVersion: template.version
+        };
+      }
+    }
+
+    if (template) {
+      const fields = template.fields;
+      const knownData = Object.fromEntries(
+        Object.entries(repaired.data).filter(([key]) => fields.some(field => field.id === key))
+      );
+      if (Object.keys(knownData).length !== Object.keys(repaired.data).length) {
+        repaired = { ...repaired, data: knownData };
+      }
+    }
+
+    if (seenIds.has(repaired.id)) {
+      while (usedIds.has(String(nextId))) {
+        nextId += 1;
+      }
+      repaired = { ...repaired, id: String(nextId) };
+      usedIds.add(repaired.id);
+    }
+    seenIds.add(repaired.id);
+
+    if (repaired !== record) {
+      updates.push({ rowId, record: repaired });
+    }
+  }
+
+  await updateStoredRecords(updates);
+  return updates.length;
+};
@@ -0,0 +1,218 @@
+import { getRecordDatabase } from './database';
+import { notify } from './events';
+import { LookupTable, TemplateField } from './types';
+
+// Values of one lookup row by column name
+export type LookupRow = { [column: string]: string };
+
+interface LookupTableRow {
+  id: string;
+  name: string;
+  columns: string;
+  imported_at: number;
+  row_count: number;
+}
+
+// Spreadsheet exports use commas, semicolons or tabs depending on the locale; the header row tells which
+const detectDelimiter = (headerLine: string): string => {
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length }));
+  return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+};
+
+// Quoted values may contain delimiters, line breaks and doubled quotes. Blank lines are skipped.
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    value = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        value += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+const toLookupTable = (row: LookupTableRow): LookupTable => ({
+  id: row.id,
+  name: row.name,
+  columns: JSON.parse(row.columns),
+  rowCount: row.row_count,
+  importedAt: new Date(row.imported_at)
+});
+
+export const loadLookupTables = async (): Promise<LookupTable[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<LookupTableRow>(
+    `SELECT lookup_tables.*, (SELECT COUNT(*) FROM lookup_rows WHERE table_id = lookup_tables.id) AS row_count
+     FROM lookup_tables ORDER BY name COLLATE NOCASE`
+  );
+  return rows.map(toLookupTable);
+};
+
+// A lookup table with all its rows, as bundled in template packs
+export interface LookupTableData {
+  id: string;
+  name: string;
+  columns: string[];
+  rows: LookupRow[];
+}
+
+// Store a table under the given name; saving under the name of an existing table replaces its rows but keeps
+// its id, so templates using it pick up the new data. A given id is used as it is.
+const saveLookupTable = async (
+  name: string,
+  columns: string[],
+  rows: LookupRow[],
+  id?: string
+): Promise<LookupTable> => {
+  const db = await getRecordDatabase();
+  const existing = id
+    ? null
+    : await db.getFirstAsync<{ id: string }>('SELECT id FROM lookup_tables WHERE name = ?', [name]);
+  const tableId = id ?? existing?.id ?? Date.now().toString();
+  const importedAt = Date.now();
+
+  await db.withExclusiveTransactionAsync(async txn => {
+    await txn.runAsync('DELETE FROM lookup_rows WHERE table_id = ?', [tableId]);
+    await txn.runAsync(
+      'INSERT OR REPLACE INTO lookup_tables (id, name, columns, imported_at) VALUES (?, ?, ?, ?)',
+      [tableId, name, JSON.stringify(columns), importedAt]
+    );
+    // Rows without a code are skipped; when a code repeats, the last row wins
+    for (const row of rows) {
+      const code = (row[columns[0]] || '').trim();
+      if (!code) continue;
+      await txn.runAsync(
+        'INSERT OR REPLACE INTO lookup_rows (table_id, code, row_values) VALUES (?, ?, ?)',
+        [tableId, code, JSON.stringify(row)]
+      );
+    }
+  });
+  notify('lookups');
+
+  const table = (await loadLookupTables()).find(t => t.id === tableId);
+  if (!table) {
+    throw new Error('The lookup table could not be saved');
+  }
+  return table;
+};
+
+// Import a CSV whose first row names the columns and whose first column holds the codes
+export const importLookupTable = async (name: string, content: string): Promise<LookupTable> => {
+  const rows = parseCsv(content);
+  if (rows.length < 2) {
+    throw new Error('The file needs a header row and at least one row of data');
+  }
+
+  const columns = rows[0].map((column, index) => column.trim() || `Column ${index + 1}`);
+  const duplicateColumn = columns.find((column, index) =>
+    columns.findIndex(other => other.toLowerCase() === column.toLowerCase()) !== index);
+  if (duplicateColumn) {
+    throw new Error(`The column "${duplicateColumn}" appears more than once in the header row`);
+  }
+
+  return saveLookupTable(name, columns, rows.slice(1).map(row => {
+    const values: LookupRow = {};
+    columns.forEach((column, index) => {
+      values[column] = (row[index] || '').trim();
+    });
+    return values;
+  }));
+};
+
+export const loadLookupTableData = async (tableId: string): Promise<LookupTableData | null> => {
+  const table = (await loadLookupTables()).find(t => t.id === tableId);
+  if (!table) {
+    return null;
+  }
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<{ row_values: string }>(
+    'SELECT row_values FROM lookup_rows WHERE table_id = ? ORDER BY code',
+    [tableId]
+  );
+  return { id: table.id, name: table.name, columns: table.columns, rows: rows.map(row => JSON.parse(row.row_values)) };
+};
+
+// Store a table bundled in a template pack under its name; returns the table as stored on this device
+export const importLookupTableData = async (data: LookupTableData): Promise<LookupTable> =>
+  saveLookupTable(data.name, data.columns, data.rows);
+
+// Put a table from a backup archive back under its own id, so restored templates find it again. A table with
+// that id is only replaced when overwrite is set; if another table holds the name, the restored one is renamed.
+// Returns false if the table was kept as it is.
+export const restoreLookupTableData = async (data: LookupTableData, overwrite: boolean): Promise<boolean> => {
+  const tables = await loadLookupTables();
+  if (!overwrite && tables.some(table => table.id === data.id)) {
+    return false;
+  }
+  const nameTaken = tables.some(table => table.id !== data.id && table.name === data.name);
+  await saveLookupTable(nameTaken ? `${data.name} (restored)` : data.name, data.columns, data.rows, data.id);
+  return true;
+};
+
+export const deleteLookupTable = async (tableId: string) => {
+  const db = await getRecordDatabase();
+  await db.withExclusiveTransactionAsync(async txn => {
+    await txn.runAsync('DELETE FROM lookup_rows WHERE table_id = ?', [tableId]);
+    await txn.runAsync('DELETE FROM lookup_tables WHERE id = ?', [tableId]);
+  });
+  notify('lookups');
+};
+
+// Codes are matched ignoring case and surrounding spaces; null if the table has no row for the code
+export const findLookupRow = async (tableId: string, code: string): Promise<LookupRow | null> => {
+  const db = await getRecordDatabase();
+  const row = await db.getFirstAsync<{ row_values: string }>(
+    'SELECT row_values FROM lookup_rows WHERE table_id = ? AND code = ?',
+    [tableId, code.trim()]
+  );
+  return row ? JSON.parse(row.row_values) : null;
+};
+
+// Values for the fields filled from a lookup row, by field id
+export const getLookupFill = (fields: TemplateField[], row: LookupRow): { [fieldId: string]: string } => {
+  const values: { [fieldId: string]: string } = {};
+  fields.filter(field => field.lookupColumn).forEach(field => {
+    values[field.id] = row[field.lookupColumn!] ?? '';
+  });
+  return values;
+};
+
+// Fields that can be filled from a lookup: typed-in values entered per record
+export const canBeFilledFromLookup = (field: Pick<TemplateField, 'type'>) =>
+  field.type === 'free_text' || field.type === 'number';
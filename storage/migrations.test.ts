@@ -0,0 +1,22 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatMigrationReport } from './migrations';
+
+describe('formatMigrationReport', () => {
+  it('lists the steps of each store and where the previous data was kept', () => {
+    expect(formatMigrationReport([
+      {
+        store: 'templates',
+        fromVersion: 1,
+        toVersion: 2,
+        itemCount: 3,
+        backupUri: 'file:///data/templates.v1.backup.json',
+        steps: ['v2: Fill in missing settings']
+      },
+      { store: 'records', fromVersion: 1, toVersion: 2, itemCount: 40, steps: ['v2: Fill in missing settings'] }
+    ])).toBe(
+      'Templates: 3 item(s) upgraded from v1 to v2.\n• v2: Fill in missing settings\n' +
+      'A copy of the previous data was kept as templates.v1.backup.json.\n\n' +
+      'Data records: 40 item(s) upgraded from v1 to v2.\n• v2: Fill in missing settings\n'
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import * as FileSystem from 'expo-file-system';
+import { CURRENT_SCHEMA_VERSION, StoreName, migrateItems, readCurrentItems, readStoreFile, writeStoreFile } from './schema';
+import { TEMPLATES_FILE } from './templates';
+import { DataRecord, Template } from './types';
+import {
+  LEGACY_DATA_RECORDS_FILE,
+  LEGACY_RECORDS_DIRECTORY,
+  getRecordsSchemaVersion,
+  importRecords,
+  loadRecordPayloads,
+  reviveRecord,
+  saveRecords
+} from './records';
+
+export interface MigrationReport {
+  store: StoreName;
+  fromVersion: number;
+  toVersion: number;
+  itemCount: number;
+  backupUri?: string;
+  steps: string[];
+}
+
+const getBackupUri = (uri: string, version: number) => uri.replace(/\.json$/, `.v${version}.backup.json`);
+
+const migrateTemplatesFile = async (): Promise<MigrationReport | null> => {
+  const { exists, version, items } = await readStoreFile(TEMPLATES_FILE, 'templates');
+  if (!exists || version >= CURRENT_SCHEMA_VERSION) {
+    return null;
+  }
+
+  const backupUri = getBackupUri(TEMPLATES_FILE, version);
+  await FileSystem.copyAsync({ from: TEMPLATES_FILE, to: backupUri });
+
+  const { items: migratedItems, steps } = migrateItems('templates', items, version);
+  await writeStoreFile(TEMPLATES_FILE, 'templates', migratedItems);
+
+  return {
+    store: 'templates',
+    fromVersion: version,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    itemCount: migratedItems.length,
+    backupUri,
+    steps,
+  };
+};
+
+// Bring records already in the database up to the current schema
+const migrateRecordDatabase = async (): Promise<MigrationReport | null> => {
+  const version = await getRecordsSchemaVersion();
+  if (version >= CURRENT_SCHEMA_VERSION) {
+    return null;
+  }
+
+  const { items: migratedItems, steps } = migrateItems('records', await loadRecordPayloads(), version);
+  await saveRecords(migratedItems.map(reviveRecord));
+
+  return {
+    store: 'records',
+    fromVersion: version,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    itemCount: migratedItems.length,
+    steps,
+  };
+};
+
+// Move records out of the single dataRecords.json file into the record database
+const migrateLegacyRecordsFile = async (): Promise<MigrationReport | null> => {
+  const { exists, version, items } = await readStoreFile(LEGACY_DATA_RECORDS_FILE, 'records');
+  if (!exists) {
+    return null;
+  }
+
+  const { items: migratedItems, steps } = migrateItems('records', items, version);
+  await importRecords('dataRecords.json', migratedItems.map(reviveRecord));
+
+  // Moving (rather than copying) the old file away marks the conversion as done
+  const backupUri = getBackupUri(LEGACY_DATA_RECORDS_FILE, version);
+  await FileSystem.moveAsync({ from: LEGACY_DATA_RECORDS_FILE, to: backupUri });
+
+  return {
+    store: 'records',
+    fromVersion: version,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    itemCount: migratedItems.length,
+    backupUri,
+    steps: [...steps, 'Moved records into the record database'],
+  };
+};
+
+// Move records out of the segmented journal (records/segment-NNNNNN.json) into the record database
+const migrateRecordJournal = async (): Promise<MigrationReport | null> => {
+  const directoryInfo = await FileSystem.getInfoAsync(LEGACY_RECORDS_DIRECTORY);
+  if (!directoryInfo.exists) {
+    return null;
+  }
+
+  const segmentFiles = (await FileSystem.readDirectoryAsync(LEGACY_RECORDS_DIRECTORY))
+    .filter(fileName => /^segment-\d+\.json$/.test(fileName))
+    .sort();
+
+  let fromVersion = CURRENT_SCHEMA_VERSION;
+  const steps = new Set<string>();
+  const records: DataRecord[] = [];
+  for (const segmentFile of segmentFiles) {
+    const { version, items } = await readStoreFile(LEGACY_RECORDS_DIRECTORY + segmentFile, 'records');
+    const migration = migrateItems('records', items, version);
+    fromVersion = Math.min(fromVersion, version);
+    migration.steps.forEach(step => steps.add(step));
+    records.push(...migration.items.map(reviveRecord));
+  }
+
+  await importRecords('records-journal', records);
+
+  const backupUri = FileSystem.documentDirectory + 'records.journal.backup/';
+  await FileSystem.deleteAsync(backupUri, { idempotent: true });
+  await FileSystem.moveAsync({ from: LEGACY_RECORDS_DIRECTORY, to: backupUri });
+
+  return {
+    store: 'records',
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    itemCount: records.length,
+    backupUri,
+    steps: [...steps, 'Moved records into the record database'],
+  };
+};
+
+// Written by the retired QR scanner screen: a bare array of { data, type, timestamp }
+const LEGACY_SCANNED_DATA_FILE = FileSystem.documentDirectory + 'scannedData.json';
+
+const LEGACY_QR_DATA_FILE_NAME = 'QR Scans (Legacy)';
+
+// Template generated for converted QR scanner data; a frozen snapshot like the schema migration steps
+const LEGACY_QR_TEMPLATE: Template = {
+  id: 'legacy-qr-scanner',
+  name: 'QR Scanner (Legacy)',
+  description: 'Created from data saved by the old QR scanner screen',
+  fields: [
+    { id: 'legacy-qr-name', name: 'Name', type: 'free_text', required: false, defaultValue: '', options: [] },
+    { id: 'legacy-qr-type', name: 'Code Type', type: 'free_text', required: false, defaultValue: '', options: [] },
+    { id: 'legacy-qr-data', name: 'Code Data', type: 'barcode', required: true, defaultValue: '', options: [] }
+  ],
+  csvExportSettings: {
+    includeHeader: true,
+    delimiter: 'comma',
+    customDelimiter: '',
+    fieldPositions: { 'legacy-qr-name': 1, 'legacy-qr-type': 2, 'legacy-qr-data': 3 },
+    fileExtension: 'csv',
+    includeQuotes: true
+  },
+  createdAt: new Date('2025-08-01T00:00:00.000Z'),
+  isProtected: false
+};
+
+// The QR scanner saved { id, name, data, createdAt } entries into templates.json; real templates never have `data`
+const isLegacyQrTemplate = (template: any) =>
+  template.data !== undefined && (!Array.isArray(template.fields) || template.fields.length === 0);
+
+const toLegacyQrRecord = (id: string, name: string, scan: any, timestamp: any): DataRecord => ({
+  id,
+  templateId: LEGACY_QR_TEMPLATE.id,
+  templateName: LEGACY_QR_TEMPLATE.name,
+  data: {
+    'legacy-qr-name': name,
+    'legacy-qr-type': String(scan?.type ?? ''),
+    'legacy-qr-data': String(scan?.data ?? '')
+  },
+  timestamp: new Date(timestamp ?? Date.now()),
+  dataFileName: LEGACY_QR_DATA_FILE_NAME
+});
+
+// Convert scannedData.json and QR entries in templates.json into a data file under a generated template
+const migrateLegacyQrData = async (): Promise<MigrationReport | null> => {
+  const scannedDataInfo = await FileSystem.getInfoAsync(LEGACY_SCANNED_DATA_FILE);
+  const templates = await readCurrentItems(TEMPLATES_FILE, 'templates');
+  const legacyTemplates = templates.filter(isLegacyQrTemplate);
+  if (!scannedDataInfo.exists && legacyTemplates.length === 0) {
+    return null;
+  }
+
+  let scans: any[] = [];
+  if (scannedDataInfo.exists) {
+    const parsedData = JSON.parse(await FileSystem.readAsStringAsync(LEGACY_SCANNED_DATA_FILE));
+    scans = Array.isArray(parsedData) ? parsedData : [];
+  }
+
+  const records = [
+    ...scans.map((scan, index) => toLegacyQrRecord(`legacy-qr-scan-${index + 1}`, '', scan, scan?.timestamp)),
+    ...legacyTemplates.map(template =>
+      toLegacyQrRecord(`legacy-qr-entry-${template.id}`, String(template.name ?? ''), template.data, template.createdAt))
+  ];
+  await importRecords('legacy-qr-data', records);
+
+  const steps: string[] = [];
+  let backupUri: string | undefined;
+
+  if (legacyTemplates.length > 0) {
+    backupUri = TEMPLATES_FILE.replace(/\.json$/, '.legacy-qr.backup.json');
+    await FileSystem.copyAsync({ from: TEMPLATES_FILE, to: backupUri });
+    steps.push(`Moved ${legacyTemplates.length} QR scanner entry(ies) out of the templates list`);
+  }
+
+  const normalizedTemplates = templates.filter(template => !isLegacyQrTemplate(template));
+  if (!normalizedTemplates.some(template => template.id === LEGACY_QR_TEMPLATE.id)) {
+    normalizedTemplates.push(LEGACY_QR_TEMPLATE);
+    steps.push(`Created the "${LEGACY_QR_TEMPLATE.name}" template`);
+  }
+  await writeStoreFile(TEMPLATES_FILE, 'templates', normalizedTemplates);
+
+  if (scannedDataInfo.exists) {
+    backupUri = getBackupUri(LEGACY_SCANNED_DATA_FILE, 1);
+    await FileSystem.moveAsync({ from: LEGACY_SCANNED_DATA_FILE, to: backupUri });
+    steps.push(`Converted ${scans.length} scanned code(s) from scannedData.json`);
+  }
+  steps.push(`Saved ${records.length} record(s) in the data file "${LEGACY_QR_DATA_FILE_NAME}"`);
+
+  return {
+    store: 'records',
+    fromVersion: 1,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    itemCount: records.length,
+    backupUri,
+    steps,
+  };
+};
+
+// Upgrade stored data to the current schema and layout, keeping a copy of each file before it is rewritten.
+// Runs once per launch, before any screen reads data.
+export const runMigrations = async (): Promise<MigrationReport[]> => {
+  const reports: MigrationReport[] = [];
+
+  const migrations = [
+    migrateTemplatesFile,
+    migrateRecordDatabase,
+    migrateLegacyRecordsFile,
+    migrateRecordJournal,
+    migrateLegacyQrData
+  ];
+  for (const migrate of migrations) {
+    const report = await migrate();
+    if (report) {
+      reports.push(report);
+      console.log(`Migrated ${report.store} from v${report.fromVersion} to v${report.toVersion}`);
+    }
+  }
+
+  return reports;
+};
+
+export const formatMigrationReport = (reports: MigrationReport[]): string =>
+  reports
+    .map(report => {
+      const label = report.store === 'templates' ? 'Templates' : 'Data records';
+      return `${label}: ${report.itemCount} item(s) upgraded from v${report.fromVersion} to v${report.toVersion}.\n` +
+        report.steps.map(step => `• ${step}\n`).join('') +
+        (report.backupUri
+          ? `A copy of the previous data was kept as ${report.backupUri.replace(/\/$/, '').split('/').pop()}.`
+          : '');
+    })
+    .join('\n\n');
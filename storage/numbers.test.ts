@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@jest/globals';
+import { normalizeNumberValue, parseNumberInput, resolveNumberSettings, validateNumberValue } from './numbers';
+import { NumberSettings, TemplateField } from './types';
+
+const field = (number?: Partial<NumberSettings>): TemplateField =>
+  ({ id: 'weight', name: 'Weight', type: 'number', required: false, number: resolveNumberSettings(number) });
+
+describe('parseNumberInput', () => {
+  it('accepts a comma as decimal separator', () => {
+    expect(parseNumberInput(' 3,5 ')).toBe(3.5);
+    expect(parseNumberInput('.25')).toBe(0.25);
+    expect(parseNumberInput('-12')).toBe(-12);
+    expect(parseNumberInput('1.2.3')).toBeNull();
+    expect(parseNumberInput('12kg')).toBeNull();
+  });
+});
+
+describe('resolveNumberSettings', () => {
+  it('keeps decimal places within range and drops them for whole numbers', () => {
+    expect(resolveNumberSettings({ decimalPlaces: 10 }).decimalPlaces).toBe(6);
+    expect(resolveNumberSettings({ kind: 'integer', decimalPlaces: 2 }).decimalPlaces).toBeUndefined();
+    expect(resolveNumberSettings().allowNegative).toBe(true);
+  });
+});
+
+describe('validateNumberValue', () => {
+  it('checks decimals, sign and range', () => {
+    expect(validateNumberValue(field(), 'abc')).toBe('Weight must be a number');
+    expect(validateNumberValue(field({ decimalPlaces: 2 }), '1.255')).toBe('Weight allows at most 2 decimal place(s)');
+    expect(validateNumberValue(field({ decimalPlaces: 2 }), '1.250')).toBeNull();
+    expect(validateNumberValue(field({ allowNegative: false }), '-1')).toBe('Weight cannot be negative');
+    expect(validateNumberValue(field({ decimalPlaces: 1, min: 0.5 }), '0,4')).toBe('Weight must be at least 0.5');
+    expect(validateNumberValue(field({ kind: 'integer', max: 10 }), '11')).toBe('Weight must be at most 10');
+  });
+});
+
+describe('normalizeNumberValue', () => {
+  it('rewrites values in the field format', () => {
+    expect(normalizeNumberValue(field({ decimalPlaces: 2 }), '3,5')).toBe('3.50');
+    expect(normalizeNumberValue(field(), 'n/a')).toBe('n/a');
+  });
+});
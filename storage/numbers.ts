@@ -0,0 +1,104 @@
+import { NumberSettings, TemplateField } from './types';
+
+// Number fields created before these settings existed accept any number, as they always did
+export const DEFAULT_NUMBER_SETTINGS: NumberSettings = {
+  kind: 'decimal',
+  allowNegative: true,
+  unit: ''
+};
+
+export const MAX_DECIMAL_PLACES = 6;
+
+export const resolveNumberSettings = (settings?: Partial<NumberSettings>): NumberSettings => ({
+  ...DEFAULT_NUMBER_SETTINGS,
+  ...settings,
+  decimalPlaces: settings?.kind === 'integer' || settings?.decimalPlaces === undefined
+    ? undefined
+    : Math.min(MAX_DECIMAL_PLACES, Math.max(0, settings.decimalPlaces))
+});
+
+// Accepts a comma as decimal separator, as many keyboards offer one instead of a point
+const NUMBER_PATTERN = /^[-+]?(\d+([.,]\d*)?|[.,]\d+)$/;
+
+export const parseNumberInput = (text: string): number | null => {
+  const trimmed = text.trim();
+  return NUMBER_PATTERN.test(trimmed) ? Number(trimmed.replace(',', '.')) : null;
+};
+
+const countDecimals = (text: string) => {
+  const trimmed = text.trim();
+  const separatorIndex = trimmed.search(/[.,]/);
+  return separatorIndex < 0 ? 0 : trimmed.length - separatorIndex - 1;
+};
+
+export const formatNumberValue = (settings: NumberSettings, value: number): string => {
+  if (settings.kind === 'integer') {
+    return String(Math.trunc(value));
+  }
+  return settings.decimalPlaces !== undefined ? value.toFixed(settings.decimalPlaces) : String(value);
+};
+
+// Check an entered value against the field's settings; returns an error message or null. Empty values are
+// left to the required check.
+export const validateNumberValue = (field: TemplateField, text: string): string | null => {
+  if (!text.trim()) {
+    return null;
+  }
+  const value = parseNumberInput(text);
+  if (value === null) {
+    return `${field.name} must be a number`;
+  }
+
+  const settings = resolveNumberSettings(field.number);
+  if (settings.kind === 'integer' && !Number.isInteger(value)) {
+    return `${field.name} must be a whole number`;
+  }
+  if (settings.decimalPlaces !== undefined && countDecimals(text) > settings.decimalPlaces &&
+      Number(value.toFixed(settings.decimalPlaces)) !== value) {
+    return `${field.name} allows at most ${settings.decimalPlaces} decimal place(s)`;
+  }
+  if (!settings.allowNegative && value < 0) {
+    return `${field.name} cannot be negative`;
+  }
+  if (settings.min !== undefined && value < settings.min) {
+    return `${field.name} must be at least ${formatNumberValue(settings, settings.min)}`;
+  }
+  if (settings.max !== undefined && value > settings.max) {
+    return `${field.name} must be at most ${formatNumberValue(settings, settings.max)}`;
+  }
+  return null;
+};
+
+// Rewrite a value in the field's format, e.g. "3,5" as "3.50"; values that are not numbers are returned unchanged
+export const normalizeNumberValue = (field: TemplateField, text: string): string => {
+  const value = parseNumberInput(text);
+  return value === null ? text : formatNumberValue(resolveNumberSettings(field.number), value);
+};
+
+// Short description of the settings for the template editor's field list
+export const describeNumberSettings = (settings: NumberSettings): string => {
+  const parts = [settings.kind === 'integer'
+    ? 'Whole number'
+    : settings.decimalPlaces !== undefined ? `${settings.decimalPlaces} decimal place(s)` : 'Decimal'];
+  if (settings.min !== undefined || settings.max !== undefined) {
+    parts.push(`${settings.min ?? '…'} to ${settings.max ?? '…'}`);
+  } else if (!settings.allowNegative) {
+    parts.push('no negatives');
+  }
+  if (settings.unit) {
+    parts.push(settings.unit);
+  }
+  return parts.join(', ');
+};
+
+// Normalize every number field of a record before it is saved
+export const normalizeNumberValues = (
+  fields: TemplateField[],
+  data: { [fieldId: string]: string }
+): { [fieldId: string]: string } => {
+  const normalizedData = { ...data };
+  fields.filter(field => field.type === 'number' && data[field.id]).forEach(field => {
+    normalizedData[field.id] = normalizeNumberValue(field, data[field.id]);
+  });
+  return normalizedData;
+};
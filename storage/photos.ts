@@ -0,0 +1,164 @@
+import * as FileSystem from 'expo-file-system';
+import JSZip from 'jszip';
+import { getRecordDatabase } from './database';
+import { SNAPSHOTS_DIRECTORY } from './snapshots';
+import { DataRecord, UNNAMED_FILE } from './types';
+
+// Pictures taken for photo fields are kept in one folder per data file; records only store the photo's file name
+export const PHOTOS_DIRECTORY = FileSystem.documentDirectory + 'photos/';
+
+// Photo file names embed their capture time, which also makes them unique across data files
+const PHOTO_FILE_PATTERN = /photo_\d+\.jpg/g;
+
+// A photo carried in a backup archive, base64 encoded
+export interface ArchivedPhoto {
+  dataFileName: string;
+  fileName: string;
+  data: string;
+}
+
+const getPhotoDirectory = (dataFileName: string) =>
+  `${PHOTOS_DIRECTORY}${dataFileName.replace(/[^a-zA-Z0-9_-]/g, '_')}/`;
+
+export const getPhotoUri = (dataFileName: string, photoFileName: string) =>
+  getPhotoDirectory(dataFileName) + photoFileName;
+
+// Move a picture taken by the camera into the data file's folder; returns the file name to store in the record
+export const savePhoto = async (dataFileName: string, pictureUri: string): Promise<string> => {
+  const directory = getPhotoDirectory(dataFileName);
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  const photoFileName = `photo_${Date.now()}.jpg`;
+  await FileSystem.moveAsync({ from: pictureUri, to: directory + photoFileName });
+  return photoFileName;
+};
+
+// For pictures that were retaken or discarded before the record was saved
+export const deletePhoto = async (dataFileName: string, photoFileName: string) => {
+  await FileSystem.deleteAsync(getPhotoUri(dataFileName, photoFileName), { idempotent: true });
+};
+
+// Photo file names mentioned in the automatic snapshots, whose records can be restored later
+const findSnapshotPhotoReferences = async (): Promise<Set<string>> => {
+  const referenced = new Set<string>();
+  const directoryInfo = await FileSystem.getInfoAsync(SNAPSHOTS_DIRECTORY);
+  if (!directoryInfo.exists) {
+    return referenced;
+  }
+  for (const fileName of await FileSystem.readDirectoryAsync(SNAPSHOTS_DIRECTORY)) {
+    const content = await FileSystem.readAsStringAsync(SNAPSHOTS_DIRECTORY + fileName);
+    (content.match(PHOTO_FILE_PATTERN) || []).forEach(photoFileName => referenced.add(photoFileName));
+  }
+  return referenced;
+};
+
+// Delete photos that no stored record, recycle bin item or snapshot refers to anymore, e.g. after the recycle
+// bin is emptied and the snapshots holding the records have rotated out, or data entry was left without
+// saving. Returns the number of photos deleted.
+export const deleteUnreferencedPhotos = async (): Promise<number> => {
+  const directoryInfo = await FileSystem.getInfoAsync(PHOTOS_DIRECTORY);
+  if (!directoryInfo.exists) {
+    return 0;
+  }
+
+  const db = await getRecordDatabase();
+  const valueRows = await db.getAllAsync<{ value: string }>(
+    `SELECT value FROM field_values WHERE value LIKE 'photo\\_%' ESCAPE '\\'`
+  );
+  const trashRows = await db.getAllAsync<{ payload: string }>('SELECT payload FROM trash');
+  const referenced = new Set(valueRows.map(row => row.value));
+  trashRows.forEach(row => {
+    (row.payload.match(PHOTO_FILE_PATTERN) || []).forEach(photoFileName => referenced.add(photoFileName));
+  });
+
+  const candidates: string[] = [];
+  for (const folderName of await FileSystem.readDirectoryAsync(PHOTOS_DIRECTORY)) {
+    const folderUri = `${PHOTOS_DIRECTORY}${folderName}/`;
+    for (const photoFileName of await FileSystem.readDirectoryAsync(folderUri)) {
+      if (!referenced.has(photoFileName)) {
+        candidates.push(folderUri + photoFileName);
+      }
+    }
+  }
+  if (candidates.length === 0) {
+    return 0;
+  }
+
+  // Snapshots are only read when there is something to delete, as they can be large
+  const snapshotReferences = await findSnapshotPhotoReferences();
+  let deletedCount = 0;
+  for (const photoUri of candidates) {
+    if (!snapshotReferences.has(photoUri.split('/').pop()!)) {
+      await FileSystem.deleteAsync(photoUri, { idempotent: true });
+      deletedCount += 1;
+    }
+  }
+
+  if (deletedCount > 0) {
+    console.log(`Deleted ${deletedCount} unreferenced photo(s)`);
+  }
+  return deletedCount;
+};
+
+// Read the photos the records refer to, for a backup archive; photos missing on the device are left out
+export const readRecordPhotos = async (records: DataRecord[]): Promise<ArchivedPhoto[]> => {
+  const photos: ArchivedPhoto[] = [];
+  const seenUris = new Set<string>();
+  for (const record of records) {
+    const dataFileName = record.dataFileName || UNNAMED_FILE;
+    for (const value of Object.values(record.data)) {
+      for (const fileName of String(value ?? '').match(PHOTO_FILE_PATTERN) || []) {
+        const photoUri = getPhotoUri(dataFileName, fileName);
+        if (seenUris.has(photoUri)) continue;
+        seenUris.add(photoUri);
+
+        const photoInfo = await FileSystem.getInfoAsync(photoUri);
+        if (!photoInfo.exists) {
+          console.log(`Photo ${fileName} is missing and was left out of the backup`);
+          continue;
+        }
+        const data = await FileSystem.readAsStringAsync(photoUri, { encoding: FileSystem.EncodingType.Base64 });
+        photos.push({ dataFileName, fileName, data });
+      }
+    }
+  }
+  return photos;
+};
+
+// Put photos from a backup archive back into their data file folders; photos already on the device are kept.
+// Names that are not photo file names are skipped so an archive cannot write outside the photo folders.
+export const writeArchivedPhotos = async (photos: ArchivedPhoto[]) => {
+  for (const photo of photos) {
+    if (!/^photo_\d+\.jpg$/.test(photo.fileName)) continue;
+    const photoUri = getPhotoUri(photo.dataFileName, photo.fileName);
+    if ((await FileSystem.getInfoAsync(photoUri)).exists) continue;
+    await FileSystem.makeDirectoryAsync(getPhotoDirectory(photo.dataFileName), { intermediates: true });
+    await FileSystem.writeAsStringAsync(photoUri, photo.data, { encoding: FileSystem.EncodingType.Base64 });
+  }
+};
+
+// Zip an exported file together with the photos its records refer to, under photos/; returns the zip's uri
+export const writeExportWithPhotos = async (
+  exportFileName: string,
+  content: string,
+  dataFileName: string,
+  photoFileNames: string[]
+): Promise<string> => {
+  const zip = new JSZip();
+  zip.file(exportFileName, content);
+
+  for (const photoFileName of new Set(photoFileNames)) {
+    const photoUri = getPhotoUri(dataFileName, photoFileName);
+    const photoInfo = await FileSystem.getInfoAsync(photoUri);
+    if (!photoInfo.exists) {
+      console.log(`Photo ${photoFileName} is missing and was left out of the export`);
+      continue;
+    }
+    const photoData = await FileSystem.readAsStringAsync(photoUri, { encoding: FileSystem.EncodingType.Base64 });
+    zip.file(`photos/${photoFileName}`, photoData, { base64: true });
+  }
+
+  const zipUri = FileSystem.documentDirectory + exportFileName.replace(/\.[^.]*$/, '') + '.zip';
+  const zipData = await zip.generateAsync({ type: 'base64' });
+  await FileSystem.writeAsStringAsync(zipUri, zipData, { encoding: FileSystem.EncodingType.Base64 });
+  return zipUri;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  QrScanProgress,
+  addScannedQrCode,
+  decodeTemplateQrCodes,
+  encodeTemplateQrCodes,
+  getScannedQrCodeCount,
+  isQrScanComplete
+} from './qrCodes';
+
+// Text that deflates poorly, so the file needs several codes
+const createContent = (length: number) => {
+  let seed = 42;
+  return Array.from({ length }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return String.fromCharCode(33 + (seed % 90));
+  }).join('');
+};
+
+const scanAll = (codes: string[], progress: QrScanProgress | null = null) =>
+  codes.reduce<QrScanProgress | null>(addScannedQrCode, progress)!;
+
+describe('template QR codes', () => {
+  it('round trips a file split over several codes scanned in any order', async () => {
+    const content = JSON.stringify({ name: 'Inbound', notes: createContent(2000) });
+    const codes = await encodeTemplateQrCodes(content);
+    expect(codes.length).toBeGreaterThan(1);
+
+    const progress = scanAll([...codes].reverse());
+    expect(isQrScanComplete(progress)).toBe(true);
+    expect(await decodeTemplateQrCodes(progress)).toBe(content);
+  });
+
+  it('ignores codes that were already scanned', async () => {
+    const codes = await encodeTemplateQrCodes(createContent(2000));
+    const progress = scanAll([codes[0], codes[0]]);
+    expect(getScannedQrCodeCount(progress)).toBe(1);
+    expect(addScannedQrCode(progress, codes[0])).toBe(progress);
+    expect(isQrScanComplete(progress)).toBe(false);
+  });
+
+  it('starts over when a code of another series is scanned', () => {
+    const progress = scanAll(['B2FT|first|1|3|abc', 'B2FT|first|2|3|def', 'B2FT|second|2|2|ghi']);
+    expect(progress).toEqual({ setId: 'second', count: 2, chunks: { 2: 'ghi' } });
+  });
+
+  it('rejects codes that do not contain a template', () => {
+    expect(() => addScannedQrCode(null, 'https://example.com')).toThrow('This QR code does not contain a template');
+    expect(() => addScannedQrCode(null, 'B2FT|set|3|2|abc')).toThrow('This QR code does not contain a template');
+  });
+
+  it('reports damaged data', async () => {
+    await expect(decodeTemplateQrCodes({ setId: 'set', count: 1, chunks: { 1: 'not a zip' } }))
+      .rejects.toThrow('The QR codes could not be read. Please scan them again.');
+  });
+});
@@ -0,0 +1,68 @@
+import JSZip from 'jszip';
+
+// Template files are shared between devices as a series of QR codes: the file is deflated, base64 encoded and
+// split into chunks. Each code reads `B2FT|<set id>|<number>|<count>|<chunk>` so codes can be scanned in any order
+// and codes of another series are recognised.
+const QR_PREFIX = 'B2FT';
+
+// Characters of encoded data per code; keeps each code small enough to scan reliably from a phone screen
+const QR_CHUNK_LENGTH = 500;
+
+const QR_FILE_NAME = 'template.json';
+
+export interface QrScanProgress {
+  setId: string;
+  count: number;
+  chunks: { [number: number]: string };
+}
+
+export const encodeTemplateQrCodes = async (fileContent: string): Promise<string[]> => {
+  const zip = new JSZip();
+  zip.file(QR_FILE_NAME, fileContent);
+  const data = await zip.generateAsync({ type: 'base64', compression: 'DEFLATE', compressionOptions: { level: 9 } });
+
+  const setId = Date.now().toString(36);
+  const count = Math.ceil(data.length / QR_CHUNK_LENGTH);
+  return Array.from({ length: count }, (_, index) =>
+    [QR_PREFIX, setId, index + 1, count, data.slice(index * QR_CHUNK_LENGTH, (index + 1) * QR_CHUNK_LENGTH)].join('|'));
+};
+
+// Add a scanned code to the codes collected so far. A code of another series starts over; codes that were
+// already scanned return the progress unchanged. Throws if the code is not a template code.
+export const addScannedQrCode = (progress: QrScanProgress | null, data: string): QrScanProgress => {
+  const [prefix, setId, numberText, countText, ...chunkParts] = data.split('|');
+  const number = Number(numberText);
+  const count = Number(countText);
+  if (prefix !== QR_PREFIX || !setId || !Number.isInteger(number) || !Number.isInteger(count) ||
+      number < 1 || number > count || chunkParts.length !== 1) {
+    throw new Error('This QR code does not contain a template');
+  }
+
+  if (!progress || progress.setId !== setId) {
+    return { setId, count, chunks: { [number]: chunkParts[0] } };
+  }
+  if (progress.chunks[number] !== undefined) {
+    return progress;
+  }
+  return { ...progress, chunks: { ...progress.chunks, [number]: chunkParts[0] } };
+};
+
+export const getScannedQrCodeCount = (progress: QrScanProgress) => Object.keys(progress.chunks).length;
+
+export const isQrScanComplete = (progress: QrScanProgress) => getScannedQrCodeCount(progress) === progress.count;
+
+// The template file carried by a complete series of codes
+export const decodeTemplateQrCodes = async (progress: QrScanProgress): Promise<string> => {
+  const data = Array.from({ length: progress.count }, (_, index) => progress.chunks[index + 1]).join('');
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data, { base64: true });
+  } catch {
+    throw new Error('The QR codes could not be read. Please scan them again.');
+  }
+  const file = zip.file(QR_FILE_NAME);
+  if (!file) {
+    throw new Error('The QR codes do not contain a template');
+  }
+  return file.async('string');
+};
@@ -0,0 +1,436 @@
+import * as FileSystem from 'expo-file-system';
+import * as SQLite from 'expo-sqlite';
+import { SCHEMA_VERSION_KEY, getMetaValue, getRecordDatabase, setMetaValue } from './database';
+import { notify } from './events';
+import { takeSequenceValues } from './sequences';
+import { TrashItemKind, loadTrashPayload, moveToTrash, removeFromTrash } from './trash';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+import { DataFileSummary, DataRecord, Template, TemplateField, UNNAMED_FILE } from './types';
+
+// Single-file store used before the journal; converted by runMigrations
+export const LEGACY_DATA_RECORDS_FILE = FileSystem.documentDirectory + 'dataRecords.json';
+
+// Segmented journal used before the SQLite store; converted by runMigrations
+export const LEGACY_RECORDS_DIRECTORY = FileSystem.documentDirectory + 'records/';
+
+interface RecordRow {
+  row_id: number;
+  payload: string;
+}
+
+// Revive a record that has already been migrated to the current schema
+export const reviveRecord = (record: any): DataRecord => ({
+  ...record,
+  timestamp: new Date(record.timestamp)
+});
+
+export const getRecordFileName = (record: DataRecord): string => record.dataFileName || UNNAMED_FILE;
+
+const parseRows = (rows: RecordRow[]): DataRecord[] => rows.map(row => reviveRecord(JSON.parse(row.payload)));
+
+const parseStoredRows = (rows: RecordRow[]): StoredRecord[] =>
+  rows.map(row => ({ rowId: row.row_id, record: reviveRecord(JSON.parse(row.payload)) }));
+
+// Escape LIKE wildcards so search text is matched literally
+const toLikePattern = (text: string) => `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+
+const getFileId = async (db: SQLite.SQLiteDatabase, fileName: string): Promise<number> => {
+  await db.runAsync('INSERT OR IGNORE INTO data_files (name) VALUES (?)', [fileName]);
+  const row = await db.getFirstAsync<{ id: number }>('SELECT id FROM data_files WHERE name = ?', [fileName]);
+  return row!.id;
+};
+
+const writeFieldValues = async (db: SQLite.SQLiteDatabase, rowId: number, record: DataRecord) => {
+  for (const [fieldId, value] of Object.entries(record.data || {})) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO field_values (record_row_id, field_id, value) VALUES (?, ?, ?)',
+      [rowId, fieldId, String(value ?? '')]
+    );
+  }
+};
+
+const insertRecord = async (db: SQLite.SQLiteDatabase, record: DataRecord) => {
+  const fileId = await getFileId(db, getRecordFileName(record));
+  const result = await db.runAsync(
+    `INSERT INTO records (id, file_id, template_id, template_name, timestamp, template_deleted, payload)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      record.id,
+      fileId,
+      record.templateId,
+      record.templateName || '',
+      record.timestamp.getTime() || 0,
+      record.templateDeleted ? 1 : 0,
+      JSON.stringify(record)
+    ]
+  );
+
+  await writeFieldValues(db, result.lastInsertRowId, record);
+};
+
+// Data files exist only while they hold records
+const removeEmptyDataFiles = async (db: SQLite.SQLiteDatabase) => {
+  await db.runAsync('DELETE FROM data_files WHERE id NOT IN (SELECT DISTINCT file_id FROM records)');
+};
+
+export const loadRecords = async (): Promise<DataRecord[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<RecordRow>('SELECT row_id, payload FROM records ORDER BY row_id');
+  return parseRows(rows);
+};
+
+// A record together with the database row holding it; record ids alone are not unique
+export interface StoredRecord {
+  rowId: number;
+  record: DataRecord;
+}
+
+export const loadStoredRecords = async (): Promise<StoredRecord[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<RecordRow>('SELECT row_id, payload FROM records ORDER BY row_id');
+  return parseStoredRows(rows);
+};
+
+// Rewrite individual rows in place, e.g. for repairs
+export const updateStoredRecords = async (updates: StoredRecord[]) => {
+  if (updates.length === 0) {
+    return;
+  }
+
+  const db = await getRecordDatabase();
+  await db.withExclusiveTransactionAsync(async txn => {
+    for (const { rowId, record } of updates) {
+      const fileId = await getFileId(txn, getRecordFileName(record));
+      await txn.runAsync(
+        `UPDATE records SET id = ?, file_id = ?, template_id = ?, template_name = ?, timestamp = ?,
+           template_deleted = ?, payload = ?
+         WHERE row_id = ?`,
+        [
+          record.id,
+          fileId,
+          record.templateId,
+          record.templateName || '',
+          record.timestamp.getTime() || 0,
+          record.templateDeleted ? 1 : 0,
+          JSON.stringify(record),
+          rowId
+        ]
+      );
+      await txn.runAsync('DELETE FROM field_values WHERE record_row_id = ?', [rowId]);
+      await writeFieldValues(txn, rowId, record);
+    }
+    await removeEmptyDataFiles(txn);
+  });
+  notify('records');
+};
+
+// Replace every stored record; only for bulk operations such as restores
+export const saveRecords = async (records: DataRecord[]) => {
+  const db = await getRecordDatabase();
+  await db.withExclusiveTransactionAsync(async txn => {
+    await txn.runAsync('DELETE FROM field_values');
+    await txn.runAsync('DELETE FROM records');
+    await txn.runAsync('DELETE FROM data_files');
+    for (const record of records) {
+      await insertRecord(txn, record);
+    }
+    await setMetaValue(txn, SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  });
+  notify('records');
+};
+
+// Save a new record, stamping its sequence fields with their next numbers. Returns the record as stored.
+export const appendRecord = async (record: DataRecord, fields: TemplateField[] = []): Promise<DataRecord> => {
+  const db = await getRecordDatabase();
+  let storedRecord = record;
+  await db.withExclusiveTransactionAsync(async txn => {
+    const sequenceValues = await takeSequenceValues(txn, record.templateId, fields, getRecordFileName(record));
+    storedRecord = { ...record, data: { ...record.data, ...sequenceValues } };
+    await insertRecord(txn, storedRecord);
+  });
+  notify('records');
+  return storedRecord;
+};
+
+// Add many records in a single transaction, e.g. when restoring a backup
+export const appendRecords = async (records: DataRecord[]) => {
+  if (records.length === 0) {
+    return;
+  }
+
+  const db = await getRecordDatabase();
+  await db.withExclusiveTransactionAsync(async txn => {
+    for (const record of records) {
+      await insertRecord(txn, record);
+    }
+  });
+  notify('records');
+};
+
+// Add records from an older store exactly once; the import key is committed together with the records
+// so an interrupted migration can be rerun without duplicating anything. Returns false if already imported.
+export const importRecords = async (importKey: string, records: DataRecord[]): Promise<boolean> => {
+  const db = await getRecordDatabase();
+  let imported = false;
+
+  await db.withExclusiveTransactionAsync(async txn => {
+    const metaKey = `imported:${importKey}`;
+    if (await getMetaValue(txn, metaKey)) {
+      return;
+    }
+    for (const record of records) {
+      await insertRecord(txn, record);
+    }
+    await setMetaValue(txn, metaKey, new Date().toISOString());
+    imported = true;
+  });
+
+  if (imported) {
+    notify('records');
+  }
+  return imported;
+};
+
+export const getRecordsSchemaVersion = async (): Promise<number> => {
+  const db = await getRecordDatabase();
+  return Number(await getMetaValue(db, SCHEMA_VERSION_KEY));
+};
+
+// Raw stored payloads, for migrations that need to upgrade them before they are revived
+export const loadRecordPayloads = async (): Promise<any[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<RecordRow>('SELECT row_id, payload FROM records ORDER BY row_id');
+  return rows.map(row => JSON.parse(row.payload));
+};
+
+export const loadStoredFileRecords = async (fileName: string): Promise<StoredRecord[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<RecordRow>(
+    `SELECT records.row_id, records.payload FROM records
+     JOIN data_files ON data_files.id = records.file_id
+     WHERE data_files.name = ?
+     ORDER BY records.timestamp DESC, records.row_id DESC`,
+    [fileName]
+  );
+  return parseStoredRows(rows);
+};
+
+export const loadFileRecords = async (fileName: string): Promise<DataRecord[]> =>
+  (await loadStoredFileRecords(fileName)).map(({ record }) => record);
+
+export const countFileRecords = async (fileName: string): Promise<number> => {
+  const db = await getRecordDatabase();
+  const row = await db.getFirstAsync<{ record_count: number }>(
+    `SELECT COUNT(*) AS record_count FROM records
+     JOIN data_files ON data_files.id = records.file_id
+     WHERE data_files.name = ?`,
+    [fileName]
+  );
+  return row?.record_count ?? 0;
+};
+
+// The record of a template captured last in a file, without reading the rest of the file
+export const loadLatestFileRecord = async (fileName: string, templateId: string): Promise<DataRecord | null> => {
+  const db = await getRecordDatabase();
+  const row = await db.getFirstAsync<RecordRow>(
+    `SELECT records.row_id, records.payload FROM records
+     JOIN data_files ON data_files.id = records.file_id
+     WHERE data_files.name = ? AND records.template_id = ?
+     ORDER BY records.timestamp DESC, records.row_id DESC
+     LIMIT 1`,
+    [fileName, templateId]
+  );
+  return row ? parseRows([row])[0] : null;
+};
+
+// Records in a file whose template name or any field value contains the query, or that have a value
+// for one of the given fields (used to match on field names, which live in the templates)
+export const searchStoredFileRecords = async (
+  fileName: string,
+  query: string,
+  matchingFieldIds: string[] = []
+): Promise<StoredRecord[]> => {
+  const db = await getRecordDatabase();
+  const pattern = toLikePattern(query);
+  const fieldPlaceholders = matchingFieldIds.map(() => '?').join(', ');
+  const fieldCondition = matchingFieldIds.length > 0 ? `OR field_values.field_id IN (${fieldPlaceholders})` : '';
+
+  const rows = await db.getAllAsync<RecordRow>(
+    `SELECT records.row_id, records.payload FROM records
+     JOIN data_files ON data_files.id = records.file_id
+     WHERE data_files.name = ?
+       AND (
+         records.template_name LIKE ? ESCAPE '\\'
+         OR EXISTS (
+           SELECT 1 FROM field_values
+           WHERE field_values.record_row_id = records.row_id
+             AND field_values.value != ''
+             AND (field_values.value LIKE ? ESCAPE '\\' ${fieldCondition})
+         )
+       )
+     ORDER BY records.timestamp DESC, records.row_id DESC`,
+    [fileName, pattern, pattern, ...matchingFieldIds]
+  );
+  return parseStoredRows(rows);
+};
+
+export const loadDataFileSummaries = async (): Promise<DataFileSummary[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<{
+    name: string;
+    total_records: number;
+    last_record_at: number;
+    has_deleted_template: number;
+  }>(
+    `SELECT data_files.name, COUNT(*) AS total_records, MAX(records.timestamp) AS last_record_at,
+       MAX(records.template_deleted) AS has_deleted_template
+     FROM data_files
+     JOIN records ON records.file_id = data_files.id
+     GROUP BY data_files.id
+     ORDER BY last_record_at DESC`
+  );
+
+  return rows.map(row => ({
+    fileName: row.name,
+    totalRecords: row.total_records,
+    lastRecordAt: new Date(row.last_record_at),
+    hasDeletedTemplate: row.has_deleted_template === 1
+  }));
+};
+
+// Move the records matching a condition into the recycle bin and delete them, inside the caller's transaction
+const moveRecordsToTrash = async (
+  txn: SQLite.SQLiteDatabase,
+  condition: string,
+  params: SQLite.SQLiteBindValue[],
+  kind: TrashItemKind,
+  getLabel: (records: DataRecord[]) => string
+) => {
+  const rows = await txn.getAllAsync<RecordRow>(
+    `SELECT row_id, payload FROM records WHERE ${condition} ORDER BY row_id`,
+    params
+  );
+  if (rows.length === 0) {
+    return;
+  }
+
+  await moveToTrash(txn, kind, getLabel(parseRows(rows)), { records: rows.map(row => JSON.parse(row.payload)) });
+  await txn.runAsync(
+    `DELETE FROM field_values WHERE record_row_id IN (SELECT row_id FROM records WHERE ${condition})`,
+    params
+  );
+  await txn.runAsync(`DELETE FROM records WHERE ${condition}`, params);
+  await removeEmptyDataFiles(txn);
+};
+
+const describeRecord = (record: DataRecord) => {
+  const values = Object.values(record.data).filter(Boolean).slice(0, 3).join(', ');
+  return `${getRecordFileName(record)}: ${values || record.templateName}`;
+};
+
+// Deletes by row, since other records may share the record's id
+export const deleteRecord = async (rowId: number) => {
+  const db = await getRecordDatabase();
+  await db.withExclusiveTransactionAsync(async txn => {
+    await moveRecordsToTrash(txn, 'row_id = ?', [rowId], 'record', records => describeRecord(records[0]));
+  });
+  notify('records');
+  notify('trash');
+};
+
+export const deleteDataFile = async (fileName: string) => {
+  const db = await getRecordDatabase();
+  await db.withExclusiveTransactionAsync(async txn => {
+    await moveRecordsToTrash(
+      txn,
+      'file_id IN (SELECT id FROM data_files WHERE name = ?)',
+      [fileName],
+      'data_file',
+      () => fileName
+    );
+  });
+  notify('records');
+  notify('trash');
+};
+
+export const clearRecords = async () => {
+  const db = await getRecordDatabase();
+  await db.withExclusiveTransactionAsync(async txn => {
+    await moveRecordsToTrash(txn, '1 = 1', [], 'all_records', () => 'All data records');
+  });
+  notify('records');
+  notify('trash');
+};
+
+// Put the records of a recycle bin item back; returns how many were restored
+export const restoreRecordsFromTrash = async (trashId: number): Promise<number> => {
+  const db = await getRecordDatabase();
+  let restoredCount = 0;
+
+  await db.withExclusiveTransactionAsync(async txn => {
+    const payload = await loadTrashPayload(txn, trashId);
+    if (!payload) {
+      return;
+    }
+    for (const record of payload.records) {
+      await insertRecord(txn, reviveRecord(record));
+    }
+    await removeFromTrash(txn, trashId);
+    restoredCount = payload.records.length;
+  });
+
+  notify('records');
+  notify('trash');
+  return restoredCount;
+};
+
+// Snapshot a template's definition into its records so they stay readable after the template is deleted
+export const preserveTemplateInRecords = async (template: Template) => {
+  const db = await getRecordDatabase();
+  const deletedAt = new Date().toISOString();
+
+  await db.withExclusiveTransactionAsync(async txn => {
+    const rows = await txn.getAllAsync<RecordRow>(
+      'SELECT row_id, payload FROM records WHERE template_id = ?',
+      [template.id]
+    );
+    for (const row of rows) {
+      const payload = {
+        ...JSON.parse(row.payload),
+        preservedTemplateFields: template.fields,
+        preservedCsvSettings: template.csvExportSettings,
+        templateDeleted: true,
+        templateDeletedAt: deletedAt
+      };
+      await txn.runAsync(
+        'UPDATE records SET template_deleted = 1, payload = ? WHERE row_id = ?',
+        [JSON.stringify(payload), row.row_id]
+      );
+    }
+  });
+  notify('records');
+};
+
+// Undo preserveTemplateInRecords once the template itself is back
+export const releasePreservedTemplate = async (templateId: string) => {
+  const db = await getRecordDatabase();
+
+  await db.withExclusiveTransactionAsync(async txn => {
+    const rows = await txn.getAllAsync<RecordRow>(
+      'SELECT row_id, payload FROM records WHERE template_id = ? AND template_deleted = 1',
+      [templateId]
+    );
+    for (const row of rows) {
+      const payload = JSON.parse(row.payload);
+      delete payload.preservedTemplateFields;
+      delete payload.preservedCsvSettings;
+      delete payload.templateDeleted;
+      delete payload.templateDeletedAt;
+      await txn.runAsync(
+        'UPDATE records SET template_deleted = 0, payload = ? WHERE row_id = ?',
+        [JSON.stringify(payload), row.row_id]
+      );
+    }
+  });
+  notify('records');
+};
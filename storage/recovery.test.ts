@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatRecoveryReport } from './recovery';
+
+describe('formatRecoveryReport', () => {
+  it('says how old the restored copy is', () => {
+    const copiedAt = new Date(2024, 2, 5, 14, 7);
+    expect(formatRecoveryReport([
+      { store: 'records', restored: true, damagedCopyUri: 'file:///SQLite/records.damaged-1.db', copiedAt },
+      { store: 'templates', restored: false, damagedCopyUri: 'file:///data/templates.damaged-1.json' }
+    ])).toBe(
+      `Data records were damaged and have been restored from the last good copy from ${copiedAt.toLocaleString()}. ` +
+      'Changes made after that copy may be missing. The damaged file was kept as records.damaged-1.db.\n\n' +
+      'Templates were damaged and no good copy was available, so they start empty. ' +
+      'The damaged file was kept as templates.damaged-1.json.'
+    );
+  });
+
+  it('says when the settings were reset', () => {
+    expect(formatRecoveryReport([
+      { store: 'settings', restored: false, damagedCopyUri: 'file:///data/settings.damaged-1.json' }
+    ])).toBe(
+      'Settings were damaged and no good copy was available, so they start from the defaults without an admin PIN. ' +
+      'The damaged file was kept as settings.damaged-1.json.'
+    );
+  });
+});
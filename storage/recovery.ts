@@ -0,0 +1,111 @@
+import * as FileSystem from 'expo-file-system';
+import { getTempUri } from './atomic';
+import {
+  checkRecordDatabase,
+  isLastGoodRecordDatabaseStale,
+  restoreLastGoodRecordDatabase,
+  saveLastGoodRecordDatabase
+} from './database';
+import { StoreName, getLastGoodUri, isStoreContentIntact } from './schema';
+import { SETTINGS_FILE, isSettingsContentIntact } from './settings';
+import { TEMPLATES_FILE } from './templates';
+
+export interface RecoveryReport {
+  store: StoreName | 'settings';
+  restored: boolean;
+  damagedCopyUri: string;
+  // When the restored copy was taken; changes made after it may be missing
+  copiedAt?: Date;
+}
+
+const getDamagedCopyUri = (uri: string) => uri.replace(/\.json$/, `.damaged-${Date.now()}.json`);
+
+const readIntactContent = async (uri: string, isIntact: (content: string) => boolean): Promise<string | null> => {
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  if (!fileInfo.exists) {
+    return null;
+  }
+  const content = await FileSystem.readAsStringAsync(uri);
+  return isIntact(content) ? content : null;
+};
+
+// Replace a damaged JSON file with its last good copy. The damaged file is always kept aside, so nothing is
+// lost even when there is no good copy to fall back to; without the file the store starts from its defaults.
+const recoverStoreFile = async (
+  uri: string,
+  store: RecoveryReport['store'],
+  isIntact: (content: string) => boolean
+): Promise<RecoveryReport | null> => {
+  // A leftover temporary file means a write was interrupted before it replaced the real file
+  await FileSystem.deleteAsync(getTempUri(uri), { idempotent: true });
+
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  if (!fileInfo.exists || await readIntactContent(uri, isIntact) !== null) {
+    return null;
+  }
+
+  const damagedCopyUri = getDamagedCopyUri(uri);
+  await FileSystem.moveAsync({ from: uri, to: damagedCopyUri });
+
+  const lastGoodUri = getLastGoodUri(uri);
+  if (await readIntactContent(lastGoodUri, isIntact) === null) {
+    return { store, restored: false, damagedCopyUri };
+  }
+  await FileSystem.copyAsync({ from: lastGoodUri, to: uri });
+
+  const lastGoodInfo = await FileSystem.getInfoAsync(lastGoodUri);
+  const copiedAt = lastGoodInfo.exists ? new Date(lastGoodInfo.modificationTime * 1000) : undefined;
+  return { store, restored: true, damagedCopyUri, copiedAt };
+};
+
+const recoverRecordDatabase = async (): Promise<RecoveryReport | null> => {
+  if (await checkRecordDatabase()) {
+    if (await isLastGoodRecordDatabaseStale()) {
+      await saveLastGoodRecordDatabase();
+    }
+    return null;
+  }
+
+  return { store: 'records', ...await restoreLastGoodRecordDatabase() };
+};
+
+// Check stored data before anything reads it, and bring back the last good copy of anything damaged
+// instead of letting the app start with an empty list that the next save would write over.
+export const recoverStorage = async (): Promise<RecoveryReport[]> => {
+  const reports: RecoveryReport[] = [];
+
+  for (const recover of [
+    () => recoverStoreFile(TEMPLATES_FILE, 'templates', content => isStoreContentIntact(content, 'templates')),
+    () => recoverStoreFile(SETTINGS_FILE, 'settings', isSettingsContentIntact),
+    recoverRecordDatabase
+  ]) {
+    const report = await recover();
+    if (report) {
+      reports.push(report);
+      console.log(`Recovered damaged ${report.store} store (restored: ${report.restored})`);
+    }
+  }
+
+  return reports;
+};
+
+const STORE_LABELS: { [store in RecoveryReport['store']]: string } = {
+  templates: 'Templates',
+  records: 'Data records',
+  settings: 'Settings'
+};
+
+export const formatRecoveryReport = (reports: RecoveryReport[]): string =>
+  reports
+    .map(report => {
+      const label = STORE_LABELS[report.store];
+      const damagedFileName = report.damagedCopyUri.split('/').pop();
+      const copyDate = report.copiedAt ? ` from ${report.copiedAt.toLocaleString()}` : '';
+      return report.restored
+        ? `${label} were damaged and have been restored from the last good copy${copyDate}. ` +
+          `Changes made after that copy may be missing. The damaged file was kept as ${damagedFileName}.`
+        : `${label} were damaged and no good copy was available, so they start ` +
+          `${report.store === 'settings' ? 'from the defaults without an admin PIN' : 'empty'}. ` +
+          `The damaged file was kept as ${damagedFileName}.`;
+    })
+    .join('\n\n');
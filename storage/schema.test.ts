@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { CURRENT_SCHEMA_VERSION, isStoreContentIntact, migrateItems, parseStoreContent, serializeStore } from './schema';
+
+describe('migrateItems', () => {
+  it('fills in template settings missing from version 1 files', () => {
+    const { items, steps } = migrateItems('templates', [{
+      id: 17,
+      name: 'Inbound',
+      createdAt: '2023-01-01T00:00:00.000Z',
+      fields: [
+        { id: 'f1', name: 'Location', type: 'fixed_data' },
+        { id: 'f2', name: 'Code', type: 'barcode', required: false }
+      ]
+    }], 1);
+
+    expect(steps).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      id: '17',
+      description: '',
+      createdAt: '2023-01-01T00:00:00.000Z',
+      isProtected: false,
+      csvExportSettings: { delimiter: 'comma', fileExtension: 'csv', includeQuotes: true }
+    });
+    expect(items[0].fields).toEqual([
+      { id: 'f1', name: 'Location', type: 'fixed_data', required: true, options: [], inputMode: 'select_only' },
+      { id: 'f2', name: 'Code', type: 'barcode', required: false, options: [], inputMode: undefined }
+    ]);
+  });
+
+  it('fills in record settings missing from version 1 files', () => {
+    expect(migrateItems('records', [{ id: 5, templateId: '17' }], 1).items)
+      .toEqual([{ id: '5', templateId: '17', data: {} }]);
+  });
+
+  it('leaves current items unchanged', () => {
+    const items = [{ id: '5', data: { f1: 'A' } }];
+    expect(migrateItems('records', items, CURRENT_SCHEMA_VERSION)).toEqual({ items, steps: [] });
+  });
+});
+
+describe('parseStoreContent', () => {
+  it('reads bare arrays as version 1', () => {
+    expect(parseStoreContent('[{"id":1}]', 'records')).toEqual({ version: 1, items: [{ id: 1 }] });
+  });
+
+  it('reads what serializeStore writes', () => {
+    const content = serializeStore('templates', [{ id: '1' }]);
+    expect(parseStoreContent(content, 'templates')).toEqual({ version: CURRENT_SCHEMA_VERSION, items: [{ id: '1' }] });
+  });
+
+  it('rejects unknown layouts and newer versions', () => {
+    expect(() => parseStoreContent('{"schemaVersion":2,"records":[]}', 'templates'))
+      .toThrow('Unrecognized templates file format');
+    expect(() => parseStoreContent(`{"schemaVersion":${CURRENT_SCHEMA_VERSION + 1},"records":[]}`, 'records'))
+      .toThrow(`written by a newer version of the app (schema v${CURRENT_SCHEMA_VERSION + 1})`);
+  });
+});
+
+describe('isStoreContentIntact', () => {
+  it('only flags content no app version writes', () => {
+    expect(isStoreContentIntact('[]', 'records')).toBe(true);
+    expect(isStoreContentIntact('{"schemaVersion":99,"records":[]}', 'records')).toBe(true);
+    expect(isStoreContentIntact('{"records":', 'records')).toBe(false);
+    expect(isStoreContentIntact('{"templates":[]}', 'records')).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import * as FileSystem from 'expo-file-system';
+import { writeAtomically } from './atomic';
+
+// Bump this and append a step to MIGRATIONS whenever the shape of stored templates or records changes
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export type StoreName = 'templates' | 'records';
+
+interface Migration {
+  toVersion: number;
+  description: string;
+  templates?: (template: any) => any;
+  records?: (record: any) => any;
+}
+
+// Ordered upgrade steps. Each step is a frozen snapshot of how data looked at that version,
+// so steps must never reference shared defaults that may change later.
+const MIGRATIONS: Migration[] = [
+  {
+    toVersion: 2,
+    description: 'Fill in template and record settings missing from files written before schema versioning',
+    templates: (template) => ({
+      ...template,
+      id: String(template.id),
+      description: template.description || '',
+      fields: (template.fields || []).map((field: any) => ({
+        ...field,
+        required: field.required ?? true,
+        options: field.options || [],
+        // Data entry has always treated a missing input mode as select-only
+        inputMode: field.inputMode || (field.type === 'fixed_data' ? 'select_only' : undefined)
+      })),
+      csvExportSettings: template.csvExportSettings || {
+        includeHeader: false,
+        delimiter: 'comma',
+        customDelimiter: '',
+        fieldPositions: {},
+        fileExtension: 'csv',
+        includeQuotes: true
+      },
+      createdAt: template.createdAt || new Date().toISOString(),
+      isProtected: template.isProtected || false
+    }),
+    records: (record) => ({
+      ...record,
+      id: String(record.id),
+      data: record.data || {}
+    })
+  }
+];
+
+export interface MigrationResult {
+  items: any[];
+  steps: string[];
+}
+
+export const migrateItems = (store: StoreName, items: any[], fromVersion: number): MigrationResult => {
+  const steps: string[] = [];
+  let migratedItems = items;
+
+  MIGRATIONS
+    .filter(migration => migration.toVersion > fromVersion && migration.toVersion <= CURRENT_SCHEMA_VERSION)
+    .forEach(migration => {
+      const migrate = migration[store];
+      if (migrate) {
+        migratedItems = migratedItems.map(migrate);
+      }
+      steps.push(`v${migration.toVersion}: ${migration.description}`);
+    });
+
+  return { items: migratedItems, steps };
+};
+
+export interface StoreFile {
+  exists: boolean;
+  version: number;
+  items: any[];
+}
+
+// Files written before versioning are bare arrays and count as version 1
+export const parseStoreContent = (content: string, store: StoreName): Omit<StoreFile, 'exists'> => {
+  const parsedData = JSON.parse(content);
+
+  if (Array.isArray(parsedData)) {
+    return { version: 1, items: parsedData };
+  }
+
+  const version = Number(parsedData?.schemaVersion);
+  if (!version || !Array.isArray(parsedData[store])) {
+    throw new Error(`Unrecognized ${store} file format`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`The ${store} file was written by a newer version of the app (schema v${version})`);
+  }
+
+  return { version, items: parsedData[store] };
+};
+
+export const readStoreFile = async (uri: string, store: StoreName): Promise<StoreFile> => {
+  const fileExists = await FileSystem.getInfoAsync(uri);
+  if (!fileExists.exists) {
+    return { exists: false, version: CURRENT_SCHEMA_VERSION, items: [] };
+  }
+
+  const content = await FileSystem.readAsStringAsync(uri);
+  return { exists: true, ...parseStoreContent(content, store) };
+};
+
+// Read a store and bring its items up to the current schema in memory
+export const readCurrentItems = async (uri: string, store: StoreName): Promise<any[]> => {
+  const { version, items } = await readStoreFile(uri, store);
+  return migrateItems(store, items, version).items;
+};
+
+export const serializeStore = (store: StoreName, items: any[]): string =>
+  JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, [store]: items });
+
+// A store file is damaged when it is not JSON or not in a layout any app version writes.
+// Files from a newer app version are intact; reading them fails for a different reason.
+export const isStoreContentIntact = (content: string, store: StoreName): boolean => {
+  try {
+    const parsedData = JSON.parse(content);
+    return Array.isArray(parsedData) || Array.isArray(parsedData?.[store]);
+  } catch {
+    return false;
+  }
+};
+
+export const getLastGoodUri = (uri: string) => uri.replace(/\.json$/, '.last-good.json');
+
+// Before a store file is replaced, keep the current version as the last good copy. A damaged file is
+// never overwritten, so startup recovery can still restore the last good copy in its place.
+const keepLastGoodCopy = async (uri: string, store: StoreName) => {
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  if (!fileInfo.exists) {
+    return;
+  }
+
+  const content = await FileSystem.readAsStringAsync(uri);
+  if (!isStoreContentIntact(content, store)) {
+    throw new Error(`The ${store} file is damaged; restart the app to recover it before saving`);
+  }
+  await writeAtomically(getLastGoodUri(uri), content);
+};
+
+export const writeStoreFile = async (uri: string, store: StoreName, items: any[]) => {
+  await keepLastGoodCopy(uri, store);
+  await writeAtomically(uri, serializeStore(store, items));
+};
@@ -0,0 +1,135 @@
+import * as SQLite from 'expo-sqlite';
+import { getMetaValue, getRecordDatabase, setMetaValue } from './database';
+import { SequenceSettings, TemplateField } from './types';
+
+export const DEFAULT_SEQUENCE_SETTINGS: SequenceSettings = {
+  start: 1,
+  step: 1,
+  padLength: 0,
+  prefix: '',
+  suffix: '',
+  scope: 'file'
+};
+
+// Fill in settings missing from the field; a zero step would repeat the same number forever
+export const resolveSequenceSettings = (settings?: Partial<SequenceSettings>): SequenceSettings => ({
+  start: Number.isFinite(settings?.start) ? settings!.start! : DEFAULT_SEQUENCE_SETTINGS.start,
+  step: settings?.step ? settings.step : DEFAULT_SEQUENCE_SETTINGS.step,
+  padLength: Math.max(0, settings?.padLength || 0),
+  prefix: settings?.prefix ?? DEFAULT_SEQUENCE_SETTINGS.prefix,
+  suffix: settings?.suffix ?? DEFAULT_SEQUENCE_SETTINGS.suffix,
+  scope: settings?.scope ?? DEFAULT_SEQUENCE_SETTINGS.scope
+});
+
+export const formatSequenceValue = (settings: SequenceSettings, value: number): string => {
+  const digits = String(Math.abs(value)).padStart(settings.padLength, '0');
+  return `${settings.prefix}${value < 0 ? '-' : ''}${digits}${settings.suffix}`;
+};
+
+// Reverse of formatSequenceValue; null for values that were typed in or use another prefix/suffix
+const parseSequenceValue = (settings: SequenceSettings, text: string): number | null => {
+  if (!text.startsWith(settings.prefix) || !text.endsWith(settings.suffix)) {
+    return null;
+  }
+  const digits = text.slice(settings.prefix.length, text.length - settings.suffix.length);
+  return /^-?\d+$/.test(digits) ? Number(digits) : null;
+};
+
+// The last issued number is kept in the meta table so numbering survives leaving and continuing a data file.
+// A per-file counter only counts while the file holds records: a file that was deleted and then created again
+// under the same name starts from the beginning.
+const getCounterKey = (templateId: string, field: TemplateField, fileName: string) => {
+  const key = `sequence:${templateId}:${field.id}`;
+  return resolveSequenceSettings(field.sequence).scope === 'file' ? `${key}:${fileName}` : key;
+};
+
+// Without a stored counter (e.g. after restoring a backup on another device) numbering carries on
+// from the highest value already saved in scope
+const findLastSavedNumber = async (
+  db: SQLite.SQLiteDatabase,
+  templateId: string,
+  field: TemplateField,
+  fileName: string
+): Promise<number | null> => {
+  const settings = resolveSequenceSettings(field.sequence);
+  const rows = settings.scope === 'file'
+    ? await db.getAllAsync<{ value: string }>(
+        `SELECT field_values.value FROM field_values
+         JOIN records ON records.row_id = field_values.record_row_id
+         JOIN data_files ON data_files.id = records.file_id
+         WHERE field_values.field_id = ? AND records.template_id = ? AND data_files.name = ?`,
+        [field.id, templateId, fileName]
+      )
+    : await db.getAllAsync<{ value: string }>(
+        `SELECT field_values.value FROM field_values
+         JOIN records ON records.row_id = field_values.record_row_id
+         WHERE field_values.field_id = ? AND records.template_id = ?`,
+        [field.id, templateId]
+      );
+
+  const numbers = rows
+    .map(row => parseSequenceValue(settings, row.value))
+    .filter((value): value is number => value !== null);
+  if (numbers.length === 0) {
+    return null;
+  }
+  return settings.step > 0 ? Math.max(...numbers) : Math.min(...numbers);
+};
+
+const fileHasRecords = async (db: SQLite.SQLiteDatabase, fileName: string): Promise<boolean> =>
+  await db.getFirstAsync(
+    `SELECT 1 FROM records
+     JOIN data_files ON data_files.id = records.file_id
+     WHERE data_files.name = ?
+     LIMIT 1`,
+    [fileName]
+  ) !== null;
+
+const getNextNumber = async (
+  db: SQLite.SQLiteDatabase,
+  templateId: string,
+  field: TemplateField,
+  fileName: string
+): Promise<number> => {
+  const settings = resolveSequenceSettings(field.sequence);
+  if (settings.scope === 'file' && !(await fileHasRecords(db, fileName))) {
+    return settings.start;
+  }
+  const storedCounter = await getMetaValue(db, getCounterKey(templateId, field, fileName));
+  const last = storedCounter !== null
+    ? Number(storedCounter)
+    : await findLastSavedNumber(db, templateId, field, fileName);
+  return last === null ? settings.start : last + settings.step;
+};
+
+// Issue the next number of every sequence field; call inside the transaction that saves the record
+// so a number is only used up when the record is actually stored
+export const takeSequenceValues = async (
+  txn: SQLite.SQLiteDatabase,
+  templateId: string,
+  fields: TemplateField[],
+  fileName: string
+): Promise<{ [fieldId: string]: string }> => {
+  const values: { [fieldId: string]: string } = {};
+  for (const field of fields.filter(f => f.type === 'sequence')) {
+    const next = await getNextNumber(txn, templateId, field, fileName);
+    await setMetaValue(txn, getCounterKey(templateId, field, fileName), String(next));
+    values[field.id] = formatSequenceValue(resolveSequenceSettings(field.sequence), next);
+  }
+  return values;
+};
+
+// The numbers the next saved record will get, for display during data entry
+export const peekSequenceValues = async (
+  templateId: string,
+  fields: TemplateField[],
+  fileName: string
+): Promise<{ [fieldId: string]: string }> => {
+  const db = await getRecordDatabase();
+  const values: { [fieldId: string]: string } = {};
+  for (const field of fields.filter(f => f.type === 'sequence')) {
+    const next = await getNextNumber(db, templateId, field, fileName);
+    values[field.id] = formatSequenceValue(resolveSequenceSettings(field.sequence), next);
+  }
+  return values;
+};
@@ -0,0 +1,71 @@
+import * as FileSystem from 'expo-file-system';
+import { writeAtomically } from './atomic';
+import { notify } from './events';
+import { getLastGoodUri } from './schema';
+
+export const SETTINGS_FILE = FileSystem.documentDirectory + 'settings.json';
+
+export interface AppSettings {
+  // Days a deleted item stays in the recycle bin before it is purged
+  trashRetentionDays: number;
+  // Take an automatic snapshot after this many saved records (one is also taken on every launch)
+  autoBackupInterval: number;
+  // Number of automatic snapshots to keep; older ones are deleted
+  autoBackupKeepCount: number;
+  // Name filled in for the {operator} default value token
+  operatorName: string;
+  // Hash of the PIN that guards template management, see storage/admin.ts; unset means no PIN
+  adminPinHash?: string;
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  autoBackupInterval: 50,
+  autoBackupKeepCount: 10,
+  operatorName: ''
+};
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90];
+export const AUTO_BACKUP_INTERVAL_OPTIONS = [25, 50, 100, 250];
+export const AUTO_BACKUP_KEEP_OPTIONS = [5, 10, 20];
+
+export const isSettingsContentIntact = (content: string): boolean => {
+  try {
+    const parsedData = JSON.parse(content);
+    return typeof parsedData === 'object' && parsedData !== null && !Array.isArray(parsedData);
+  } catch {
+    return false;
+  }
+};
+
+// Settings missing from the file (e.g. written by an older version) fall back to their defaults. A damaged
+// file throws instead: falling back would silently drop the admin PIN, and the next save would make that stick.
+// Startup recovery puts the last good copy back in its place, see storage/recovery.ts.
+export const loadSettings = async (): Promise<AppSettings> => {
+  const fileInfo = await FileSystem.getInfoAsync(SETTINGS_FILE);
+  if (!fileInfo.exists) {
+    return { ...DEFAULT_APP_SETTINGS };
+  }
+
+  const content = await FileSystem.readAsStringAsync(SETTINGS_FILE);
+  try {
+    return { ...DEFAULT_APP_SETTINGS, ...JSON.parse(content) };
+  } catch (error) {
+    console.error('Error reading settings:', error);
+    throw new Error('The settings file is damaged');
+  }
+};
+
+// The last good copy is kept in step with every save, so recovery does not bring back an older admin PIN
+export const saveSettings = async (settings: AppSettings) => {
+  const content = JSON.stringify(settings);
+  await writeAtomically(SETTINGS_FILE, content);
+  await writeAtomically(getLastGoodUri(SETTINGS_FILE), content);
+  notify('settings');
+};
+
+export const updateSettings = async (changes: Partial<AppSettings>): Promise<AppSettings> => {
+  const settings = { ...await loadSettings(), ...changes };
+  await saveSettings(settings);
+  return settings;
+};
@@ -0,0 +1,97 @@
+import * as FileSystem from 'expo-file-system';
+import Constants from 'expo-constants';
+import { writeAtomically } from './atomic';
+import { createBackupArchive } from './backup';
+import { loadSettings } from './settings';
+
+// Automatic snapshots are full backup archives kept on the device, taken on launch and after every
+// few saved records, so a damaged store never costs more than a handful of scans.
+export const SNAPSHOTS_DIRECTORY = FileSystem.documentDirectory + 'backups/';
+
+// The creation time and record count are part of the file name so the list can be shown without reading the files
+const SNAPSHOT_FILE_PATTERN = /^snapshot-(\d+)-(\d+)\.json$/;
+
+export interface Snapshot {
+  uri: string;
+  fileName: string;
+  createdAt: Date;
+  recordCount: number;
+  size: number;
+}
+
+let recordsSinceSnapshot = 0;
+let pendingSnapshot: Promise<Snapshot> | null = null;
+
+export const listSnapshots = async (): Promise<Snapshot[]> => {
+  const directoryInfo = await FileSystem.getInfoAsync(SNAPSHOTS_DIRECTORY);
+  if (!directoryInfo.exists) {
+    return [];
+  }
+
+  const snapshots: Snapshot[] = [];
+  for (const fileName of await FileSystem.readDirectoryAsync(SNAPSHOTS_DIRECTORY)) {
+    const match = SNAPSHOT_FILE_PATTERN.exec(fileName);
+    if (!match) {
+      continue;
+    }
+    const uri = SNAPSHOTS_DIRECTORY + fileName;
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    snapshots.push({
+      uri,
+      fileName,
+      createdAt: new Date(Number(match[1])),
+      recordCount: Number(match[2]),
+      size: fileInfo.exists ? fileInfo.size : 0
+    });
+  }
+
+  return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+const pruneSnapshots = async (keepCount: number) => {
+  const snapshots = await listSnapshots();
+  for (const snapshot of snapshots.slice(keepCount)) {
+    await FileSystem.deleteAsync(snapshot.uri, { idempotent: true });
+  }
+};
+
+const writeSnapshot = async (): Promise<Snapshot> => {
+  const archive = await createBackupArchive(Constants.expoConfig?.version || '', false);
+  const createdAt = new Date(archive.createdAt);
+  const fileName = `snapshot-${createdAt.getTime()}-${archive.records.length}.json`;
+  const uri = SNAPSHOTS_DIRECTORY + fileName;
+
+  await FileSystem.makeDirectoryAsync(SNAPSHOTS_DIRECTORY, { intermediates: true });
+  await writeAtomically(uri, JSON.stringify(archive));
+  await pruneSnapshots((await loadSettings()).autoBackupKeepCount);
+
+  console.log(`Saved snapshot ${fileName}`);
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  return {
+    uri,
+    fileName,
+    createdAt,
+    recordCount: archive.records.length,
+    size: fileInfo.exists ? fileInfo.size : 0
+  };
+};
+
+// Take a snapshot now; a request made while one is being written shares that snapshot
+export const createSnapshot = (): Promise<Snapshot> => {
+  if (!pendingSnapshot) {
+    recordsSinceSnapshot = 0;
+    pendingSnapshot = writeSnapshot().finally(() => {
+      pendingSnapshot = null;
+    });
+  }
+  return pendingSnapshot;
+};
+
+// Call after each saved record; takes a snapshot once the configured number of records has been saved
+export const recordSavedForSnapshot = async () => {
+  recordsSinceSnapshot += 1;
+  const { autoBackupInterval } = await loadSettings();
+  if (recordsSinceSnapshot >= autoBackupInterval) {
+    await createSnapshot();
+  }
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  LookupTableData,
+  deleteLookupTable,
+  importLookupTableData,
+  loadLookupTableData,
+  loadLookupTables,
+  restoreLookupTableData
+} from './lookups';
+import { applyTemplateImport, getOverwriteProblem, importBundledLookupTables, readTemplateFile } from './templateFiles';
+import { Template } from './types';
+
+jest.mock('./lookups', () => ({
+  ...jest.requireActual<typeof import('./lookups')>('./lookups'),
+  deleteLookupTable: jest.fn(),
+  importLookupTableData: jest.fn(),
+  loadLookupTableData: jest.fn(),
+  loadLookupTables: jest.fn(),
+  restoreLookupTableData: jest.fn()
+}));
+
+const csvExportSettings = {
+  includeHeader: true,
+  delimiter: 'semicolon',
+  customDelimiter: '',
+  fieldPositions: { code: 0 },
+  fileExtension: 'csv',
+  includeQuotes: false
+} as const;
+
+const rawTemplate = (id: string, name: string, fields: any[] = [{ id: 'code', name: 'Code', type: 'barcode' }]) =>
+  ({ id, name, description: '', fields, csvExportSettings, createdAt: '2024-01-01T00:00:00.000Z' });
+
+const deviceTemplate = (id: string, name: string, overrides: Partial<Template> = {}): Template => ({
+  ...rawTemplate(id, name),
+  fields: [{ id: 'code', name: 'Code', type: 'barcode', required: true }],
+  csvExportSettings: { ...csvExportSettings, fieldPositions: {} },
+  createdAt: new Date('2023-06-01T00:00:00.000Z'),
+  ...overrides
+});
+
+const fileContent = (templates: any[]) => JSON.stringify({ schemaVersion: 2, templates });
+
+describe('readTemplateFile', () => {
+  it('rejects files that cannot be used at all', () => {
+    expect(() => readTemplateFile('{', [])).toThrow('Invalid JSON file format');
+    expect(() => readTemplateFile('{"templates":{}}', [])).toThrow('Invalid template file format');
+    expect(() => readTemplateFile('{"schemaVersion":99,"templates":[]}', []))
+      .toThrow('This template file was exported from a newer version of the app');
+  });
+
+  it('reports problems per template', () => {
+    const file = readTemplateFile(fileContent([
+      rawTemplate('1', 'Inbound'),
+      rawTemplate('2', '', []),
+      rawTemplate('3', 'Totals', [{ id: 'total', name: 'Total', type: 'computed', formula: '{Quantity} * 2' }]),
+      rawTemplate('4', 'inbound')
+    ]), []);
+
+    expect(file.items.map(item => item.resolution)).toEqual(['import', 'skip', 'skip', 'skip']);
+    expect(file.items[1]).toMatchObject({ name: 'Template 2', errors: ['The template has no name', 'The template has no fields'] });
+    expect(file.items[2].errors).toEqual(['Field 1 ("Total"): There is no field named "Quantity" before this one.']);
+    expect(file.items[3].errors).toEqual(['Another template in this file has the same name or id']);
+  });
+
+  it('migrates version 1 templates before checking them', () => {
+    const legacyTemplate = { id: 7, name: 'Legacy', fields: [{ id: 'code', name: 'Code', type: 'barcode' }] };
+    const file = readTemplateFile(JSON.stringify({ templates: [legacyTemplate] }), []);
+    expect(file.items[0].errors).toEqual([]);
+    expect(file.items[0].template).toMatchObject({ id: '7', fields: [{ required: true, options: [] }] });
+    expect(file.items[0].template!.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('matches templates on the device by id and by name', () => {
+    const current = [deviceTemplate('1', 'Inbound'), deviceTemplate('9', 'Outbound')];
+    const file = readTemplateFile(fileContent([rawTemplate('1', 'Inbound'), rawTemplate('2', 'OUTBOUND')]), current);
+    expect(file.items[0]).toMatchObject({ idConflict: current[0], nameConflict: current[0], resolution: 'skip' });
+    expect(file.items[1]).toMatchObject({ idConflict: undefined, nameConflict: current[1], resolution: 'skip' });
+  });
+});
+
+describe('applyTemplateImport', () => {
+  it('overwrites in place and keeps the id and creation date', () => {
+    const current = [deviceTemplate('1', 'Inbound')];
+    const file = readTemplateFile(fileContent([rawTemplate('1', 'Inbound')]), current);
+    file.items[0].resolution = 'overwrite';
+
+    const { templates, importedCount } = applyTemplateImport(file, current);
+    expect(importedCount).toBe(1);
+    expect(templates).toHaveLength(1);
+    expect(templates[0].createdAt).toBe(current[0].createdAt);
+    expect(templates[0].csvExportSettings.delimiter).toBe('semicolon');
+  });
+
+  it('keeps the export settings of overwritten templates when the file has none', () => {
+    const current = [deviceTemplate('1', 'Inbound')];
+    const file = { ...readTemplateFile(fileContent([rawTemplate('1', 'Inbound')]), current), includesExportProfiles: false };
+    file.items[0].resolution = 'overwrite';
+    expect(applyTemplateImport(file, current).templates[0].csvExportSettings).toBe(current[0].csvExportSettings);
+  });
+
+  it('does not overwrite protected templates', () => {
+    const current = [deviceTemplate('1', 'Inbound', { isProtected: true })];
+    const file = readTemplateFile(fileContent([rawTemplate('1', 'Inbound')]), current);
+    file.items[0].resolution = 'overwrite';
+    expect(getOverwriteProblem(file.items[0])).toBe('"Inbound" is protected and cannot be overwritten');
+    expect(applyTemplateImport(file, current)).toEqual({ templates: current, importedCount: 0 });
+  });
+
+  it('gives copies a new id and a free name', () => {
+    const current = [deviceTemplate('1', 'Inbound'), deviceTemplate('2', 'Inbound (copy)')];
+    const file = readTemplateFile(fileContent([rawTemplate('1', 'Inbound')]), current);
+    file.items[0].resolution = 'copy';
+
+    const copy = applyTemplateImport(file, current).templates[2];
+    expect(copy.name).toBe('Inbound (copy 2)');
+    expect(copy.id).not.toBe('1');
+  });
+});
+
+describe('importBundledLookupTables', () => {
+  it('puts the lookup tables on this device back as they were on rollback', async () => {
+    const suppliers: LookupTableData = { id: 'local-1', name: 'Suppliers', columns: ['Code'], rows: [{ Code: 'A1' }] };
+    jest.mocked(loadLookupTables).mockResolvedValue([
+      { id: 'local-1', name: 'Suppliers', columns: ['Code'], rowCount: 1, importedAt: new Date() }
+    ]);
+    jest.mocked(loadLookupTableData).mockResolvedValue(suppliers);
+    jest.mocked(importLookupTableData).mockImplementation(async table =>
+      ({ ...table, id: table.name === 'Suppliers' ? 'local-1' : 'local-2', rowCount: 1, importedAt: new Date() }));
+
+    const lookup = (tableId: string) => ({ tableId, keyFieldId: 'code', rejectUnknownCodes: false });
+    const file = readTemplateFile(JSON.stringify({
+      schemaVersion: 2,
+      templates: [
+        { ...rawTemplate('1', 'Inbound'), lookup: lookup('pack-1') },
+        { ...rawTemplate('2', 'Outbound'), lookup: lookup('pack-2') }
+      ],
+      lookupTables: [
+        { id: 'pack-1', name: 'Suppliers', columns: ['Code'], rows: [{ Code: 'B2' }] },
+        { id: 'pack-2', name: 'Carriers', columns: ['Code'], rows: [{ Code: 'C3' }] }
+      ]
+    }), []);
+
+    const { tableIds, rollback } = await importBundledLookupTables(file);
+    expect(tableIds).toEqual({ 'pack-1': 'local-1', 'pack-2': 'local-2' });
+
+    await rollback();
+    expect(jest.mocked(deleteLookupTable).mock.calls).toEqual([['local-2']]);
+    expect(restoreLookupTableData).toHaveBeenCalledWith(suppliers, true);
+  });
+});
@@ -0,0 +1,432 @@
+import { validateFormula } from './formulas';
+import {
+  LookupTableData,
+  deleteLookupTable,
+  importLookupTableData,
+  loadLookupTableData,
+  loadLookupTables,
+  restoreLookupTableData
+} from './lookups';
+import { CURRENT_SCHEMA_VERSION, migrateItems } from './schema';
+import { DEFAULT_CSV_EXPORT_SETTINGS, reviveTemplate } from './templates';
+import { FieldType, Template, TemplateField } from './types';
+import { validateRules } from './validation';
+import { describeTemplateChanges } from './versions';
+
+// Template files hold one or more templates exported from the settings screen. Files with several templates
+// are packs: they describe themselves in a manifest and can bundle the lookup lists the templates use. Importing
+// is reviewed per template: each is checked against the template schema and matched against the templates on
+// the device.
+const FIELD_TYPES: FieldType[] = [
+  'free_text', 'date', 'number', 'fixed_data', 'fixed_date', 'barcode', 'sequence', 'computed', 'photo',
+  'checkbox', 'choice', 'time', 'datetime', 'fixed_datetime'
+];
+
+const DELIMITERS = ['comma', 'semicolon', 'pipe', 'custom'];
+
+// 'import' is only offered for templates that conflict with nothing on the device
+export type ImportResolution = 'import' | 'skip' | 'overwrite' | 'copy';
+
+export interface TemplateImportItem {
+  // Name shown in the review, also for templates that could not be read
+  name: string;
+  template: Template | null;
+  // Why the template cannot be imported; empty if it is valid
+  errors: string[];
+  // Template on the device with the same id, and with the same name
+  idConflict?: Template;
+  nameConflict?: Template;
+  resolution: ImportResolution;
+}
+
+export interface PackManifest {
+  name: string;
+  author: string;
+  version: string;
+  description: string;
+}
+
+export interface TemplatePackOptions {
+  manifest: PackManifest;
+  includeLookupTables: boolean;
+  // Without them templates are exported with the default export settings, and templates they overwrite keep theirs
+  includeExportProfiles: boolean;
+}
+
+export interface TemplateFile {
+  manifest: PackManifest | null;
+  includesExportProfiles: boolean;
+  lookupTables: LookupTableData[];
+  items: TemplateImportItem[];
+}
+
+const isPlainObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateField = (field: any, index: number, earlierFields: TemplateField[]): string[] => {
+  const label = `Field ${index + 1}${typeof field?.name === 'string' && field.name.trim() ? ` ("${field.name}")` : ''}`;
+  if (!isPlainObject(field)) {
+    return [`${label} is not a field`];
+  }
+
+  const errors: string[] = [];
+  if (typeof field.id !== 'string' || !field.id) {
+    errors.push(`${label} has no id`);
+  }
+  if (typeof field.name !== 'string' || !field.name.trim()) {
+    errors.push(`${label} has no name`);
+  }
+  if (!FIELD_TYPES.includes(field.type)) {
+    errors.push(`${label} has the unknown type "${field.type}"`);
+  }
+  if (field.options !== undefined &&
+      (!Array.isArray(field.options) || field.options.some((option: any) => typeof option !== 'string'))) {
+    errors.push(`${label} has options that are not a list of text values`);
+  }
+  if (field.type === 'choice' && (!Array.isArray(field.options) || field.options.length === 0)) {
+    errors.push(`${label} is a choice field without options`);
+  }
+  if (field.type === 'computed') {
+    const formulaError = validateFormula(typeof field.formula === 'string' ? field.formula : '', earlierFields);
+    if (formulaError) {
+      errors.push(`${label}: ${formulaError}`);
+    }
+  }
+  if (field.validation !== undefined) {
+    const rulesError = isPlainObject(field.validation) ? validateRules(field.validation) : 'The validation rules cannot be read.';
+    if (rulesError) {
+      errors.push(`${label}: ${rulesError}`);
+    }
+  }
+  [...(field.visibleWhen || []), ...(field.requiredWhen || [])].forEach((condition: any) => {
+    if (!earlierFields.some(earlier => earlier.id === condition?.fieldId)) {
+      errors.push(`${label} has a condition on a field that does not come before it`);
+    }
+  });
+  return errors;
+};
+
+const validateCsvExportSettings = (settings: any): string[] => {
+  if (!isPlainObject(settings)) {
+    return ['The export settings are missing'];
+  }
+
+  const errors: string[] = [];
+  if (typeof settings.includeHeader !== 'boolean' || typeof settings.includeQuotes !== 'boolean') {
+    errors.push('The export settings must say whether to include a header row and quotes');
+  }
+  if (!DELIMITERS.includes(settings.delimiter)) {
+    errors.push(`The export settings have the unknown delimiter "${settings.delimiter}"`);
+  }
+  if (typeof settings.fileExtension !== 'string' || !settings.fileExtension.trim()) {
+    errors.push('The export settings have no file extension');
+  }
+  if (!isPlainObject(settings.fieldPositions) ||
+      Object.values(settings.fieldPositions).some(position => typeof position !== 'number')) {
+    errors.push('The export column positions are not numbers');
+  }
+  return errors;
+};
+
+// Contents of a template file as written by the settings screen; a pack adds its manifest and bundled lookup lists
+export const createTemplateFile = (
+  templates: Template[],
+  appVersion: string,
+  pack?: { options: TemplatePackOptions; lookupTables: LookupTableData[] }
+): string => JSON.stringify({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  manifest: pack?.options.manifest,
+  includesExportProfiles: pack ? pack.options.includeExportProfiles : undefined,
+  // Versions are numbered per device
+  templates: templates.map(template => ({
+    ...template,
+    version: undefined,
+    csvExportSettings: !pack || pack.options.includeExportProfiles
+      ? template.csvExportSettings
+      : { ...DEFAULT_CSV_EXPORT_SETTINGS }
+  })),
+  lookupTables: pack?.lookupTables,
+  exportDate: new Date().toISOString(),
+  appVersion
+}, null, 2);
+
+export const createTemplatePack = async (
+  templates: Template[],
+  appVersion: string,
+  options: TemplatePackOptions
+): Promise<string> => {
+  const lookupTables: LookupTableData[] = [];
+  if (options.includeLookupTables) {
+    const tableIds = new Set(templates.map(template => template.lookup?.tableId).filter((id): id is string => !!id));
+    for (const tableId of tableIds) {
+      const table = await loadLookupTableData(tableId);
+      if (table) lookupTables.push(table);
+    }
+  }
+  return createTemplateFile(templates, appVersion, { options, lookupTables });
+};
+
+const readManifest = (manifest: any): PackManifest | null => {
+  if (manifest === undefined || manifest === null) {
+    return null;
+  }
+  if (!isPlainObject(manifest) || typeof manifest.name !== 'string') {
+    throw new Error('The pack manifest cannot be read');
+  }
+  const text = (value: any) => typeof value === 'string' ? value : '';
+  return {
+    name: manifest.name,
+    author: text(manifest.author),
+    version: text(manifest.version),
+    description: text(manifest.description)
+  };
+};
+
+const readLookupTables = (lookupTables: any): LookupTableData[] => {
+  if (lookupTables === undefined || lookupTables === null) {
+    return [];
+  }
+  const isValid = Array.isArray(lookupTables) && lookupTables.every(table =>
+    isPlainObject(table) && typeof table.id === 'string' && typeof table.name === 'string' && table.name.trim() &&
+    Array.isArray(table.columns) && table.columns.length > 0 &&
+    table.columns.every((column: any) => typeof column === 'string') &&
+    Array.isArray(table.rows) && table.rows.every(isPlainObject));
+  if (!isValid) {
+    throw new Error('The lookup lists in this pack cannot be read');
+  }
+  return lookupTables;
+};
+
+// Readable problems with a template read from a file, after it was brought up to the current schema
+export const validateTemplate = (template: any): string[] => {
+  if (!isPlainObject(template)) {
+    return ['This entry is not a template'];
+  }
+
+  const errors: string[] = [];
+  if (typeof template.id !== 'string' || !template.id) {
+    errors.push('The template has no id');
+  }
+  if (typeof template.name !== 'string' || !template.name.trim()) {
+    errors.push('The template has no name');
+  }
+  if (!Array.isArray(template.fields) || template.fields.length === 0) {
+    errors.push('The template has no fields');
+  } else {
+    const fields: TemplateField[] = template.fields;
+    fields.forEach((field, index) => {
+      errors.push(...validateField(field, index, fields.slice(0, index)));
+    });
+    const fieldIds = fields.map(field => field?.id);
+    if (fieldIds.some((id, index) => fieldIds.indexOf(id) !== index)) {
+      errors.push('Two fields have the same id');
+    }
+    if (template.lookup && !fields.some(field => field?.id === template.lookup.keyFieldId && field.type === 'barcode')) {
+      errors.push('The lookup table is attached to a field that is not a barcode field of this template');
+    }
+  }
+  errors.push(...validateCsvExportSettings(template.csvExportSettings));
+  return errors;
+};
+
+// Read a template file and match its templates against the templates on the device. Throws with a readable
+// message if the file itself cannot be used; problems with single templates are reported per item.
+export const readTemplateFile = (content: string, currentTemplates: Template[]): TemplateFile => {
+  let importData: any;
+  try {
+    importData = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid JSON file format');
+  }
+  if (!importData || !Array.isArray(importData.templates)) {
+    throw new Error('Invalid template file format');
+  }
+
+  // Template files exported before schema versioning carry no version and count as v1
+  const importVersion = Number(importData.schemaVersion) || 1;
+  if (importVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This template file was exported from a newer version of the app');
+  }
+
+  const items: TemplateImportItem[] = [];
+  importData.templates.forEach((rawTemplate: any, index: number) => {
+    const name = typeof rawTemplate?.name === 'string' && rawTemplate.name.trim() ? rawTemplate.name : `Template ${index + 1}`;
+    let errors: string[];
+    let template: Template | null = null;
+    try {
+      const migrated = migrateItems('templates', [rawTemplate], importVersion).items[0];
+      errors = validateTemplate(migrated);
+      if (errors.length === 0) {
+        template = { ...reviveTemplate(migrated), version: undefined };
+      }
+    } catch {
+      errors = ['This entry is not a template'];
+    }
+
+    if (template) {
+      const earlier = items.map(item => item.template).filter((t): t is Template => t !== null);
+      if (earlier.some(t => t.id === template!.id || t.name.toLowerCase() === template!.name.toLowerCase())) {
+        errors.push('Another template in this file has the same name or id');
+        template = null;
+      }
+    }
+
+    const idConflict = template ? currentTemplates.find(t => t.id === template!.id) : undefined;
+    const nameConflict = template
+      ? currentTemplates.find(t => t.name.toLowerCase() === template!.name.toLowerCase())
+      : undefined;
+    items.push({
+      name,
+      template,
+      errors,
+      idConflict,
+      nameConflict,
+      resolution: !template ? 'skip' : idConflict || nameConflict ? 'skip' : 'import'
+    });
+  });
+
+  return {
+    manifest: readManifest(importData.manifest),
+    includesExportProfiles: importData.includesExportProfiles !== false,
+    lookupTables: readLookupTables(importData.lookupTables),
+    items
+  };
+};
+
+// Bundled lookup lists used by the templates being imported
+export const getBundledLookupTables = (file: TemplateFile): LookupTableData[] =>
+  file.lookupTables.filter(table => file.items.some(item =>
+    item.template && item.resolution !== 'skip' && item.template.lookup?.tableId === table.id));
+
+// Store the bundled lookup lists the imported templates use, replacing lists with the same name on this device.
+// Returns the id each bundled list has on this device, and a rollback that puts the lists back as they were
+// for when the templates using them cannot be saved.
+export const importBundledLookupTables = async (
+  file: TemplateFile
+): Promise<{ tableIds: { [packTableId: string]: string }; rollback: () => Promise<void> }> => {
+  const tableIds: { [packTableId: string]: string } = {};
+  const replacedTables: LookupTableData[] = [];
+  const addedTableIds = new Set<string>();
+  const rollback = async () => {
+    for (const tableId of addedTableIds) {
+      await deleteLookupTable(tableId);
+    }
+    for (const table of replacedTables) {
+      await restoreLookupTableData(table, true);
+    }
+  };
+
+  try {
+    for (const table of getBundledLookupTables(file)) {
+      const replaced = (await loadLookupTables()).find(t => t.name === table.name);
+      const replacedData = replaced && !addedTableIds.has(replaced.id) && await loadLookupTableData(replaced.id);
+      if (replacedData && !replacedTables.some(t => t.id === replacedData.id)) {
+        replacedTables.push(replacedData);
+      }
+      const stored = await importLookupTableData(table);
+      if (!replaced) {
+        addedTableIds.add(stored.id);
+      }
+      tableIds[table.id] = stored.id;
+    }
+  } catch (error) {
+    await rollback();
+    throw error;
+  }
+  return { tableIds, rollback };
+};
+
+// The template an overwrite replaces: the one with the same id, else the one with the same name
+export const getOverwriteTarget = (item: TemplateImportItem): Template | undefined => item.idConflict ?? item.nameConflict;
+
+// Why an item cannot overwrite its conflict, or null if it can
+export const getOverwriteProblem = (item: TemplateImportItem): string | null => {
+  const target = getOverwriteTarget(item);
+  if (!target) {
+    return null;
+  }
+  if (target.isProtected) {
+    return `"${target.name}" is protected and cannot be overwritten`;
+  }
+  if (item.idConflict && item.nameConflict && item.idConflict.id !== item.nameConflict.id) {
+    return `The name is used by "${item.nameConflict.name}", another template than the one with the same id`;
+  }
+  return null;
+};
+
+export const describeImportConflict = (item: TemplateImportItem): string | null => {
+  const { idConflict, nameConflict } = item;
+  if (idConflict && nameConflict && idConflict.id === nameConflict.id) {
+    return 'This template is already on this device';
+  }
+  return [
+    idConflict && `This template is already on this device as "${idConflict.name}"`,
+    nameConflict && `Another template called "${nameConflict.name}" already exists`
+  ].filter(Boolean).join('. ') || null;
+};
+
+// Field by field differences between the template on the device and the imported one
+export const describeImportChanges = (item: TemplateImportItem): string[] => {
+  const target = getOverwriteTarget(item);
+  return target && item.template ? describeTemplateChanges(target, item.template) : [];
+};
+
+const getCopyName = (name: string, takenNames: Set<string>): string => {
+  let copyName = `${name} (copy)`;
+  for (let number = 2; takenNames.has(copyName.toLowerCase()); number++) {
+    copyName = `${name} (copy ${number})`;
+  }
+  return copyName;
+};
+
+// Apply the chosen resolutions. Overwritten templates keep their id and creation date, so their records stay
+// attached and the change becomes a new version. Copies get a new id and a free name. Lookups are pointed at
+// the bundled lists as stored on this device.
+export const applyTemplateImport = (
+  file: TemplateFile,
+  currentTemplates: Template[],
+  lookupTableIds: { [packTableId: string]: string } = {}
+): { templates: Template[]; importedCount: number } => {
+  let templates = [...currentTemplates];
+  let importedCount = 0;
+
+  file.items.forEach((item, index) => {
+    if (!item.template || item.resolution === 'skip') {
+      return;
+    }
+    const lookup = item.template.lookup;
+    const template: Template = {
+      ...item.template,
+      lookup: lookup && { ...lookup, tableId: lookupTableIds[lookup.tableId] ?? lookup.tableId }
+    };
+
+    if (item.resolution === 'overwrite') {
+      const target = getOverwriteTarget(item);
+      if (!target || getOverwriteProblem(item)) {
+        return;
+      }
+      templates = templates.map(t => t.id === target.id
+        ? {
+            ...template,
+            id: target.id,
+            createdAt: target.createdAt,
+            isProtected: false,
+            csvExportSettings: file.includesExportProfiles ? template.csvExportSettings : target.csvExportSettings
+          }
+        : t);
+    } else if (item.resolution === 'copy') {
+      const takenNames = new Set(templates.map(t => t.name.toLowerCase()));
+      templates.push({
+        ...template,
+        id: `${Date.now()}${index}`,
+        name: getCopyName(template.name, takenNames),
+        createdAt: new Date(),
+        isProtected: false
+      });
+    } else {
+      templates.push(template);
+    }
+    importedCount += 1;
+  });
+
+  return { templates, importedCount };
+};
@@ -0,0 +1,200 @@
+import * as FileSystem from 'expo-file-system';
+import { getRecordDatabase } from './database';
+import { notify } from './events';
+import { preserveTemplateInRecords, releasePreservedTemplate } from './records';
+import { readCurrentItems, writeStoreFile } from './schema';
+import { loadTrashPayload, moveToTrash, removeFromTrash } from './trash';
+import { CSVExportSettings, DataRecord, Template } from './types';
+import { loadTemplateVersion, recordTemplateVersions } from './versions';
+
+export const TEMPLATES_FILE = FileSystem.documentDirectory + 'templates.json';
+
+export const DEFAULT_CSV_EXPORT_SETTINGS: CSVExportSettings = {
+  includeHeader: false,
+  delimiter: 'comma',
+  customDelimiter: '',
+  fieldPositions: {},
+  fileExtension: 'csv',
+  includeQuotes: true
+};
+
+export const DEFAULT_TEMPLATE_ID = '1753791586091';
+
+const DEFAULT_STOCK_COUNT_TEMPLATE: Template = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Stock Count',
+  description: '',
+  fields: [
+    {
+      id: '1753791519541',
+      name: 'Location',
+      type: 'fixed_data',
+      required: true,
+      defaultValue: '',
+      options: [],
+      inputMode: 'editable',
+      dateFormat: 'YYYY-MM-DD',
+      customDateFormat: ''
+    },
+    {
+      id: '1753791530032',
+      name: 'Barcode',
+      type: 'barcode',
+      required: true,
+      defaultValue: '',
+      options: [],
+      inputMode: 'select_only',
+      dateFormat: 'YYYY-MM-DD',
+      customDateFormat: ''
+    },
+    {
+      id: '1753791545448',
+      name: 'Date',
+      type: 'fixed_date',
+      required: true,
+      defaultValue: '',
+      options: [],
+      inputMode: 'select_only',
+      dateFormat: 'yyyyMMdd',
+      customDateFormat: ''
+    },
+    {
+      id: '1753791555840',
+      name: 'Quantity',
+      type: 'number',
+      required: true,
+      defaultValue: '',
+      options: [],
+      inputMode: 'select_only',
+      dateFormat: 'YYYY-MM-DD',
+      customDateFormat: ''
+    }
+  ],
+  csvExportSettings: {
+    includeHeader: false,
+    delimiter: 'comma',
+    customDelimiter: '',
+    fieldPositions: {
+      '1753791519541': 1,
+      '1753791530032': 2,
+      '1753791545448': 4,
+      '1753791555840': 3
+    },
+    fileExtension: 'csv',
+    includeQuotes: false
+  },
+  createdAt: new Date('2025-07-29T12:19:46.091Z'),
+  isProtected: true
+};
+
+// Revive a template that has already been migrated to the current schema
+export const reviveTemplate = (template: any): Template => ({
+  ...template,
+  createdAt: new Date(template.createdAt)
+});
+
+export const loadTemplates = async (): Promise<Template[]> => {
+  const items = await readCurrentItems(TEMPLATES_FILE, 'templates');
+  return items.map(reviveTemplate);
+};
+
+// Every changed template gets a new version before the list is written
+export const saveTemplates = async (templates: Template[]) => {
+  const versionedTemplates = await recordTemplateVersions(templates, await loadTemplates());
+  await writeStoreFile(TEMPLATES_FILE, 'templates', versionedTemplates);
+  notify('templates');
+};
+
+export const getTemplate = async (templateId: string): Promise<Template | undefined> => {
+  const templates = await loadTemplates();
+  return templates.find(t => t.id === templateId);
+};
+
+// Add the built-in Stock Count template if it is missing; returns the (possibly updated) list
+export const ensureDefaultTemplate = async (templates: Template[]): Promise<Template[]> => {
+  const hasDefaultTemplate = templates.some(template =>
+    template.id === DEFAULT_TEMPLATE_ID && template.name === DEFAULT_STOCK_COUNT_TEMPLATE.name
+  );
+  if (hasDefaultTemplate) {
+    return templates;
+  }
+
+  const updatedTemplates = [{ ...DEFAULT_STOCK_COUNT_TEMPLATE }, ...templates];
+  await saveTemplates(updatedTemplates);
+  console.log('Default template added.');
+  return updatedTemplates;
+};
+
+// Delete a template into the recycle bin; its records keep a snapshot of it so they stay readable meanwhile
+export const trashTemplate = async (template: Template) => {
+  await preserveTemplateInRecords(template);
+
+  const db = await getRecordDatabase();
+  await moveToTrash(db, 'template', template.name, { records: [], template });
+  notify('trash');
+
+  const templates = await loadTemplates();
+  await saveTemplates(templates.filter(t => t.id !== template.id));
+};
+
+// Put a template from the recycle bin back; a name taken in the meantime gets a "(restored)" suffix.
+// Returns the restored template, or undefined if the item is no longer in the recycle bin.
+export const restoreTemplateFromTrash = async (trashId: number): Promise<Template | undefined> => {
+  const db = await getRecordDatabase();
+  const payload = await loadTrashPayload(db, trashId);
+  if (!payload?.template) {
+    return undefined;
+  }
+
+  const templates = await loadTemplates();
+  const restoredTemplate = reviveTemplate(payload.template);
+  if (templates.some(t => t.name === restoredTemplate.name)) {
+    restoredTemplate.name = `${restoredTemplate.name} (restored)`;
+  }
+
+  await saveTemplates([...templates.filter(t => t.id !== restoredTemplate.id), restoredTemplate]);
+  await removeFromTrash(db, trashId);
+  notify('trash');
+  await releasePreservedTemplate(restoredTemplate.id);
+  return restoredTemplate;
+};
+
+// Find the template a record was captured with, falling back to the snapshot kept when it was deleted
+export const resolveRecordTemplate = (templates: Template[], record: DataRecord): Template | undefined => {
+  const template = templates.find(t => t.id === record.templateId);
+  if (template) {
+    return template;
+  }
+
+  if (record.preservedTemplateFields) {
+    return {
+      id: record.templateId,
+      name: record.templateName,
+      description: 'Deleted Template',
+      fields: record.preservedTemplateFields,
+      csvExportSettings: record.preservedCsvSettings || { ...DEFAULT_CSV_EXPORT_SETTINGS },
+      createdAt: new Date()
+    };
+  }
+
+  return undefined;
+};
+
+// Like resolveRecordTemplate, but with the fields and export settings of the version the record was captured
+// with. Records from before versioning, or whose version is not stored on this device, use the current template.
+export const resolveRecordTemplateVersion = async (
+  templates: Template[],
+  record: DataRecord
+): Promise<Template | undefined> => {
+  const template = resolveRecordTemplate(templates, record);
+  if (record.templateVersion === undefined && template?.version === undefined) {
+    return template;
+  }
+  const version = record.templateVersion ?? 1;
+  if (template?.version === version) {
+    return template;
+  }
+
+  const storedVersion = await loadTemplateVersion(record.templateId, version);
+  return storedVersion ? { ...storedVersion.template, isProtected: template?.isProtected } : template;
+};
@@ -0,0 +1,114 @@
+import * as SQLite from 'expo-sqlite';
+import { getRecordDatabase } from './database';
+import { notify } from './events';
+import { deleteUnreferencedPhotos } from './photos';
+import { CURRENT_SCHEMA_VERSION, migrateItems } from './schema';
+import { loadSettings } from './settings';
+
+// Deleted records, data files and templates are kept in the trash table of the record database until
+// they are restored or purged, so a mistaken delete can be undone.
+export type TrashItemKind = 'record' | 'data_file' | 'all_records' | 'template';
+
+export interface TrashItem {
+  id: number;
+  kind: TrashItemKind;
+  label: string;
+  deletedAt: Date;
+  recordCount: number;
+}
+
+// Items are stored in the schema version current at deletion time and upgraded when restored
+export interface TrashPayload {
+  schemaVersion: number;
+  records: any[];
+  template?: any;
+}
+
+interface TrashRow {
+  id: number;
+  kind: TrashItemKind;
+  label: string;
+  deleted_at: number;
+  record_count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Must run inside the transaction that deletes the items, so they are never lost in between
+export const moveToTrash = async (
+  db: SQLite.SQLiteDatabase,
+  kind: TrashItemKind,
+  label: string,
+  content: Omit<TrashPayload, 'schemaVersion'>
+) => {
+  const payload: TrashPayload = { schemaVersion: CURRENT_SCHEMA_VERSION, ...content };
+  await db.runAsync(
+    'INSERT INTO trash (kind, label, deleted_at, record_count, payload) VALUES (?, ?, ?, ?, ?)',
+    [kind, label, Date.now(), content.records.length, JSON.stringify(payload)]
+  );
+};
+
+// Read an item's contents upgraded to the current schema, or null if it is no longer in the trash
+export const loadTrashPayload = async (db: SQLite.SQLiteDatabase, trashId: number): Promise<TrashPayload | null> => {
+  const row = await db.getFirstAsync<{ payload: string }>('SELECT payload FROM trash WHERE id = ?', [trashId]);
+  if (!row) {
+    return null;
+  }
+
+  const payload: TrashPayload = JSON.parse(row.payload);
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    records: migrateItems('records', payload.records, payload.schemaVersion).items,
+    template: payload.template && migrateItems('templates', [payload.template], payload.schemaVersion).items[0]
+  };
+};
+
+export const removeFromTrash = async (db: SQLite.SQLiteDatabase, trashId: number) => {
+  await db.runAsync('DELETE FROM trash WHERE id = ?', [trashId]);
+};
+
+export const loadTrashItems = async (): Promise<TrashItem[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<TrashRow>(
+    'SELECT id, kind, label, deleted_at, record_count FROM trash ORDER BY deleted_at DESC, id DESC'
+  );
+  return rows.map(row => ({
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    deletedAt: new Date(row.deleted_at),
+    recordCount: row.record_count
+  }));
+};
+
+export const getTrashExpiry = (item: TrashItem, retentionDays: number): Date =>
+  new Date(item.deletedAt.getTime() + retentionDays * DAY_MS);
+
+export const purgeTrashItem = async (trashId: number) => {
+  const db = await getRecordDatabase();
+  await removeFromTrash(db, trashId);
+  await deleteUnreferencedPhotos();
+  notify('trash');
+};
+
+export const emptyTrash = async () => {
+  const db = await getRecordDatabase();
+  await db.runAsync('DELETE FROM trash');
+  await deleteUnreferencedPhotos();
+  notify('trash');
+};
+
+// Permanently remove items older than the configured retention period; returns how many were purged.
+// Runs on every launch, so it also clears photos left behind by data entry that was never saved.
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const { trashRetentionDays } = await loadSettings();
+  const db = await getRecordDatabase();
+  const result = await db.runAsync('DELETE FROM trash WHERE deleted_at < ?', [Date.now() - trashRetentionDays * DAY_MS]);
+  await deleteUnreferencedPhotos();
+
+  if (result.changes > 0) {
+    console.log(`Purged ${result.changes} expired item(s) from the recycle bin`);
+    notify('trash');
+  }
+  return result.changes;
+};
@@ -0,0 +1,165 @@
+export type FieldType = 'free_text' | 'date' | 'number' | 'fixed_data' | 'fixed_date' | 'barcode' | 'sequence' | 'computed' | 'photo' | 'checkbox' | 'choice'
+  | 'time' | 'datetime' | 'fixed_datetime';
+
+export interface SequenceSettings {
+  start: number;
+  step: number;
+  // Minimum number of digits, filled with leading zeros
+  padLength: number;
+  prefix: string;
+  suffix: string;
+  // 'file' restarts numbering in every data file, 'global' counts across all files of the template
+  scope: 'file' | 'global';
+}
+
+export interface NumberSettings {
+  kind: 'integer' | 'decimal';
+  // Decimal fields are saved and exported with exactly this many decimals; unset keeps them as entered
+  decimalPlaces?: number;
+  min?: number;
+  max?: number;
+  allowNegative: boolean;
+  // Shown next to the input only, never stored with the value
+  unit: string;
+}
+
+export type CharacterSet = 'any' | 'digits' | 'letters' | 'alphanumeric' | 'uppercase_alphanumeric';
+
+export type ChecksumType = 'ean8' | 'ean13' | 'upc' | 'itf14';
+
+// Checked before a record is saved, see storage/validation.ts
+export interface ValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  // Regular expression the whole value must match, with the message shown when it does not
+  pattern?: string;
+  patternMessage?: string;
+  characterSet?: CharacterSet;
+  checksum?: ChecksumType;
+}
+
+export type ConditionOperator = 'equals' | 'not_equals' | 'contains' | 'is_empty' | 'is_not_empty';
+
+// Compares the current value of an earlier field, see storage/conditions.ts
+export interface FieldCondition {
+  fieldId: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export interface TemplateField {
+  id: string;
+  name: string;
+  type: FieldType;
+  required: boolean;
+  // May contain tokens such as {today} or {recordCount+1}, see storage/defaults.ts
+  defaultValue?: string;
+  // Variable fields that keep the value of the previous record instead of being reset after each save
+  carryForward?: boolean;
+  options?: string[];
+  inputMode?: 'select_only' | 'editable';
+  dateFormat?: string;
+  customDateFormat?: string;
+  // Token pattern for time and date-time fields, see storage/datetime.ts
+  timeFormat?: string;
+  customTimeFormat?: string;
+  // Time and date-time fields filled with the moment the record is saved instead of being picked
+  autoStamp?: boolean;
+  sequence?: SequenceSettings;
+  number?: NumberSettings;
+  validation?: ValidationRules;
+  // The field is only shown when all of these hold; hidden fields are saved and exported empty
+  visibleWhen?: FieldCondition[];
+  // The field is only required when all of these hold
+  requiredWhen?: FieldCondition[];
+  // Column of the template's lookup table this field is filled from when the lookup code is scanned
+  lookupColumn?: string;
+  // Filled fields cannot be changed by hand
+  lookupReadOnly?: boolean;
+  // Expression for computed fields, see storage/formulas.ts
+  formula?: string;
+  // Exported in place of CHECKBOX_CHECKED / CHECKBOX_UNCHECKED, e.g. Y/N or 1/0
+  checkedExportValue?: string;
+  uncheckedExportValue?: string;
+  // Exported in place of the option at the same index of a choice field; blank exports the option itself
+  optionExportValues?: string[];
+}
+
+export interface CSVExportSettings {
+  includeHeader: boolean;
+  delimiter: 'comma' | 'semicolon' | 'pipe' | 'custom';
+  customDelimiter?: string;
+  fieldPositions: { [fieldId: string]: number };
+  fileExtension: string;
+  includeQuotes: boolean;
+}
+
+// Attaches a lookup table to a template, see storage/lookups.ts
+export interface TemplateLookup {
+  tableId: string;
+  // Barcode field whose code is looked up
+  keyFieldId: string;
+  // Column shown under the barcode field so operators can tell what they scanned
+  descriptionColumn?: string;
+  // Codes missing from the table cannot be saved
+  rejectUnknownCodes: boolean;
+}
+
+export interface LookupTable {
+  id: string;
+  name: string;
+  // Header names; the first column holds the codes
+  columns: string[];
+  rowCount: number;
+  importedAt: Date;
+}
+
+export interface Template {
+  id: string;
+  name: string;
+  description: string;
+  fields: TemplateField[];
+  csvExportSettings: CSVExportSettings;
+  createdAt: Date;
+  isProtected?: boolean;
+  lookup?: TemplateLookup;
+  // Latest saved version, see storage/versions.ts
+  version?: number;
+}
+
+export interface DataRecord {
+  id: string;
+  templateId: string;
+  templateName: string;
+  data: { [fieldId: string]: string };
+  timestamp: Date;
+  dataFileName?: string;
+  // Version of the template the record was captured with; records from before versioning have none
+  templateVersion?: number;
+  // Snapshot of the template taken when it was deleted, so the file can still be viewed and exported
+  preservedTemplateFields?: TemplateField[];
+  preservedCsvSettings?: CSVExportSettings;
+  templateDeleted?: boolean;
+  templateDeletedAt?: string;
+}
+
+export interface DataFileSummary {
+  fileName: string;
+  totalRecords: number;
+  lastRecordAt: Date;
+  hasDeletedTemplate: boolean;
+}
+
+export const UNNAMED_FILE = 'Unnamed File';
+
+// Values stored by checkbox fields; what is exported is configured per field
+export const CHECKBOX_CHECKED = 'true';
+export const CHECKBOX_UNCHECKED = 'false';
+
+export const isFixedField = (field: Pick<TemplateField, 'type'>): boolean =>
+  field.type === 'fixed_data' || field.type === 'fixed_date' || field.type === 'fixed_datetime';
+
+// Fields whose value is filled in by the app rather than typed in during data entry
+export const isAutomaticField = (field: Pick<TemplateField, 'type' | 'autoStamp'>): boolean =>
+  field.type === 'sequence' || field.type === 'computed' ||
+  (field.autoStamp === true && (field.type === 'time' || field.type === 'datetime'));
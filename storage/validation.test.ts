@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { TemplateField, ValidationRules } from './types';
+import { DEFAULT_FREE_TEXT_MAX_LENGTH, describeValidationRules, validateFieldValue, validateRules } from './validation';
+
+const field = (validation: ValidationRules, overrides: Partial<TemplateField> = {}): TemplateField =>
+  ({ id: 'code', name: 'Code', type: 'barcode', required: false, validation, ...overrides });
+
+describe('validateRules', () => {
+  it('rejects contradictory lengths and invalid patterns', () => {
+    expect(validateRules({ minLength: 5, maxLength: 3 })).toBe('The minimum length cannot be larger than the maximum length.');
+    expect(validateRules({ pattern: '[A-Z' })).toBe('The pattern is not a valid regular expression.');
+    expect(validateRules({ minLength: 3, maxLength: 3, pattern: '[A-Z]+' })).toBeNull();
+  });
+});
+
+describe('validateFieldValue', () => {
+  it('leaves empty values to the required check', () => {
+    expect(validateFieldValue(field({ minLength: 4 }), '')).toBeNull();
+  });
+
+  it('checks the length', () => {
+    expect(validateFieldValue(field({ minLength: 4 }), 'ABC')).toBe('Code must be at least 4 characters long');
+    expect(validateFieldValue(field({ maxLength: 2 }), 'ABC')).toBe('Code can be at most 2 characters long');
+  });
+
+  it('limits free text fields without a maximum of their own', () => {
+    const freeText = field({}, { type: 'free_text' });
+    expect(validateFieldValue(freeText, 'x'.repeat(DEFAULT_FREE_TEXT_MAX_LENGTH))).toBeNull();
+    expect(validateFieldValue(freeText, 'x'.repeat(DEFAULT_FREE_TEXT_MAX_LENGTH + 1)))
+      .toBe(`Code can be at most ${DEFAULT_FREE_TEXT_MAX_LENGTH} characters long`);
+  });
+
+  it('checks the character set', () => {
+    expect(validateFieldValue(field({ characterSet: 'digits' }), '12A')).toBe('Code may only contain digits');
+    expect(validateFieldValue(field({ characterSet: 'uppercase_alphanumeric' }), 'AB12')).toBeNull();
+    expect(validateFieldValue(field({ characterSet: 'uppercase_alphanumeric' }), 'ab12'))
+      .toBe('Code may only contain capital letters and digits');
+  });
+
+  it('matches the whole value against the pattern', () => {
+    const rules = { pattern: 'LOT-\\d{3}' };
+    expect(validateFieldValue(field(rules), 'LOT-123')).toBeNull();
+    expect(validateFieldValue(field(rules), 'LOT-1234')).toBe('Code is not in the expected format');
+    expect(validateFieldValue(field({ ...rules, patternMessage: 'Use LOT-000' }), 'X')).toBe('Use LOT-000');
+  });
+
+  it('checks GS1 check digits', () => {
+    expect(validateFieldValue(field({ checksum: 'ean13' }), '4006381333931')).toBeNull();
+    expect(validateFieldValue(field({ checksum: 'ean13' }), '4006381333932'))
+      .toBe('Code has an invalid EAN-13 check digit');
+    expect(validateFieldValue(field({ checksum: 'ean8' }), '96385074')).toBeNull();
+    expect(validateFieldValue(field({ checksum: 'upc' }), '03600029145')).toBe('Code must be a 12-digit UPC-A code');
+  });
+
+  it('ignores rules on fields that are picked from a list', () => {
+    expect(validateFieldValue(field({ minLength: 10 }, { type: 'choice' }), 'A')).toBeNull();
+  });
+
+  it('checks number fields against their number settings', () => {
+    const quantity = field({}, { type: 'number', number: { kind: 'integer', allowNegative: false, unit: '' } });
+    expect(validateFieldValue(quantity, '12')).toBeNull();
+    expect(validateFieldValue(quantity, '1.5')).toBe('Code must be a whole number');
+    expect(validateFieldValue(quantity, '-1')).toBe('Code cannot be negative');
+  });
+});
+
+describe('describeValidationRules', () => {
+  it('summarizes the rules', () => {
+    expect(describeValidationRules({})).toBe('');
+    expect(describeValidationRules({ maxLength: 8, characterSet: 'digits', checksum: 'ean8' }))
+      .toBe('0-8 chars, digits, EAN-8 check digit');
+  });
+});
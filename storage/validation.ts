@@ -0,0 +1,126 @@
+import { validateNumberValue } from './numbers';
+import { CharacterSet, ChecksumType, FieldType, TemplateField, ValidationRules } from './types';
+
+// Free text fields without a maximum of their own keep the limit every free text field used to have
+export const DEFAULT_FREE_TEXT_MAX_LENGTH = 30;
+
+export const CHARACTER_SETS: { [set in CharacterSet]: { label: string; pattern: RegExp; description: string } } = {
+  any: { label: 'Any characters', pattern: /^[\s\S]*$/, description: '' },
+  digits: { label: 'Digits only', pattern: /^[0-9]*$/, description: 'digits' },
+  letters: { label: 'Letters only', pattern: /^[A-Za-z]*$/, description: 'letters' },
+  alphanumeric: { label: 'Letters and digits', pattern: /^[A-Za-z0-9]*$/, description: 'letters and digits' },
+  uppercase_alphanumeric: {
+    label: 'Capital letters and digits',
+    pattern: /^[A-Z0-9]*$/,
+    description: 'capital letters and digits'
+  },
+};
+
+export const CHECKSUM_TYPES: { [type in ChecksumType]: { label: string; length: number } } = {
+  ean8: { label: 'EAN-8', length: 8 },
+  ean13: { label: 'EAN-13', length: 13 },
+  upc: { label: 'UPC-A', length: 12 },
+  itf14: { label: 'ITF-14', length: 14 },
+};
+
+// Rules apply to values that are typed or scanned; other types are picked from a list or filled in automatically
+export const supportsValidationRules = (type: FieldType) =>
+  type === 'free_text' || type === 'barcode' || type === 'fixed_data';
+
+export const getMaxLength = (field: TemplateField): number | undefined =>
+  field.validation?.maxLength ?? (field.type === 'free_text' ? DEFAULT_FREE_TEXT_MAX_LENGTH : undefined);
+
+// GS1 check digit shared by EAN-8, EAN-13, UPC-A and ITF-14: digits are weighted 3 and 1 alternately,
+// starting with 3 next to the check digit
+const hasValidCheckDigit = (digits: string): boolean => {
+  const sum = digits
+    .slice(0, -1)
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+const buildPattern = (pattern: string) => new RegExp(`^(?:${pattern})$`);
+
+// Check the rules themselves in the template editor; returns an error message or null
+export const validateRules = (rules: ValidationRules): string | null => {
+  if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+    return 'The minimum length cannot be larger than the maximum length.';
+  }
+  if (rules.pattern) {
+    try {
+      buildPattern(rules.pattern);
+    } catch {
+      return 'The pattern is not a valid regular expression.';
+    }
+  }
+  return null;
+};
+
+// Check an entered value against the field's rules; returns an error message or null. Empty values are left
+// to the required check.
+export const validateFieldValue = (field: TemplateField, value: string): string | null => {
+  if (!value) {
+    return null;
+  }
+  if (field.type === 'number') {
+    return validateNumberValue(field, value);
+  }
+  if (!supportsValidationRules(field.type)) {
+    return null;
+  }
+
+  const rules = field.validation || {};
+  const maxLength = getMaxLength(field);
+  if (rules.minLength !== undefined && value.length < rules.minLength) {
+    return `${field.name} must be at least ${rules.minLength} characters long`;
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    return `${field.name} can be at most ${maxLength} characters long`;
+  }
+
+  const characterSet = CHARACTER_SETS[rules.characterSet || 'any'];
+  if (!characterSet.pattern.test(value)) {
+    return `${field.name} may only contain ${characterSet.description}`;
+  }
+
+  if (rules.pattern) {
+    try {
+      if (!buildPattern(rules.pattern).test(value)) {
+        return rules.patternMessage?.trim() || `${field.name} is not in the expected format`;
+      }
+    } catch (error) {
+      console.error(`Invalid pattern for ${field.name}:`, error);
+    }
+  }
+
+  if (rules.checksum) {
+    const checksumType = CHECKSUM_TYPES[rules.checksum];
+    if (!/^\d+$/.test(value) || value.length !== checksumType.length) {
+      return `${field.name} must be a ${checksumType.length}-digit ${checksumType.label} code`;
+    }
+    if (!hasValidCheckDigit(value)) {
+      return `${field.name} has an invalid ${checksumType.label} check digit`;
+    }
+  }
+  return null;
+};
+
+// Short description of the rules for the template editor's field list; empty when there are none
+export const describeValidationRules = (rules: ValidationRules): string => {
+  const parts: string[] = [];
+  if (rules.minLength !== undefined || rules.maxLength !== undefined) {
+    parts.push(`${rules.minLength ?? 0}-${rules.maxLength ?? '…'} chars`);
+  }
+  if (rules.characterSet && rules.characterSet !== 'any') {
+    parts.push(CHARACTER_SETS[rules.characterSet].description);
+  }
+  if (rules.pattern) {
+    parts.push('pattern');
+  }
+  if (rules.checksum) {
+    parts.push(`${CHECKSUM_TYPES[rules.checksum].label} check digit`);
+  }
+  return parts.join(', ');
+};
@@ -0,0 +1,200 @@
+import { getRecordDatabase } from './database';
+import { Template, TemplateField } from './types';
+
+// Every saved change to a template is kept as an immutable numbered version. Records remember the version
+// they were captured with, so exports and continued input use the fields that were current at the time.
+export interface TemplateVersion {
+  templateId: string;
+  version: number;
+  savedAt: Date;
+  template: Template;
+}
+
+interface TemplateVersionRow {
+  template_id: string;
+  version: number;
+  saved_at: number;
+  payload: string;
+}
+
+// What makes two versions different; the id, creation date and protection never change between versions
+const getVersionContent = (template: Template) => JSON.stringify({
+  name: template.name,
+  description: template.description,
+  fields: template.fields,
+  csvExportSettings: template.csvExportSettings,
+  lookup: template.lookup ?? null
+});
+
+const toTemplateVersion = (row: TemplateVersionRow): TemplateVersion => {
+  const template = JSON.parse(row.payload);
+  return {
+    templateId: row.template_id,
+    version: row.version,
+    savedAt: new Date(row.saved_at),
+    template: { ...template, createdAt: new Date(template.createdAt), version: row.version }
+  };
+};
+
+// Store a new version of every template whose content differs from its latest version. A template saved for
+// the first time since versioning started gets its previous content as version 1, which is also the version
+// of records captured before then. Returns the templates with their current version number set.
+export const recordTemplateVersions = async (templates: Template[], previousTemplates: Template[]): Promise<Template[]> => {
+  const db = await getRecordDatabase();
+  const versionedTemplates: Template[] = [];
+  const savedAt = Date.now();
+
+  await db.withExclusiveTransactionAsync(async txn => {
+    for (const template of templates) {
+      const latest = await txn.getFirstAsync<TemplateVersionRow>(
+        'SELECT * FROM template_versions WHERE template_id = ? ORDER BY version DESC LIMIT 1',
+        [template.id]
+      );
+      let latestVersion = latest?.version ?? 0;
+      let latestContent = latest ? getVersionContent(toTemplateVersion(latest).template) : null;
+
+      const insertVersion = async (content: Template) => {
+        latestVersion += 1;
+        latestContent = getVersionContent(content);
+        await txn.runAsync(
+          'INSERT INTO template_versions (template_id, version, saved_at, payload) VALUES (?, ?, ?, ?)',
+          [template.id, latestVersion, savedAt, JSON.stringify({ ...content, version: undefined })]
+        );
+      };
+
+      const previous = previousTemplates.find(t => t.id === template.id);
+      if (!latest && previous) {
+        await insertVersion(previous);
+      }
+      if (latestContent !== getVersionContent(template)) {
+        await insertVersion(template);
+      }
+      versionedTemplates.push({ ...template, version: latestVersion });
+    }
+  });
+
+  return versionedTemplates;
+};
+
+// Newest first
+export const loadTemplateVersions = async (templateId: string): Promise<TemplateVersion[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<TemplateVersionRow>(
+    'SELECT * FROM template_versions WHERE template_id = ? ORDER BY version DESC',
+    [templateId]
+  );
+  return rows.map(toTemplateVersion);
+};
+
+export const loadTemplateVersion = async (templateId: string, version: number): Promise<TemplateVersion | null> => {
+  const db = await getRecordDatabase();
+  const row = await db.getFirstAsync<TemplateVersionRow>(
+    'SELECT * FROM template_versions WHERE template_id = ? AND version = ?',
+    [templateId, version]
+  );
+  return row ? toTemplateVersion(row) : null;
+};
+
+// Oldest first, e.g. for backup archives
+export const loadAllTemplateVersions = async (): Promise<TemplateVersion[]> => {
+  const db = await getRecordDatabase();
+  const rows = await db.getAllAsync<TemplateVersionRow>('SELECT * FROM template_versions ORDER BY template_id, version');
+  return rows.map(toTemplateVersion);
+};
+
+// Bring back the version history of templates from a backup. A template that already has a history on this
+// device keeps it unless overwrite is set, since its version numbers mean something else here.
+// Returns the ids of the templates whose history was restored.
+export const restoreTemplateVersions = async (versions: TemplateVersion[], overwrite: boolean): Promise<Set<string>> => {
+  const db = await getRecordDatabase();
+  const restoredTemplateIds = new Set<string>();
+
+  await db.withExclusiveTransactionAsync(async txn => {
+    for (const templateId of new Set(versions.map(v => v.templateId))) {
+      const existing = await txn.getFirstAsync<TemplateVersionRow>(
+        'SELECT * FROM template_versions WHERE template_id = ? LIMIT 1',
+        [templateId]
+      );
+      if (existing && !overwrite) continue;
+
+      await txn.runAsync('DELETE FROM template_versions WHERE template_id = ?', [templateId]);
+      for (const version of versions.filter(v => v.templateId === templateId)) {
+        await txn.runAsync(
+          'INSERT INTO template_versions (template_id, version, saved_at, payload) VALUES (?, ?, ?, ?)',
+          [templateId, version.version, version.savedAt.getTime(), JSON.stringify({ ...version.template, version: undefined })]
+        );
+      }
+      restoredTemplateIds.add(templateId);
+    }
+  });
+
+  return restoredTemplateIds;
+};
+
+// Fields are matched by id, and fields whose id is not in the other template by name, so templates that were
+// created on another device can be compared too
+const matchFields = (from: TemplateField[], to: TemplateField[]): Map<TemplateField, TemplateField> => {
+  const matches = new Map<TemplateField, TemplateField>();
+  to.forEach(field => {
+    const previous = from.find(f => f.id === field.id);
+    if (previous) matches.set(field, previous);
+  });
+  const matched = new Set(matches.values());
+  to.filter(field => !matches.has(field)).forEach(field => {
+    const previous = from.find(f => !matched.has(f) && f.name.trim().toLowerCase() === field.name.trim().toLowerCase());
+    if (previous) {
+      matches.set(field, previous);
+      matched.add(previous);
+    }
+  });
+  return matches;
+};
+
+// e.g. customDateFormat -> custom date format
+const describeSetting = (key: string) => key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+// Human readable differences between two versions of a template, e.g. for the version history
+export const describeTemplateChanges = (from: Template, to: Template): string[] => {
+  const changes: string[] = [];
+  if (from.name !== to.name) {
+    changes.push(`Renamed from "${from.name}" to "${to.name}"`);
+  }
+  if (from.description !== to.description) {
+    changes.push('Changed the description');
+  }
+
+  const matches = matchFields(from.fields, to.fields);
+  const matchedPrevious = new Set(matches.values());
+  to.fields.filter(field => !matches.has(field)).forEach(field => {
+    changes.push(`Added field "${field.name}"`);
+  });
+  from.fields.filter(field => !matchedPrevious.has(field)).forEach(field => {
+    changes.push(`Removed field "${field.name}"`);
+  });
+  to.fields.forEach(field => {
+    const previous = matches.get(field);
+    if (!previous) return;
+    if (previous.name !== field.name) {
+      changes.push(`Renamed field "${previous.name}" to "${field.name}"`);
+    }
+    const changedSettings = [...new Set([...Object.keys(previous), ...Object.keys(field)])]
+      .filter(key => key !== 'id' && key !== 'name')
+      .filter(key => JSON.stringify((previous as any)[key]) !== JSON.stringify((field as any)[key]));
+    if (changedSettings.length > 0) {
+      changes.push(`Changed field "${field.name}": ${changedSettings.map(describeSetting).join(', ')}`);
+    }
+  });
+
+  const previousOrder = from.fields.filter(field => matchedPrevious.has(field));
+  const currentOrder = to.fields.filter(field => matches.has(field)).map(field => matches.get(field));
+  if (previousOrder.some((field, index) => currentOrder[index] !== field)) {
+    changes.push('Changed the order of the fields');
+  }
+  if (JSON.stringify(from.csvExportSettings) !== JSON.stringify(to.csvExportSettings)) {
+    changes.push('Changed the export settings');
+  }
+  if (JSON.stringify(from.lookup ?? null) !== JSON.stringify(to.lookup ?? null)) {
+    changes.push('Changed the lookup table settings');
+  }
+  return changes;
+};